@@ -1,5 +1,5 @@
 import React, { useState, useCallback, useEffect } from 'react';
-import AdjustmentPanel from './components/AdjustmentPanel';
+import NeuroLearnScreen from './components/AdjustmentPanel';
 import SparkIQScreen from './components/FilterPanel';
 import StartScreen from './components/StartScreen';
 import SplashScreen from './components/SplashScreen';
@@ -7,14 +7,28 @@ import AuthScreen from './components/AuthScreen';
 import ProfileScreen from './components/ProfileScreen';
 import RecentActivitiesScreen from './components/RecentActivitiesScreen';
 import AnalyticsDashboardScreen from './components/AnalyticsDashboardScreen';
+import SettingsScreen from './components/SettingsScreen';
+import UsageScreen from './components/UsageScreen';
+import SafetyScreen from './components/SafetyScreen';
+import DataAuditScreen from './components/DataAuditScreen';
+import ModelSettingsScreen from './components/ModelSettingsScreen';
+import PromptEditorScreen from './components/PromptEditorScreen';
+import LibraryScreen from './components/LibraryScreen';
+import FlashcardsScreen from './components/FlashcardsScreen';
 import Header from './components/Header';
+import DebugModal, { isDebugModalShortcut } from './components/DebugModal';
 import { Activity, User } from './types';
+import { setSessionUser } from './services/sessionContext';
+import { canInspectAICalls } from './services/userRoles';
+import type { LibraryItem } from './services/contentLibrary';
+import { countFlashcards } from './services/flashcards';
 
 // FIX: Moved mock data from the bottom of the file and made it local to resolve compiler errors.
 const mockUsers: User[] = [
     { id: 'user_1', username: 'student', email: 'student@example.com', password: 'hashed_password123', bio: 'Loves learning new things!'},
     { id: 'user_2', username: 'Alex', email: 'alex@gmail.com', password: 'hashed_alex123!'},
     { id: 'user_3', username: 'janedoe', name: 'Jane Doe', email: 'jane.doe@example.com', googleId: 'google_12345', bio: 'Creative thinker and problem solver.', picture: 'https://lh3.googleusercontent.com/a/ACg8ocJ_6Zg_p_1_3_q_-_...'},
+    { id: 'user_4', username: 'teacher', name: 'Ms. Rivera', email: 'teacher@example.com', password: 'hashed_teacher123!', role: 'teacher' },
 ];
 
 const mockActivities: Activity[] = [
@@ -24,7 +38,7 @@ const mockActivities: Activity[] = [
     { userId: 'user_3', section: 'SparkIQ: Design Task', outcome: 'Completed: Martian Backpack', timestamp: new Date(Date.now() - 86400000 * 4) },
 ];
 
-type Screen = 'start' | 'neurolearn' | 'sparkiq' | 'profile' | 'activities' | 'dashboard';
+type Screen = 'start' | 'neurolearn' | 'sparkiq' | 'profile' | 'activities' | 'dashboard' | 'settings' | 'usage' | 'safety' | 'dataAudit' | 'models' | 'prompts' | 'library' | 'flashcards';
 
 // FIX: Changed to a named export to resolve a module resolution error.
 export const App: React.FC = () => {
@@ -37,12 +51,30 @@ export const App: React.FC = () => {
     const [activities, setActivities] = useState<Activity[]>([]);
 
     const currentScreen = screenHistory[screenHistory.length - 1];
+    const [isDebugModalOpen, setIsDebugModalOpen] = useState(false);
+    /** The library item NeuroLearn shows when it opens, or null for a fresh start. */
+    const [libraryItemToOpen, setLibraryItemToOpen] = useState<LibraryItem | null>(null);
+    const [flashcardCounts, setFlashcardCounts] = useState<{ due: number; total: number } | null>(null);
+    const closeDebugModal = useCallback(() => setIsDebugModalOpen(false), []);
 
     useEffect(() => {
         const timer = setTimeout(() => setShowSplash(false), 2000);
         return () => clearTimeout(timer);
     }, []);
 
+    // Hidden shortcut that toggles the AI call inspector from any screen, for teachers and in development builds
+    useEffect(() => {
+        if (!canInspectAICalls(currentUser)) return;
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (isDebugModalShortcut(event)) {
+                event.preventDefault();
+                setIsDebugModalOpen(open => !open);
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [currentUser]);
+
     // Load user from localStorage on initial render
     useEffect(() => {
         const storedUser = localStorage.getItem('currentUser');
@@ -50,8 +82,10 @@ export const App: React.FC = () => {
             try {
                 const user: User = JSON.parse(storedUser);
                 // Optional: Validate if user still exists in our 'database'
-                if (users.some(dbUser => dbUser.id === user.id)) {
-                    setCurrentUser(user);
+                const dbUser = users.find(candidate => candidate.id === user.id);
+                if (dbUser) {
+                    // The role always comes from the database, as the stored copy can be edited
+                    setCurrentUser({ ...user, role: dbUser.role });
                 } else {
                     // User in localStorage doesn't exist in our DB, so clear it.
                     localStorage.removeItem('currentUser');
@@ -65,6 +99,7 @@ export const App: React.FC = () => {
 
     // Persist user to localStorage whenever it changes
     useEffect(() => {
+        setSessionUser(currentUser); // Lets AI service calls be attributed to the signed-in user
         if (currentUser) {
             localStorage.setItem('currentUser', JSON.stringify(currentUser));
         } else {
@@ -102,6 +137,16 @@ export const App: React.FC = () => {
         }
     }, [currentUser]);
 
+    // Refresh the flashcards due whenever the start screen is shown, e.g. after a review or a new deck
+    useEffect(() => {
+        if (!currentUser || currentScreen !== 'start') return;
+        let isCurrent = true;
+        countFlashcards(currentUser.id)
+            .then(counts => { if (isCurrent) setFlashcardCounts(counts); })
+            .catch(err => console.error("Failed to count flashcards:", err));
+        return () => { isCurrent = false; };
+    }, [currentUser, currentScreen]);
+
     // Persist activities to localStorage whenever they change for the current user
     useEffect(() => {
         if (currentUser) {
@@ -127,7 +172,7 @@ export const App: React.FC = () => {
         if (!user.googleId && users.some(u => u.email === user.email)) {
             return { success: false, message: 'Email is already registered.' };
         }
-        const newUser: User = { ...user, id: `user_${Date.now()}` };
+        const newUser: User = { ...user, id: `user_${Date.now()}`, role: 'learner' };
         setUsers(prev => [...prev, newUser]);
         setCurrentUser(newUser);
         return { success: true };
@@ -170,6 +215,7 @@ export const App: React.FC = () => {
 
     const handleLogout = () => {
         setCurrentUser(null);
+        setFlashcardCounts(null);
         setScreenHistory(['start']);
     };
 
@@ -203,8 +249,13 @@ export const App: React.FC = () => {
             case 'start':
                 return (
                     <StartScreen
-                        onSelectNeuroLearn={() => navigateTo('neurolearn')}
+                        onSelectNeuroLearn={() => {
+                            setLibraryItemToOpen(null);
+                            navigateTo('neurolearn');
+                        }}
                         onSelectSparkIQ={() => navigateTo('sparkiq')}
+                        flashcardCounts={flashcardCounts}
+                        onReviewFlashcards={() => navigateTo('flashcards')}
                     />
                 );
             case 'neurolearn':
@@ -212,6 +263,8 @@ export const App: React.FC = () => {
                     <NeuroLearnScreen
                         onLogActivity={handleLogActivity}
                         onBack={navigateBack}
+                        onOpenSettings={() => navigateTo('settings')}
+                        initialLibraryItem={libraryItemToOpen}
                     />
                 );
             case 'sparkiq':
@@ -219,6 +272,7 @@ export const App: React.FC = () => {
                     <SparkIQScreen
                         onLogActivity={handleLogActivity}
                         onBack={navigateBack}
+                        onOpenSettings={() => navigateTo('settings')}
                     />
                 );
             case 'profile':
@@ -227,6 +281,31 @@ export const App: React.FC = () => {
                 return <RecentActivitiesScreen activities={userActivities} onBack={navigateBack} onNavigateToDashboard={() => navigateTo('dashboard')} />;
             case 'dashboard':
                 return <AnalyticsDashboardScreen activities={userActivities} onBack={navigateBack} />;
+            case 'settings':
+                return <SettingsScreen onBack={navigateBack} onOpenUsage={() => navigateTo('usage')} onOpenSafety={() => navigateTo('safety')} onOpenDataAudit={() => navigateTo('dataAudit')} onOpenModels={() => navigateTo('models')} onOpenPromptEditor={() => navigateTo('prompts')} />;
+            case 'usage':
+                return <UsageScreen user={currentUser} accounts={users} onBack={navigateBack} />;
+            case 'safety':
+                return <SafetyScreen user={currentUser} accounts={users} onBack={navigateBack} />;
+            case 'dataAudit':
+                return <DataAuditScreen onBack={navigateBack} />;
+            case 'models':
+                return <ModelSettingsScreen onBack={navigateBack} />;
+            case 'prompts':
+                return <PromptEditorScreen onBack={navigateBack} />;
+            case 'library':
+                return (
+                    <LibraryScreen
+                        user={currentUser}
+                        onBack={navigateBack}
+                        onOpenItem={item => {
+                            setLibraryItemToOpen(item);
+                            navigateTo('neurolearn');
+                        }}
+                    />
+                );
+            case 'flashcards':
+                return <FlashcardsScreen user={currentUser} onBack={navigateBack} onLogActivity={handleLogActivity} />;
             default:
                 return null;
         }
@@ -247,10 +326,13 @@ export const App: React.FC = () => {
                     onProfile={() => navigateTo('profile')}
                     onActivities={() => navigateTo('activities')}
                     onDashboard={() => navigateTo('dashboard')}
+                    onLibrary={() => navigateTo('library')}
+                    onSettings={() => navigateTo('settings')}
                     onLogout={handleLogout}
                 />
             )}
             {renderMainContent()}
+            {isDebugModalOpen && canInspectAICalls(currentUser) && <DebugModal onClose={closeDebugModal} />}
         </div>
     );
 };
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { AIServiceError, AIErrorKind } from '../services/aiErrors';
+import { SettingsIcon } from './icons';
+
+interface AIErrorNoticeProps {
+    error: AIServiceError;
+    /** Re-runs the failed request. Omitted when retrying the same input cannot help. */
+    onRetry?: () => void;
+    /** Returns to the screen's input state, e.g. to edit the request. */
+    onDismiss: () => void;
+    onOpenSettings: () => void;
+}
+
+interface ErrorGuidance {
+    title: string;
+    guidance: string;
+    canRetry: boolean;
+    needsSettings?: boolean;
+}
+
+const errorGuidance: Record<AIErrorKind, ErrorGuidance> = {
+    'not-configured': {
+        title: "AI not configured",
+        guidance: "Add or update your Gemini API key in Settings, then try again.",
+        canRetry: true,
+        needsSettings: true,
+    },
+    'quota': {
+        title: "Usage limit reached",
+        guidance: "Your API key has used up its quota. Wait for it to reset, or add a different key in Settings.",
+        canRetry: false,
+        needsSettings: true,
+    },
+    'rate-limit': {
+        title: "Slow down a little",
+        guidance: "Too many requests were sent in a short time. Wait a few seconds and try again.",
+        canRetry: true,
+    },
+    'safety-blocked': {
+        title: "Request blocked",
+        guidance: "The AI couldn't respond to this content for safety reasons. Try rephrasing it or choosing a different topic.",
+        canRetry: false,
+    },
+    'network': {
+        title: "Connection problem",
+        guidance: "We couldn't reach the AI service. Check your internet connection, then try again.",
+        canRetry: true,
+    },
+    'invalid-response': {
+        title: "Unexpected answer",
+        guidance: "The AI's answer came back incomplete. Trying again usually fixes this.",
+        canRetry: true,
+    },
+    'timeout': {
+        title: "Taking too long",
+        guidance: "The AI didn't respond in time. It may be busy right now, so try again in a moment.",
+        canRetry: true,
+    },
+    'cancelled': {
+        title: "Request cancelled",
+        guidance: "You stopped this request before it finished.",
+        canRetry: true,
+    },
+    'budget': {
+        title: "AI budget reached",
+        guidance: "You've used up the AI budget set for your account. It resets at the start of the next day or month, or the limits can be changed on the AI Usage page in Settings.",
+        canRetry: false,
+        needsSettings: true,
+    },
+    'moderated': {
+        title: "Let's try something else",
+        guidance: "",
+        canRetry: false,
+    },
+    'unknown': {
+        title: "Something went wrong",
+        guidance: "",
+        canRetry: true,
+    },
+};
+
+/**
+ * A one-line, user-facing explanation of an AI failure, for places too small for the full notice.
+ */
+export function describeAIError(error: AIServiceError): string {
+    return errorGuidance[error.kind]?.guidance || error.message;
+}
+
+/**
+ * Explains why an AI request failed and what the user can do about it, with a retry button
+ * for failures that are worth retrying.
+ */
+const AIErrorNotice: React.FC<AIErrorNoticeProps> = ({ error, onRetry, onDismiss, onOpenSettings }) => {
+    const { title, guidance, canRetry, needsSettings } = errorGuidance[error.kind] ?? errorGuidance.unknown;
+
+    return (
+        <div className="text-center max-w-md animate-fade-in">
+            <div className="bg-red-50 border border-red-200 p-6 rounded-2xl text-red-700 shadow-sm">
+                <h2 className="text-2xl font-bold mb-2">{title}</h2>
+                <p className="mb-4">{guidance || error.message}</p>
+                <div className="flex flex-wrap justify-center gap-3">
+                    {canRetry && onRetry && (
+                        <button onClick={onRetry} className="bg-pink-500 text-white font-bold py-2 px-6 rounded-xl transition-all shadow-md hover:bg-pink-600">
+                            Try again
+                        </button>
+                    )}
+                    {needsSettings && (
+                        <button onClick={onOpenSettings} className="inline-flex items-center gap-2 bg-white border-2 border-pink-300 text-pink-600 font-bold py-2 px-6 rounded-xl transition-all hover:bg-pink-50">
+                            <SettingsIcon className="w-5 h-5" />
+                            Open Settings
+                        </button>
+                    )}
+                    <button onClick={onDismiss} className="text-pink-600 font-semibold py-2 px-4">
+                        Go back
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AIErrorNotice;
@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { SettingsIcon } from './icons';
+
+interface AINotConfiguredNoticeProps {
+    onOpenSettings: () => void;
+}
+
+/**
+ * Shown in place of AI entry points when no API key has been configured.
+ */
+const AINotConfiguredNotice: React.FC<AINotConfiguredNoticeProps> = ({ onOpenSettings }) => (
+    <div className="text-center max-w-md animate-fade-in">
+        <div className="bg-yellow-50 border border-yellow-200 p-6 rounded-2xl text-yellow-800 shadow-sm">
+            <h2 className="text-2xl font-bold mb-2">AI not configured</h2>
+            <p className="mb-4">This feature needs a Gemini API key. Add one in Settings and you'll be ready to go.</p>
+            <button onClick={onOpenSettings} className="inline-flex items-center gap-2 bg-pink-500 text-white font-bold py-2 px-6 rounded-xl transition-all shadow-md hover:bg-pink-600">
+                <SettingsIcon className="w-5 h-5" />
+                Open Settings
+            </button>
+        </div>
+    </div>
+);
+
+export default AINotConfiguredNotice;
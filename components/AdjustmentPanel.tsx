@@ -9,8 +9,10 @@ import {
     generateExpandedContent,
     generateComprehensionTest,
     evaluateComprehensionTest,
-    findHighQualityWebImage,
     translateContent,
+    generateDiagram,
+    SimplificationProgress,
+    SimplifyOptions,
 } from '../services/geminiService';
 import {
     SimplifiedContent,
@@ -19,8 +21,29 @@ import {
     TestResult,
     Activity,
     ContentLevel,
+    ImageDetail,
+    ImageStatus,
+    DiagramKind,
 } from '../types';
+import { isAIConfigured } from '../services/llmProvider';
+import { AIServiceError, AICancelledError, AINotConfiguredError } from '../services/aiErrors';
+import type { ImageQueueProgress } from '../services/imageQueue';
+import { nextFallbackImage } from '../services/fallbackIllustrations';
+import { findRedactions, RedactionSummary } from '../services/piiRedaction';
+import type { ExportSource } from '../services/exportDocument';
+import { syncFlashcardDeck } from '../services/flashcards';
+import { saveLibraryItem, listLibraryItems, librarySubjects, LibraryItem, LibraryItemDetails } from '../services/contentLibrary';
 import Spinner from './Spinner';
+import AINotConfiguredNotice from './AINotConfiguredNotice';
+import AIErrorNotice from './AIErrorNotice';
+import CachedResultBadge from './CachedResultBadge';
+import ReadabilityPanel from './ReadabilityPanel';
+import RedactionPreview from './RedactionPreview';
+import LibraryItemDialog from './LibraryItemDialog';
+import ExportDialog from './ExportDialog';
+import MermaidDiagram from './MermaidDiagram';
+import BilingualView from './BilingualView';
+import { createReadAlong, ReadAlong, ReadAlongStatus } from '../services/readAlong';
 // @ts-ignore - using esm.sh import
 import ReactMarkdown from 'react-markdown';
 // @ts-ignore
@@ -30,6 +53,9 @@ import { FileUploadIcon, VolumeUpIcon } from './icons';
 interface NeuroLearnScreenProps {
     onLogActivity: (activity: Omit<Activity, 'timestamp' | 'userId'>) => void;
     onBack: () => void;
+    onOpenSettings: () => void;
+    /** A saved library item to show instead of the input screen. */
+    initialLibraryItem?: LibraryItem | null;
 }
 
 type ScreenState = 'input' | 'simplified' | 'expanded' | 'test' | 'result';
@@ -57,63 +83,155 @@ const languageMap: { [key: string]: string } = {
     'French': 'fr-FR',
 };
 
-const NeuroLearnScreen: React.FC<NeuroLearnScreenProps> = ({ onLogActivity, onBack }) => {
-    const [screenState, setScreenState] = useState<ScreenState>('input');
+const imageStatusStyles: Record<Exclude<ImageStatus, 'pending' | 'failed'>, { label: string; className: string }> = {
+    generated: { label: 'AI generated', className: 'bg-green-100 text-green-800' },
+    fallback: { label: 'Illustration (AI image unavailable)', className: 'bg-yellow-100 text-yellow-800' },
+};
+
+type ReadAloudTarget = 'english' | 'translation' | 'expanded';
+
+/** A voice for a language code, or a clear English voice when no language is given. */
+function findVoice(voices: SpeechSynthesisVoice[], lang?: string): SpeechSynthesisVoice | undefined {
+    if (lang) {
+        // Try to find a voice that matches the language code exactly or the language part.
+        return voices.find(voice => voice.lang === lang) || voices.find(voice => voice.lang.startsWith(lang.split('-')[0]));
+    }
+    // Default to a female English voice if no language is specified.
+    return voices.find(voice => voice.lang.startsWith('en') && voice.name.toLowerCase().includes('female')) ||
+        voices.find(voice => voice.lang.startsWith('en') && (voice.name.includes('Google') || voice.name.includes('Samantha') || voice.name.includes('Zira'))) ||
+        voices.find(voice => voice.lang.startsWith('en'));
+}
+
+/** The loading message for a long document being simplified section by section. */
+function describeSimplifyProgress(progress: SimplificationProgress): string {
+    switch (progress.stage) {
+        case 'extracting': return 'Reading the text of this document...';
+        case 'sections': return `Simplifying section ${progress.completed + 1} of ${progress.total}: ${progress.currentSection}...`;
+        case 'merging': return `Combining ${progress.total} sections into one overview...`;
+    }
+}
+
+/** The status of an image, inferred for packs saved before statuses were recorded. */
+function imageStatusOf(image: ImageDetail): ImageStatus {
+    if (image.status) return image.status;
+    if (!image.url) return 'pending';
+    if (image.source?.startsWith('Placeholder')) return 'failed';
+    return image.source === 'AI Generated' ? 'generated' : 'fallback';
+}
+
+const NeuroLearnScreen: React.FC<NeuroLearnScreenProps> = ({ onLogActivity, onBack, onOpenSettings, initialLibraryItem }) => {
+    const savedSimplification = initialLibraryItem?.kind === 'simplified' ? initialLibraryItem : null;
+    const savedPack = initialLibraryItem?.kind === 'expanded' ? initialLibraryItem : null;
+
+    const [screenState, setScreenState] = useState<ScreenState>(initialLibraryItem?.kind ?? 'input');
     const [inputText, setInputText] = useState('');
-    const [topic, setTopic] = useState('');
+    const [topic, setTopic] = useState(savedPack?.topic ?? '');
     const [isLoading, setIsLoading] = useState(false);
     const [loadingMessage, setLoadingMessage] = useState('Generating content...');
-    const [error, setError] = useState<string | null>(null);
+    /** True while an expanded pack is on screen but its text or images are still arriving. */
+    const [isStreaming, setIsStreaming] = useState(false);
+    /** Progress of the teaching pack's image queue, while images are being generated. */
+    const [imageProgress, setImageProgress] = useState<ImageQueueProgress | null>(null);
+    /** Set when the content on screen was served from the response cache, to when it was generated. */
+    const [cachedAt, setCachedAt] = useState<number | null>(null);
+    const lastSimplifySourceRef = useRef<SimplifiedContentSource | null>(null);
+    /** Progress through a long document's sections while it is simplified section by section. */
+    const [simplifyProgress, setSimplifyProgress] = useState<SimplificationProgress | null>(null);
+    const [error, setError] = useState<string | AIServiceError | null>(null);
+    const [retryAction, setRetryAction] = useState<(() => void) | null>(null);
 
-    const [simplifiedContent, setSimplifiedContent] = useState<SimplifiedContent | null>(null);
-    const [expandedContent, setExpandedContent] = useState<ExpandedContent | null>(null);
+    const [simplifiedContent, setSimplifiedContent] = useState<SimplifiedContent | null>(savedSimplification?.content ?? null);
+    const [expandedContent, setExpandedContent] = useState<ExpandedContent | null>(savedPack?.content ?? null);
     const [comprehensionTest, setComprehensionTest] = useState<ComprehensionQuestion[]>([]);
     const [testAnswers, setTestAnswers] = useState<string[]>([]);
     const [testResult, setTestResult] = useState<TestResult | null>(null);
     
-    const [activeSimplifiedTab, setActiveSimplifiedTab] = useState<SimplifiedTab>('beginner');
+    const [activeSimplifiedTab, setActiveSimplifiedTab] = useState<SimplifiedTab>(
+        savedSimplification?.translation?.level ?? savedSimplification?.content.suggestedLevel ?? 'beginner'
+    );
+    /** The section of a long document being viewed, or null for the whole document. */
+    const [activeSectionIndex, setActiveSectionIndex] = useState<number | null>(savedSimplification?.translation?.sectionIndex ?? null);
     
     const fileInputRef = useRef<HTMLInputElement>(null);
     const englishContentRef = useRef<HTMLDivElement>(null);
     const translatedContentRef = useRef<HTMLDivElement>(null);
+    const expandedContentRef = useRef<HTMLDivElement>(null);
     const [fileAccept, setFileAccept] = useState('');
-    const [sourceFilename, setSourceFilename] = useState<string | null>(null);
+    const [sourceFilename, setSourceFilename] = useState<string | null>(savedSimplification?.sourceFilename ?? null);
+    /** Text waiting for the user to review the personal details found in it before it is sent. */
+    const [pendingRedaction, setPendingRedaction] = useState<{ text: string; filename: string | null } | null>(null);
     
-    const [isSpeaking, setIsSpeaking] = useState(false);
+    const [readAlongStatus, setReadAlongStatus] = useState<ReadAlongStatus>('idle');
+    /** The content being read aloud, while it is read or paused. */
+    const [readingTarget, setReadingTarget] = useState<ReadAloudTarget | null>(null);
+    const readAlongRef = useRef<ReadAlong | null>(null);
     const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
     
     const [quote, setQuote] = useState<{ text: string; author: string } | null>(null);
 
     // New state for translation and cognitive engine
-    const [suggestedLevel, setSuggestedLevel] = useState<SimplifiedTab | null>(null);
-    const [targetLanguage, setTargetLanguage] = useState('Hindi');
+    const [suggestedLevel, setSuggestedLevel] = useState<SimplifiedTab | null>(savedSimplification?.content.suggestedLevel ?? null);
+    const [targetLanguage, setTargetLanguage] = useState(savedSimplification?.translation?.language ?? 'Hindi');
     const [translatedContent, setTranslatedContent] = useState<ContentLevel | null>(null);
     const [isTranslating, setIsTranslating] = useState(false);
+    /** Whether a translation is shown beside the English or on its own. */
+    const [translationLayout, setTranslationLayout] = useState<'bilingual' | 'single'>('bilingual');
+    /** Existing subjects while the save dialog is open, null when it is closed. */
+    const [librarySaveSubjects, setLibrarySaveSubjects] = useState<string[] | null>(null);
+    const [librarySaveMessage, setLibrarySaveMessage] = useState<string | null>(null);
+    /** The content being exported while the export dialog is open. */
+    const [exportSource, setExportSource] = useState<ExportSource | null>(null);
+    /** The index of the teaching pack diagram being redrawn. */
+    const [regeneratingDiagram, setRegeneratingDiagram] = useState<number | null>(null);
+
+    /** Controls the AI request in flight, so it can be cancelled by the user or on unmount. */
+    const requestControllerRef = useRef<AbortController | null>(null);
+    /** Diagram redraws get their own controller, so starting one doesn't cancel the pack being written. */
+    const diagramControllerRef = useRef<AbortController | null>(null);
 
     useEffect(() => {
         // Select a random quote on component mount
         setQuote(quotes[Math.floor(Math.random() * quotes.length)]);
     }, []);
-    
-    // Ensure speech is cancelled on component unmount or state change
+
+    // Abort any in-flight AI request when leaving the screen
     useEffect(() => {
         return () => {
-            if (window.speechSynthesis.speaking) {
-                window.speechSynthesis.cancel();
-                setIsSpeaking(false);
-            }
+            requestControllerRef.current?.abort();
+            diagramControllerRef.current?.abort();
         };
+    }, []);
+    
+    // Ensure reading aloud stops on component unmount or state change
+    useEffect(() => {
+        return () => readAlongRef.current?.stop();
     }, [screenState]);
 
-    // Ensure speech is cancelled and translation is cleared if the active simplified tab changes
+    // Ensure reading aloud stops and translation is cleared if the active simplified tab changes
     useEffect(() => {
-        if (window.speechSynthesis.speaking) {
-            window.speechSynthesis.cancel();
-            setIsSpeaking(false);
-        }
+        readAlongRef.current?.stop();
         setTranslatedContent(null); // Clear translation when tab changes
     }, [activeSimplifiedTab]);
 
+    // The text being read aloud is replaced when the translation or its layout changes
+    useEffect(() => {
+        readAlongRef.current?.stop();
+    }, [translatedContent, translationLayout]);
+
+    // Show a saved translation; this runs after the effect above, which clears it on mount
+    useEffect(() => {
+        if (savedSimplification?.translation) {
+            setTranslatedContent(savedSimplification.translation.content);
+        }
+    }, []);
+
+    // Turn the key terms of each simplified topic into a flashcard deck, keeping earlier review progress
+    useEffect(() => {
+        if (!simplifiedContent) return;
+        syncFlashcardDeck(simplificationTitle(), simplifiedContent)
+            .catch(err => console.error("Failed to update flashcards:", err));
+    }, [simplifiedContent]);
+
     // Load speech synthesis voices
     useEffect(() => {
         const loadVoices = () => {
@@ -157,20 +275,37 @@ const NeuroLearnScreen: React.FC<NeuroLearnScreenProps> = ({ onLogActivity, onBa
         setSimplifiedContent(content);
         setSuggestedLevel(content.suggestedLevel);
         setActiveSimplifiedTab(content.suggestedLevel); // Automatically switch to suggested tab
+        setActiveSectionIndex(null);
         setTranslatedContent(null); // Reset translation on new content
         setScreenState('simplified');
     };
 
+    /** Aborts any previous AI request, including a diagram redraw for the old content, and returns the signal for a new one. */
+    const beginRequest = (): AbortSignal => {
+        requestControllerRef.current?.abort();
+        diagramControllerRef.current?.abort();
+        requestControllerRef.current = new AbortController();
+        return requestControllerRef.current.signal;
+    };
+
+    const handleCancel = () => {
+        requestControllerRef.current?.abort();
+        requestControllerRef.current = null;
+        setIsLoading(false);
+        setIsStreaming(false);
+    };
+
     const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
-        if (!file) return;
+        if (!file || !ensureAIConfigured()) return;
 
+        const signal = beginRequest();
         setIsLoading(true);
         setError(null);
         setLoadingMessage(`Extracting content from ${file.name}...`);
 
+        let contentToSimplify: SimplifiedContentSource | null = null;
         try {
-            let contentToSimplify: SimplifiedContentSource;
             const mimeType = file.type;
             const fileName = file.name.toLowerCase();
 
@@ -178,16 +313,17 @@ const NeuroLearnScreen: React.FC<NeuroLearnScreenProps> = ({ onLogActivity, onBa
             if (mimeType.includes('word') || fileName.endsWith('.docx') || fileName.endsWith('.doc')) {
                 const arrayBuffer = await file.arrayBuffer();
                 const result = await mammoth.extractRawText({ arrayBuffer });
-                // FIX: Check the extracted text before assigning to the union-typed variable to satisfy TypeScript.
                 const extractedText = result.value;
                 if (!extractedText.trim()) {
                     throw new Error('The Word document appears to be empty or text could not be extracted.');
                 }
-                contentToSimplify = extractedText;
+                await reviewOrSimplify(extractedText, file.name);
+                return;
             }
             // Handle TXT by reading as plain text
             else if (mimeType === 'text/plain' || fileName.endsWith('.txt')) {
-                contentToSimplify = await file.text();
+                await reviewOrSimplify(await file.text(), file.name);
+                return;
             }
             // Handle PDF, PPTX, audio, video and other supported file types by sending them directly to the API
             else {
@@ -201,15 +337,23 @@ const NeuroLearnScreen: React.FC<NeuroLearnScreenProps> = ({ onLogActivity, onBa
             
             setLoadingMessage('Simplifying content...');
             setSourceFilename(file.name);
-            const content = await generateSimplifiedContent(contentToSimplify);
+            lastSimplifySourceRef.current = contentToSimplify;
+            setCachedAt(null);
+            const content = await generateSimplifiedContent(contentToSimplify, { signal, onCacheHit: setCachedAt, onProgress: setSimplifyProgress });
             processSimplifiedContentResult(content);
             
         } catch (e: any) {
             console.error("File processing failed:", e);
-            setError(e.message || "Failed to process the file. Please ensure it's a supported format and not corrupted.");
+            if (e instanceof AIServiceError && contentToSimplify) {
+                const source = contentToSimplify;
+                showAIError(e, () => simplifySource(source));
+            } else {
+                setError(e.message || "Failed to process the file. Please ensure it's a supported format and not corrupted.");
+            }
             setScreenState('input');
         } finally {
             setIsLoading(false);
+            setSimplifyProgress(null);
             if (event.target) {
                 event.target.value = '';
             }
@@ -217,57 +361,132 @@ const NeuroLearnScreen: React.FC<NeuroLearnScreenProps> = ({ onLogActivity, onBa
     };
 
 
-    const handleSimplify = async () => {
-        if (!inputText.trim()) {
-            setError('Please enter some text to simplify.');
-            return;
-        }
+    /**
+     * Shows a failed AI request with error-specific guidance and remembers how to re-run it,
+     * so the notice can offer a retry.
+     */
+    const showAIError = (err: unknown, retry: () => void) => {
+        if (err instanceof AICancelledError) return;
+        setError(err instanceof AIServiceError ? err : new AIServiceError('unknown', 'Something went wrong with the AI service. Please try again in a moment.'));
+        setRetryAction(() => retry);
+    };
+
+    /**
+     * Checked by each AI action, so content reopened from the Library stays readable without an
+     * API key and only the actions that need one show the "AI not configured" notice.
+     */
+    const ensureAIConfigured = (): boolean => {
+        if (isAIConfigured()) return true;
+        setError(new AINotConfiguredError());
+        setRetryAction(null);
+        return false;
+    };
+
+    const simplifySource = async (source: SimplifiedContentSource, bypassCache = false, upload: Pick<SimplifyOptions, 'filename' | 'redactions'> = {}) => {
+        const signal = beginRequest();
+        lastSimplifySourceRef.current = source;
         setIsLoading(true);
         setLoadingMessage('Simplifying content...');
         setError(null);
-        setSourceFilename(null); // No file when simplifying from text area
-        
+        setCachedAt(null);
         try {
-            const content = await generateSimplifiedContent(inputText);
+            const content = await generateSimplifiedContent(source, { ...upload, signal, bypassCache, onCacheHit: setCachedAt, onProgress: setSimplifyProgress });
             processSimplifiedContentResult(content);
-        } catch (err: any) {
-            setError(err.message || 'Failed to simplify content. There might be an issue with the AI service. Please check your internet connection and try again in a moment.');
+        } catch (err) {
+            showAIError(err, () => simplifySource(source, bypassCache, upload));
         } finally {
             setIsLoading(false);
+            setSimplifyProgress(null);
         }
     };
 
-    const handleExpand = async (isRefinement = false) => {
+    const handleSimplify = async () => {
+        if (!inputText.trim()) {
+            setError('Please enter some text to simplify.');
+            return;
+        }
+        if (!ensureAIConfigured()) return;
+        await reviewOrSimplify(inputText, null);
+    };
+
+    /**
+     * Simplifies text from the text area or a document, first showing the personal details found
+     * in it so the user can choose which ones are masked before anything leaves the browser.
+     */
+    const reviewOrSimplify = async (text: string, filename: string | null) => {
+        if (findRedactions(text).length > 0) {
+            setPendingRedaction({ text, filename });
+            return;
+        }
+        setSourceFilename(filename);
+        await simplifySource(text, false, { filename: filename ?? undefined, redactions: { masked: {}, kept: {} } });
+    };
+
+    const handleConfirmRedaction = (redactedText: string, redactions: RedactionSummary) => {
+        const filename = pendingRedaction?.filename ?? null;
+        setPendingRedaction(null);
+        setSourceFilename(filename);
+        simplifySource(redactedText, false, { filename: filename ?? undefined, redactions });
+    };
+
+    const handleExpand = async (isRefinement = false, bypassCache = false) => {
         if (!topic.trim()) {
             setError('Please enter a topic to expand.');
             return;
         }
+        if (!ensureAIConfigured()) return;
+        const signal = beginRequest();
+        const previousContent = expandedContent;
+        const previousScreenState = screenState;
         setIsLoading(true);
         setLoadingMessage('Generating your professor-level teaching pack... This may take a minute.');
         setError(null);
+        setCachedAt(null);
+        setImageProgress(null);
         try {
-            const content = await generateExpandedContent(topic, isRefinement);
+            const content = await generateExpandedContent(topic, isRefinement, {
+                signal,
+                bypassCache,
+                onCacheHit: setCachedAt,
+                // Show the pack as soon as the first section starts streaming in
+                onProgress: partialContent => {
+                    if (signal.aborted) return;
+                    setExpandedContent(partialContent);
+                    setScreenState('expanded');
+                    setIsLoading(false);
+                    setIsStreaming(true);
+                },
+                onImageProgress: progress => {
+                    if (!signal.aborted) setImageProgress(progress);
+                },
+            });
             setExpandedContent(content);
             setScreenState('expanded');
         } catch (err) {
-            setError('Failed to expand the topic. The AI service might be busy, or the topic could be too ambiguous. Please try rephrasing or try again later.');
+            // Don't leave a half-written pack on screen after a failure or cancellation
+            setExpandedContent(previousContent);
+            setScreenState(previousScreenState);
+            showAIError(err, () => handleExpand(isRefinement, bypassCache));
         } finally {
             setIsLoading(false);
+            setIsStreaming(false);
+            setImageProgress(null);
         }
     };
 
     const handleGenerateTest = async () => {
-        if (!expandedContent || !topic) return;
+        if (!expandedContent || !topic || !ensureAIConfigured()) return;
+        const signal = beginRequest();
         setIsLoading(true);
         setLoadingMessage('Generating your test...');
         setError(null);
         try {
-            const questions = await generateComprehensionTest(topic, expandedContent);
+            const questions = await generateComprehensionTest(topic, expandedContent, { signal });
             setComprehensionTest(questions);
             setTestAnswers(new Array(questions.length).fill(''));
             setScreenState('test');
         } catch (err) {
-            setError('Failed to generate the test. This can happen with very complex or niche topics. Please try again.');
+            showAIError(err, handleGenerateTest);
         } finally {
             setIsLoading(false);
         }
@@ -278,11 +497,12 @@ const NeuroLearnScreen: React.FC<NeuroLearnScreenProps> = ({ onLogActivity, onBa
             setError("Please answer all questions before submitting.");
             return;
         }
+        const signal = beginRequest();
         setIsLoading(true);
         setLoadingMessage('Evaluating your answers...');
         setError(null);
         try {
-            const result = await evaluateComprehensionTest(comprehensionTest, testAnswers);
+            const result = await evaluateComprehensionTest(comprehensionTest, testAnswers, { signal });
             setTestResult(result);
             setScreenState('result');
             onLogActivity({
@@ -290,7 +510,7 @@ const NeuroLearnScreen: React.FC<NeuroLearnScreenProps> = ({ onLogActivity, onBa
                 outcome: `Test on "${topic}". Level: ${result.understandingLevel}`
             });
         } catch (err) {
-            setError('Failed to evaluate your answers. There might be a connection issue. Please try submitting again.');
+            showAIError(err, handleSubmitTest);
         } finally {
             setIsLoading(false);
         }
@@ -304,6 +524,7 @@ const NeuroLearnScreen: React.FC<NeuroLearnScreenProps> = ({ onLogActivity, onBa
     
     const resetToInput = () => {
         setScreenState('input');
+        setLibrarySaveMessage(null);
         setInputText('');
         setTopic('');
         setSimplifiedContent(null);
@@ -312,6 +533,7 @@ const NeuroLearnScreen: React.FC<NeuroLearnScreenProps> = ({ onLogActivity, onBa
         setTestResult(null);
         setError(null);
         setSourceFilename(null);
+        setPendingRedaction(null);
         setSuggestedLevel(null);
         setTranslatedContent(null);
     }
@@ -386,73 +608,93 @@ const NeuroLearnScreen: React.FC<NeuroLearnScreenProps> = ({ onLogActivity, onBa
         </div>
     );
 
-    const handleSpeak = useCallback((contentRef: React.RefObject<HTMLDivElement>, lang?: string) => {
-        if (isSpeaking) {
-            window.speechSynthesis.cancel();
-            setIsSpeaking(false);
-            // If the user clicks the same button again, it just stops.
-            // If they click a different button, it will stop and then start the new one below.
-            return;
-        }
-
-        if (!contentRef.current) return;
-        
-        const textToSpeak = contentRef.current.innerText;
+    const readAloudSources: Record<ReadAloudTarget, { ref: React.RefObject<HTMLDivElement | null>; lang?: string }> = {
+        english: { ref: englishContentRef },
+        translation: { ref: translatedContentRef, lang: languageMap[targetLanguage] },
+        expanded: { ref: expandedContentRef },
+    };
 
-        const utterance = new SpeechSynthesisUtterance(textToSpeak);
-        
-        let targetVoice: SpeechSynthesisVoice | undefined;
+    /** Starts reading content aloud, from the beginning or from the word at a clicked point. */
+    const startReadAloud = (target: ReadAloudTarget, from?: { x: number; y: number }) => {
+        const { ref, lang } = readAloudSources[target];
+        if (!ref.current) return;
+        readAlongRef.current ??= createReadAlong(status => {
+            setReadAlongStatus(status);
+            if (status === 'idle') setReadingTarget(null);
+        });
+        readAlongRef.current.start(ref.current, { voice: findVoice(voices, lang), lang: lang ?? 'en-US' }, from);
+        setReadingTarget(target);
+    };
 
-        if (lang) {
-            // Try to find a voice that matches the language code exactly or the language part.
-            targetVoice = voices.find(voice => voice.lang === lang) || voices.find(voice => voice.lang.startsWith(lang.split('-')[0]));
+    const handleReadAloud = (target: ReadAloudTarget) => {
+        if (readingTarget === target) {
+            readAlongRef.current?.stop();
         } else {
-             // Default to a female English voice if no language is specified.
-            targetVoice = voices.find(voice => voice.lang.startsWith('en') && voice.name.toLowerCase().includes('female')) ||
-                          voices.find(voice => voice.lang.startsWith('en') && (voice.name.includes('Google') || voice.name.includes('Samantha') || voice.name.includes('Zira'))) ||
-                          voices.find(voice => voice.lang.startsWith('en'));
+            startReadAloud(target);
         }
+    };
 
-        if (targetVoice) {
-            utterance.voice = targetVoice;
-        }
-        
-        utterance.onend = () => setIsSpeaking(false);
-        utterance.onerror = (e) => {
-            if (e.error !== 'interrupted') {
-                console.error("Speech synthesis error:", e.error);
-            }
-            setIsSpeaking(false);
-        };
+    const handlePauseReadAloud = () => {
+        if (readAlongStatus === 'paused') readAlongRef.current?.resume();
+        else readAlongRef.current?.pause();
+    };
 
-        window.speechSynthesis.speak(utterance);
-        setIsSpeaking(true);
-    }, [isSpeaking, voices]);
+    /** While reading aloud, clicking a word carries on reading from there. */
+    const handleReadAlongClick = (event: React.MouseEvent<HTMLElement>) => {
+        const clicked = event.target as HTMLElement;
+        if (!readingTarget || clicked.closest('a, button, summary') || !window.getSelection()?.isCollapsed) return;
+        const target = (Object.keys(readAloudSources) as ReadAloudTarget[]).find(id => readAloudSources[id].ref.current?.contains(clicked));
+        if (target) startReadAloud(target, { x: event.clientX, y: event.clientY });
+    };
+
+    const renderReadAloudControls = (target: ReadAloudTarget, label: string) => readingTarget === target ? (
+        <div className="flex items-center gap-2 flex-shrink-0">
+            <button onClick={handlePauseReadAloud} className="bg-pink-100 text-pink-700 font-bold py-2 px-4 rounded-xl transition hover:bg-pink-200">
+                {readAlongStatus === 'paused' ? '▶️ Resume' : '⏸️ Pause'}
+            </button>
+            <button onClick={() => handleReadAloud(target)} className="bg-pink-100 text-pink-700 font-bold py-2 px-4 rounded-xl transition hover:bg-pink-200">
+                ⏹️ Stop
+            </button>
+        </div>
+    ) : (
+        <button onClick={() => handleReadAloud(target)} className="bg-pink-100 text-pink-700 font-bold py-2 px-4 rounded-xl transition hover:bg-pink-200 flex-shrink-0">
+            {label}
+        </button>
+    );
     
+    /** The simplification on screen: the selected section of a long document, or the whole document. */
+    const displayedSimplification = (activeSectionIndex !== null && simplifiedContent?.sections?.[activeSectionIndex]) || simplifiedContent;
+
+    const handleSelectSection = (index: number | null) => {
+        setActiveSectionIndex(index);
+        setTranslatedContent(null);
+    };
+
     const handleTranslate = async () => {
-        if (!simplifiedContent) return;
-        const activeContent = simplifiedContent[activeSimplifiedTab];
-        if (!activeContent) return;
+        if (!displayedSimplification) return;
+        const activeContent = displayedSimplification[activeSimplifiedTab];
+        if (!activeContent || !ensureAIConfigured()) return;
 
+        const signal = beginRequest();
         setIsTranslating(true);
         setError(null);
         try {
-            const translation = await translateContent(activeContent, targetLanguage);
+            const translation = await translateContent(activeContent, targetLanguage, { signal });
             setTranslatedContent(translation);
-        } catch (err: any) {
-            setError(err.message || 'Translation failed.');
+        } catch (err) {
+            showAIError(err, handleTranslate);
         } finally {
             setIsTranslating(false);
         }
     };
 
     const renderSimplifiedContent = () => {
-        if (!simplifiedContent) return null;
+        if (!simplifiedContent || !displayedSimplification) return null;
 
         const tabs: { id: SimplifiedTab; label: string; emoji: string; content: ContentLevel }[] = [
-            { id: 'beginner', label: 'Beginner', emoji: '🟢', content: simplifiedContent.beginner },
-            { id: 'intermediate', label: 'Intermediate', emoji: '🟠', content: simplifiedContent.intermediate },
-            { id: 'advancedSimplified', label: 'Advanced', emoji: '🔵', content: simplifiedContent.advancedSimplified },
+            { id: 'beginner', label: 'Beginner', emoji: '🟢', content: displayedSimplification.beginner },
+            { id: 'intermediate', label: 'Intermediate', emoji: '🟠', content: displayedSimplification.intermediate },
+            { id: 'advancedSimplified', label: 'Advanced', emoji: '🔵', content: displayedSimplification.advancedSimplified },
         ];
 
         const activeTabContent = tabs.find(tab => tab.id === activeSimplifiedTab)?.content;
@@ -507,11 +749,38 @@ const NeuroLearnScreen: React.FC<NeuroLearnScreenProps> = ({ onLogActivity, onBa
         return (
             <div className="w-full">
                 <h2 className="text-3xl font-bold text-pink-600 mb-4">Simplify Text (3 Levels)</h2>
+                {cachedAt && lastSimplifySourceRef.current && (
+                    <CachedResultBadge cachedAt={cachedAt} onRegenerate={() => simplifySource(lastSimplifySourceRef.current!, true)} />
+                )}
                  {suggestedLevel && (
                     <div className="bg-yellow-50 border border-yellow-200 p-3 rounded-xl text-sm text-yellow-800 mb-4 shadow-sm animate-fade-in">
                         <p>✨ Based on the content's complexity, we suggest starting with the <strong>{suggestedLevel.replace('Simplified', ' Simplified')}</strong> level.</p>
                     </div>
                 )}
+                {simplifiedContent.sections && (
+                    <div className="mb-4">
+                        <p className="text-sm font-semibold text-gray-600 mb-2">This document was simplified in {simplifiedContent.sections.length} sections. Pick one to see it in more detail:</p>
+                        <div className="flex flex-wrap gap-2">
+                            {[null, ...simplifiedContent.sections.map((_, i) => i)].map(index => (
+                                <button
+                                    key={index ?? 'whole'}
+                                    onClick={() => handleSelectSection(index)}
+                                    className={`text-sm font-semibold py-1.5 px-3 rounded-full border transition-colors ${
+                                        activeSectionIndex === index
+                                            ? 'bg-pink-500 border-pink-500 text-white'
+                                            : 'bg-white border-pink-200 text-pink-700 hover:bg-pink-50'
+                                    }`}
+                                >
+                                    {index === null ? 'Whole document' : `${index + 1}. ${simplifiedContent.sections![index].title}`}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+                <ReadabilityPanel
+                    inputText={typeof lastSimplifySourceRef.current === 'string' ? lastSimplifySourceRef.current : null}
+                    content={displayedSimplification}
+                />
                 <div className="border-b border-pink-200 mb-4">
                     <nav className="-mb-px flex space-x-6">
                         {tabs.map(tab => (
@@ -530,26 +799,45 @@ const NeuroLearnScreen: React.FC<NeuroLearnScreenProps> = ({ onLogActivity, onBa
                     </nav>
                 </div>
 
-                <div className="bg-white p-6 rounded-3xl shadow-inner border border-pink-200 min-h-[300px] prose max-w-none">
-                    {activeTabContent && (
-                        <div className={translatedContent ? "grid md:grid-cols-2 gap-x-8" : ""}>
-                            <div ref={englishContentRef}>
-                                {translatedContent && <h3 className="!text-xl !font-bold !text-gray-600 text-center !mt-0 !mb-4 pb-2 border-b">English</h3>}
+                <div onClick={handleReadAlongClick} className="bg-white p-6 rounded-3xl shadow-inner border border-pink-200 min-h-[300px] prose max-w-none">
+                    {activeTabContent && (translatedContent && translationLayout === 'bilingual' ? (
+                        <BilingualView
+                            english={activeTabContent}
+                            translation={translatedContent}
+                            language={targetLanguage}
+                            lang={languageMap[targetLanguage]}
+                            englishRef={englishContentRef}
+                            translationRef={translatedContentRef}
+                        />
+                    ) : (
+                        <>
+                            {/* The English stays in the page when hidden, so it can still be read aloud */}
+                            <div ref={englishContentRef} className={translatedContent ? 'hidden' : ''}>
                                 {renderContentLevel(activeTabContent)}
                             </div>
                             {translatedContent && (
-                                <div ref={translatedContentRef} className="border-t md:border-t-0 md:border-l border-gray-200 pt-4 md:pt-0 md:pl-8 mt-4 md:mt-0">
+                                <div ref={translatedContentRef} lang={languageMap[targetLanguage]}>
                                     <h3 className="!text-xl !font-bold !text-gray-600 text-center !mt-0 !mb-4 pb-2 border-b">{targetLanguage}</h3>
                                     {renderContentLevel(translatedContent)}
                                 </div>
                             )}
-                        </div>
-                    )}
+                        </>
+                    ))}
                 </div>
                 <div className="mt-4 flex flex-col sm:flex-row justify-between items-center gap-4">
-                    <button onClick={resetToInput} className="bg-pink-500 text-white font-bold py-2 px-6 rounded-xl transition-all shadow-md hover:bg-pink-600 hover:shadow-lg hover-sparkle">
-                        Start Over
-                    </button>
+                    <div className="flex items-center gap-2">
+                        <button onClick={resetToInput} className="bg-pink-500 text-white font-bold py-2 px-6 rounded-xl transition-all shadow-md hover:bg-pink-600 hover:shadow-lg hover-sparkle">
+                            Start Over
+                        </button>
+                        <button onClick={handleSaveToLibrary} className="bg-white text-pink-600 font-bold py-1.5 px-4 rounded-xl border-2 border-pink-500 transition hover:bg-pink-50">
+                            Save in Library
+                        </button>
+                        {activeTabContent && (
+                            <button onClick={() => handleExportSimplified(tabs.find(tab => tab.id === activeSimplifiedTab)!.label, activeTabContent)} className="bg-white text-pink-600 font-bold py-1.5 px-4 rounded-xl border-2 border-pink-500 transition hover:bg-pink-50">
+                                Export
+                            </button>
+                        )}
+                    </div>
                     <div className="flex items-center gap-2 flex-wrap justify-end">
                          {/* Translation Controls */}
                         <select
@@ -562,62 +850,31 @@ const NeuroLearnScreen: React.FC<NeuroLearnScreenProps> = ({ onLogActivity, onBa
                         <button onClick={handleTranslate} disabled={isTranslating} className="bg-pink-100 text-pink-700 font-bold py-2 px-4 rounded-xl transition hover:bg-pink-200 disabled:bg-pink-50 disabled:text-pink-400">
                             {isTranslating ? 'Translating...' : 'Translate'}
                         </button>
-                        {/* Speech Controls */}
-                         <button onClick={() => handleSpeak(englishContentRef)} className="bg-pink-100 text-pink-700 font-bold py-2 px-4 rounded-xl transition hover:bg-pink-200 flex-shrink-0">
-                            {isSpeaking ? '⏹️ Stop' : '🔊 Read English'}
-                        </button>
                         {translatedContent && (
-                            <button onClick={() => handleSpeak(translatedContentRef, languageMap[targetLanguage])} className="bg-pink-100 text-pink-700 font-bold py-2 px-4 rounded-xl transition hover:bg-pink-200 flex-shrink-0">
-                                {isSpeaking ? '⏹️ Stop' : `🔊 Read ${targetLanguage}`}
-                            </button>
+                            <div className="flex rounded-xl border border-pink-300 overflow-hidden" role="group" aria-label="Translation layout">
+                                {([['bilingual', 'Side by side'], ['single', `${targetLanguage} only`]] as const).map(([layout, label]) => (
+                                    <button
+                                        key={layout}
+                                        onClick={() => setTranslationLayout(layout)}
+                                        aria-pressed={translationLayout === layout}
+                                        className={`py-2 px-3 text-sm font-semibold transition-colors ${translationLayout === layout ? 'bg-pink-500 text-white' : 'bg-white text-pink-700 hover:bg-pink-50'}`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
                         )}
+                        {/* Speech Controls */}
+                        {renderReadAloudControls('english', '🔊 Read English')}
+                        {translatedContent && renderReadAloudControls('translation', `🔊 Read ${targetLanguage}`)}
                     </div>
                 </div>
+                {readingTarget && <p className="mt-2 text-right text-gray-500 text-sm">Click any word to read from there.</p>}
+                {librarySaveMessage && <p className="mt-2 text-right text-green-600 text-sm">{librarySaveMessage}</p>}
             </div>
         );
     };
     
-    const handleToggleSpeech = useCallback(() => {
-        if (isSpeaking) {
-            window.speechSynthesis.cancel();
-            setIsSpeaking(false);
-        } else {
-            if (!expandedContent) return;
-            const textToSpeak = [
-                `Title: ${topic}`,
-                `Definition and Introduction. ${expandedContent.definitionAndIntroduction}`,
-                `Purpose or Importance. ${expandedContent.purposeOrImportance}`,
-                `Detailed Workflow or Architecture. ${expandedContent.detailedWorkflowOrArchitecture}`,
-                `Step by step Explanation. ${expandedContent.stepByStepExplanation}`,
-                `Merits. ${expandedContent.merits.join('. ')}`,
-                `Demerits. ${expandedContent.demerits.join('. ')}`,
-                `Summary. ${expandedContent.summaryOrKeyTakeaways}`,
-            ].join('\n\n');
-
-            const utterance = new SpeechSynthesisUtterance(textToSpeak);
-            const femaleVoice = voices.find(voice => voice.lang.startsWith('en') && voice.name.toLowerCase().includes('female')) ||
-                                voices.find(voice => voice.lang.startsWith('en') && (voice.name.includes('Google') || voice.name.includes('Samantha') || voice.name.includes('Zira'))) ||
-                                voices.find(voice => voice.lang.startsWith('en'));
-
-            if (femaleVoice) {
-                utterance.voice = femaleVoice;
-            }
-            
-            utterance.onend = () => setIsSpeaking(false);
-            utterance.onerror = (e) => {
-                // The 'interrupted' error is expected when we manually cancel speech (e.g., by clicking the button again).
-                // We don't need to log this as a critical error.
-                if (e.error !== 'interrupted') {
-                    console.error("Speech synthesis error:", e.error);
-                }
-                setIsSpeaking(false);
-            };
-
-            window.speechSynthesis.speak(utterance);
-            setIsSpeaking(true);
-        }
-    }, [isSpeaking, expandedContent, topic, voices]);
-
     const handleDownload = () => {
         if (!expandedContent || !topic) return;
         const textContent = [
@@ -626,6 +883,10 @@ const NeuroLearnScreen: React.FC<NeuroLearnScreenProps> = ({ onLogActivity, onBa
             `## Purpose / Importance\n${expandedContent.purposeOrImportance}\n\n`,
             `## Detailed Workflow or Architecture\n${expandedContent.detailedWorkflowOrArchitecture}\n\n`,
             `## Step-by-step Explanation\n${expandedContent.stepByStepExplanation}\n\n`,
+            // Mermaid blocks render as diagrams in GitHub, Obsidian and most Markdown editors
+            ...(expandedContent.diagrams?.length
+                ? [`## Diagrams\n${expandedContent.diagrams.map(d => `### ${d.title}\n${d.description}\n\n\`\`\`mermaid\n${d.source}\n\`\`\``).join('\n\n')}\n\n`]
+                : []),
             `## Real-life and industry Examples\n${expandedContent.realLifeAndIndustryExamples.map(e => `- ${e.example}: ${e.explanation}`).join('\n')}\n\n`,
             `## Applications & Use Cases\n${expandedContent.applicationsAndUseCases.map(a => `- ${a}`).join('\n')}\n\n`,
             `## Merits\n${expandedContent.merits.map(m => `- ${m}`).join('\n')}\n\n`,
@@ -644,60 +905,161 @@ const NeuroLearnScreen: React.FC<NeuroLearnScreenProps> = ({ onLogActivity, onBa
         URL.revokeObjectURL(url);
     };
 
-    const handleSaveToLibrary = () => {
-        alert('This feature will be available in a future update!');
-        console.log('"Save to Library" clicked. This feature is pending implementation.');
+    const handleSaveToLibrary = async () => {
+        setLibrarySaveMessage(null);
+        try {
+            setLibrarySaveSubjects(librarySubjects(await listLibraryItems()));
+        } catch (err) {
+            console.error("Failed to load library subjects:", err);
+            setLibrarySaveSubjects([]);
+        }
+    };
+
+    /** A title for simplified content: the source file, or the start of the summary. */
+    const simplificationTitle = (): string => {
+        if (sourceFilename) return sourceFilename.replace(/\.[^.]+$/, '');
+        const summary = simplifiedContent?.beginner.summary ?? '';
+        return summary.length > 60 ? `${summary.slice(0, 60).trim()}…` : summary;
+    };
+
+    /** A title for saved or exported content: the topic of a teaching pack, or the simplification's title. */
+    const contentTitle = (): string => screenState === 'expanded' ? topic : simplificationTitle();
+
+    const handleConfirmSaveToLibrary = async (details: LibraryItemDetails) => {
+        if (screenState === 'expanded' && expandedContent) {
+            await saveLibraryItem({ ...details, kind: 'expanded', topic, content: expandedContent });
+        } else if (simplifiedContent) {
+            await saveLibraryItem({
+                ...details,
+                kind: 'simplified',
+                content: simplifiedContent,
+                sourceFilename: sourceFilename ?? undefined,
+                translation: translatedContent ? {
+                    language: targetLanguage,
+                    level: activeSimplifiedTab,
+                    sectionIndex: activeSectionIndex ?? undefined,
+                    content: translatedContent,
+                } : undefined,
+            });
+        }
+        setLibrarySaveSubjects(null);
+        setLibrarySaveMessage(`Saved to your library as "${details.title}".`);
+    };
+
+    const handleExportSimplified = (levelLabel: string, content: ContentLevel) => {
+        setExportSource({
+            kind: 'simplified',
+            title: contentTitle(),
+            levelLabel,
+            content,
+            sourceFilename: sourceFilename ?? undefined,
+            translation: translatedContent
+                ? { language: targetLanguage, lang: languageMap[targetLanguage], content: translatedContent }
+                : undefined,
+        });
     };
     
-    const handleRetryImage = useCallback(async (index: number) => {
-        if (!expandedContent) return;
-    
-        const imageToRetry = expandedContent.images[index];
-        // Indicate loading state for this specific image if desired
-        // For example, by setting its URL to a spinner GIF
-    
+    /** Asks the AI to redraw a diagram whose source Mermaid couldn't draw. */
+    const handleRegenerateDiagram = async (index: number, drawError: string) => {
+        const diagram = expandedContent?.diagrams?.[index];
+        if (!diagram || !ensureAIConfigured()) return;
+        diagramControllerRef.current?.abort();
+        diagramControllerRef.current = new AbortController();
+        const { signal } = diagramControllerRef.current;
+        setRegeneratingDiagram(index);
         try {
-            const newImageData = await findHighQualityWebImage(imageToRetry.prompt);
-            
+            const redrawn = await generateDiagram(topic, diagram, drawError, { signal });
             setExpandedContent(prev => {
-                if (!prev) return null;
-                const newImages = [...prev.images];
-                newImages[index] = {
-                    ...newImages[index], // Keep original caption, explanation, etc.
-                    url: newImageData.url,
-                    source: newImageData.source,
-                };
-                return { ...prev, images: newImages };
+                if (!prev?.diagrams) return prev;
+                const newDiagrams = [...prev.diagrams];
+                newDiagrams[index] = redrawn;
+                return { ...prev, diagrams: newDiagrams };
             });
-        } catch (error) {
-            console.error("Failed to retry fetching image:", error);
-            alert("Sorry, we couldn't find a better image right now. Please try again later.");
+        } catch (err) {
+            showAIError(err, () => handleRegenerateDiagram(index, drawError));
+        } finally {
+            setRegeneratingDiagram(null);
         }
-    }, [expandedContent]);
+    };
+
+    /** Swaps an image for the next offline illustration or diagram, cycling through the options. */
+    const handleRetryImage = useCallback((index: number) => {
+        setExpandedContent(prev => {
+            if (!prev) return null;
+            const newImages = [...prev.images];
+            const { url, source } = nextFallbackImage(newImages[index], newImages[index].url);
+            newImages[index] = { ...newImages[index], url, source, status: 'fallback' };
+            return { ...prev, images: newImages };
+        });
+    }, []);
+
+    /** Marks an image as failed when its URL doesn't load, e.g. a saved web image that no longer exists. */
+    const handleImageLoadError = (index: number) => {
+        setExpandedContent(prev => {
+            if (!prev) return null;
+            const newImages = [...prev.images];
+            newImages[index] = { ...newImages[index], url: '', status: 'failed' };
+            return { ...prev, images: newImages };
+        });
+    };
 
     const renderExpandedContent = () => {
         if (!expandedContent) return null;
+
+        const renderSectionText = (text: string) => text
+            ? <ReactMarkdown>{text}</ReactMarkdown>
+            : isStreaming && <p className="text-gray-400 italic animate-pulse">Writing this section...</p>;
+        const imagesReady = expandedContent.images.filter(img => imageStatusOf(img) !== 'pending').length;
+        // Images are generated once the text is written, so by then the diagram source is complete
+        const renderDiagrams = (kind: DiagramKind) => (expandedContent.diagrams ?? []).map((diagram, i) => diagram.kind === kind && (
+            <MermaidDiagram
+                key={i}
+                diagram={diagram}
+                isWriting={isStreaming && !imageProgress}
+                isRegenerating={regeneratingDiagram === i}
+                // The finished pack replaces the diagrams, which would drop a redraw made meanwhile
+                canRegenerate={!isStreaming && regeneratingDiagram === null}
+                onRegenerate={(drawError) => handleRegenerateDiagram(i, drawError)}
+            />
+        ));
         
         return (
             <div className="w-full">
                 <h2 className="text-4xl font-bold text-pink-600 mb-6 text-center">Teaching Pack: <span className="text-pink-500">{topic}</span></h2>
+                {cachedAt && <CachedResultBadge cachedAt={cachedAt} onRegenerate={() => handleExpand(false, true)} />}
+
+                {isStreaming && (
+                    <div className="mb-4 flex flex-col sm:flex-row items-center justify-between gap-3 bg-pink-50 border border-pink-200 p-3 rounded-2xl text-pink-700 animate-fade-in">
+                        <p className="font-semibold">
+                            {imageProgress
+                                ? `Generating image ${Math.min(imageProgress.completed + 1, imageProgress.total)} of ${imageProgress.total}... (${imagesReady} ready)`
+                                : 'Writing your teaching pack... sections appear as they are ready.'}
+                        </p>
+                        <button onClick={handleCancel} className="bg-white border-2 border-pink-300 text-pink-600 font-bold py-1 px-4 rounded-xl transition-all hover:bg-pink-100">
+                            Cancel
+                        </button>
+                    </div>
+                )}
                 
-                 <div className="bg-white p-8 rounded-3xl shadow-inner border border-pink-200 max-h-[65vh] overflow-y-auto prose max-w-none">
+                 <div ref={expandedContentRef} onClick={handleReadAlongClick} className="bg-white p-8 rounded-3xl shadow-inner border border-pink-200 max-h-[65vh] overflow-y-auto prose max-w-none">
                     <section>
                         <h3 className="!text-2xl !font-bold !text-pink-600">Definition & Introduction</h3>
-                        <ReactMarkdown>{expandedContent.definitionAndIntroduction}</ReactMarkdown>
+                        {renderSectionText(expandedContent.definitionAndIntroduction)}
+                        {renderDiagrams('mindmap')}
                     </section>
                     <section>
                         <h3 className="!text-2xl !font-bold !text-pink-600">Purpose / Importance</h3>
-                        <ReactMarkdown>{expandedContent.purposeOrImportance}</ReactMarkdown>
+                        {renderSectionText(expandedContent.purposeOrImportance)}
                     </section>
                     <section>
                         <h3 className="!text-2xl !font-bold !text-gray-800">Detailed Workflow or Architecture</h3>
-                        <ReactMarkdown>{expandedContent.detailedWorkflowOrArchitecture}</ReactMarkdown>
+                        {renderSectionText(expandedContent.detailedWorkflowOrArchitecture)}
+                        {renderDiagrams('flowchart')}
                     </section>
                     <section>
                         <h3 className="!text-2xl !font-bold !text-gray-800">Step-by-step Explanation</h3>
-                        <ReactMarkdown>{expandedContent.stepByStepExplanation}</ReactMarkdown>
+                        {renderSectionText(expandedContent.stepByStepExplanation)}
+                        {renderDiagrams('sequence')}
                     </section>
                     <section>
                         <h3 className="!text-2xl !font-bold !text-gray-800">Real-life and Industry Examples</h3>
@@ -719,24 +1081,44 @@ const NeuroLearnScreen: React.FC<NeuroLearnScreenProps> = ({ onLogActivity, onBa
                             </div>
                         </div>
                     </section>
-                     <section>
+                     <section data-read-along="skip">
                         <h3 className="!text-2xl !font-bold !text-gray-800">Images</h3>
                         <div className="space-y-6">
-                             {expandedContent.images.map((img, i) => (
+                             {expandedContent.images.map((img, i) => {
+                                 const status = imageStatusOf(img);
+                                 return (
                                  <div key={i} className="border p-4 rounded-lg bg-gray-50 not-prose">
-                                     {img.source && img.source.startsWith('Placeholder') ? (
+                                     {status === 'pending' ? (
+                                        <div className="w-full h-72 rounded-md mb-2 bg-pink-50 flex flex-col justify-center items-center text-center p-4 border border-dashed border-pink-300">
+                                            {isStreaming && <Spinner color="pink" />}
+                                            <p className="mt-3 text-sm text-pink-600">{isStreaming ? 'Waiting to generate this image...' : 'Image not generated.'}</p>
+                                        </div>
+                                     ) : status === 'failed' ? (
                                         <div className="w-full h-72 rounded-md mb-2 bg-gray-200 flex flex-col justify-center items-center text-center p-4 border border-dashed border-gray-400">
-                                            <p className="font-semibold text-red-600">Could not find a suitable image.</p>
-                                            <p className="text-sm text-gray-500 mb-4">The automatic web search failed. Please try again.</p>
+                                            <p className="font-semibold text-red-600">This image could not be shown.</p>
+                                            <p className="text-sm text-gray-500 mb-4">Use an illustration made from its caption instead. It works offline.</p>
                                             <button 
                                                 onClick={() => handleRetryImage(i)}
                                                 className="bg-pink-500 text-white font-bold py-2 px-4 rounded-xl transition hover:bg-pink-600"
                                             >
-                                                Retry Search
+                                                Show Illustration
                                             </button>
                                         </div>
                                      ) : (
-                                        <img src={img.url} alt={img.caption} className="w-full h-72 object-cover rounded-md mb-2 shadow-lg"/>
+                                        <div className="relative">
+                                            <img src={img.url} alt={img.caption} onError={() => handleImageLoadError(i)} className="w-full h-72 object-cover rounded-md mb-2 shadow-lg"/>
+                                            <span className={`absolute top-2 left-2 text-xs font-semibold px-2 py-1 rounded-full shadow ${imageStatusStyles[status].className}`}>
+                                                {imageStatusStyles[status].label}
+                                            </span>
+                                            {status === 'fallback' && (
+                                                <button
+                                                    onClick={() => handleRetryImage(i)}
+                                                    className="absolute top-2 right-2 bg-white/90 text-pink-600 text-xs font-bold px-3 py-1 rounded-full shadow hover:bg-white"
+                                                >
+                                                    Try another illustration
+                                                </button>
+                                            )}
+                                        </div>
                                      )}
                                      <p className="font-bold text-gray-800">{img.caption}</p>
                                      <p className="text-sm text-gray-600 mt-1"><strong className="text-gray-700">Explanation:</strong> {img.explanation}</p>
@@ -751,10 +1133,11 @@ const NeuroLearnScreen: React.FC<NeuroLearnScreenProps> = ({ onLogActivity, onBa
                                         </p>
                                     )}
                                  </div>
-                             ))}
+                                 );
+                             })}
                         </div>
                     </section>
-                    <section>
+                    <section data-read-along="skip">
                         <h3 className="!text-2xl !font-bold !text-gray-800">Supported Media</h3>
                         <h4>YouTube Sources</h4>
                         <ul>{expandedContent.youtubeSources.map((s, i) => <li key={i}><a href={s.link} target="_blank" rel="noopener noreferrer">{s.title}</a> - {s.relevance}</li>)}</ul>
@@ -763,23 +1146,23 @@ const NeuroLearnScreen: React.FC<NeuroLearnScreenProps> = ({ onLogActivity, onBa
                     </section>
                      <section>
                         <h3 className="!text-2xl !font-bold !text-gray-800">Summary / Key Takeaways</h3>
-                        <ReactMarkdown>{expandedContent.summaryOrKeyTakeaways}</ReactMarkdown>
+                        {renderSectionText(expandedContent.summaryOrKeyTakeaways)}
                     </section>
-                    <div className="mt-6 text-center not-prose">
-                        <p className="text-gray-600 mb-2">Would you like me to read this aloud?</p>
-                        <button onClick={handleToggleSpeech} className="bg-pink-100 text-pink-700 font-bold py-2 px-6 rounded-xl transition hover:bg-pink-200">
-                           {isSpeaking ? 'Stop Reading' : 'Read Aloud'}
-                        </button>
+                    <div className="mt-6 flex flex-col items-center not-prose" data-read-along="skip">
+                        <p className="text-gray-600 mb-2">{readingTarget === 'expanded' ? 'Click any word to read from there.' : 'Would you like me to read this aloud?'}</p>
+                        {renderReadAloudControls('expanded', 'Read Aloud')}
                     </div>
                  </div>
                  
                  <div className="mt-6 flex flex-col sm:flex-row justify-center items-center gap-4">
-                    <button onClick={handleDownload} className="w-full sm:w-auto bg-white text-pink-600 font-bold py-2 px-6 rounded-xl border-2 border-pink-500 transition hover:bg-pink-50">Download as Notes</button>
-                    <button onClick={handleSaveToLibrary} className="w-full sm:w-auto bg-white text-pink-600 font-bold py-2 px-6 rounded-xl border-2 border-pink-500 transition hover:bg-pink-50">Save in Library</button>
-                    <button onClick={handleGenerateTest} disabled={isLoading} className="w-full sm:w-auto bg-pink-500 text-white font-bold py-3 px-10 text-lg rounded-xl transition-all shadow-md hover:bg-pink-600 hover:shadow-lg disabled:bg-pink-300 hover-sparkle">
+                    <button onClick={handleDownload} disabled={isStreaming} className="w-full sm:w-auto disabled:opacity-50 bg-white text-pink-600 font-bold py-2 px-6 rounded-xl border-2 border-pink-500 transition hover:bg-pink-50">Download as Notes</button>
+                    <button onClick={() => setExportSource({ kind: 'expanded', topic, content: expandedContent })} disabled={isStreaming} className="w-full sm:w-auto disabled:opacity-50 bg-white text-pink-600 font-bold py-2 px-6 rounded-xl border-2 border-pink-500 transition hover:bg-pink-50">Export Handout</button>
+                    <button onClick={handleSaveToLibrary} disabled={isStreaming} className="w-full sm:w-auto disabled:opacity-50 bg-white text-pink-600 font-bold py-2 px-6 rounded-xl border-2 border-pink-500 transition hover:bg-pink-50">Save in Library</button>
+                    <button onClick={handleGenerateTest} disabled={isLoading || isStreaming} className="w-full sm:w-auto bg-pink-500 text-white font-bold py-3 px-10 text-lg rounded-xl transition-all shadow-md hover:bg-pink-600 hover:shadow-lg disabled:bg-pink-300 hover-sparkle">
                         {isLoading ? 'Generating...' : 'Test My Understanding'}
                     </button>
                  </div>
+                 {librarySaveMessage && <p className="mt-2 text-center text-green-600 text-sm">{librarySaveMessage}</p>}
             </div>
         );
     };
@@ -879,11 +1262,30 @@ const NeuroLearnScreen: React.FC<NeuroLearnScreenProps> = ({ onLogActivity, onBa
              return (
                 <div className="text-center">
                     <Spinner color="pink" />
-                    <p className="mt-4 text-gray-600 text-lg">{loadingMessage}</p>
+                    <p className="mt-4 text-gray-600 text-lg">{simplifyProgress ? describeSimplifyProgress(simplifyProgress) : loadingMessage}</p>
+                    {simplifyProgress && simplifyProgress.total > 0 && (
+                        <div className="mt-3 w-64 mx-auto h-2 bg-pink-100 rounded-full overflow-hidden">
+                            <div className="h-full bg-pink-500 transition-all" style={{ width: `${(simplifyProgress.completed / simplifyProgress.total) * 100}%` }} />
+                        </div>
+                    )}
+                    <button onClick={handleCancel} className="mt-4 bg-white border-2 border-pink-300 text-pink-600 font-bold py-2 px-6 rounded-xl transition-all hover:bg-pink-50">
+                        Cancel
+                    </button>
                 </div>
              );
         }
         
+        if (error instanceof AIServiceError) {
+            return (
+                <AIErrorNotice
+                    error={error}
+                    onRetry={retryAction ?? undefined}
+                    onDismiss={() => setError(null)}
+                    onOpenSettings={onOpenSettings}
+                />
+            );
+        }
+
         if (error) {
             return (
                 <div className="text-center text-red-500 bg-red-50 p-4 rounded-lg">
@@ -894,6 +1296,22 @@ const NeuroLearnScreen: React.FC<NeuroLearnScreenProps> = ({ onLogActivity, onBa
             );
         }
 
+        if (pendingRedaction && screenState === 'input') {
+            return (
+                <RedactionPreview
+                    text={pendingRedaction.text}
+                    filename={pendingRedaction.filename}
+                    onConfirm={handleConfirmRedaction}
+                    onCancel={() => setPendingRedaction(null)}
+                />
+            );
+        }
+
+        // The input screen only leads to AI actions; saved content can be read without an API key
+        if (screenState === 'input' && !isAIConfigured()) {
+            return <AINotConfiguredNotice onOpenSettings={onOpenSettings} />;
+        }
+
         switch (screenState) {
             case 'input': return renderInputScreen();
             case 'simplified': return renderSimplifiedContent();
@@ -916,6 +1334,16 @@ const NeuroLearnScreen: React.FC<NeuroLearnScreenProps> = ({ onLogActivity, onBa
             <div className="bg-white/90 backdrop-blur-sm p-8 rounded-3xl shadow-2xl w-full flex justify-center items-center min-h-[500px] border border-white/20">
                 {renderContent()}
             </div>
+            {librarySaveSubjects && (
+                <LibraryItemDialog
+                    heading="Save in Library"
+                    initialDetails={{ title: contentTitle(), subject: '', tags: [] }}
+                    subjects={librarySaveSubjects}
+                    onSave={handleConfirmSaveToLibrary}
+                    onCancel={() => setLibrarySaveSubjects(null)}
+                />
+            )}
+            {exportSource && <ExportDialog source={exportSource} onClose={() => setExportSource(null)} />}
         </div>
     );
 };
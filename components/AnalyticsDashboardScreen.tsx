@@ -5,6 +5,9 @@
 import React, { useEffect, useState, useMemo } from 'react';
 import { Activity } from '../types';
 import { generateAnalyticsInsights } from '../services/geminiService';
+import { isAIConfigured } from '../services/llmProvider';
+import { AIServiceError, AICancelledError } from '../services/aiErrors';
+import { describeAIError } from './AIErrorNotice';
 import Spinner from './Spinner';
 import { ChartIcon, LightbulbIcon } from './icons';
 
@@ -57,6 +60,8 @@ const AnalyticsDashboardScreen: React.FC<AnalyticsDashboardScreenProps> = ({ act
     const [insights, setInsights] = useState<string[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    /** Bumped by the retry button to fetch the insights again. */
+    const [insightsAttempt, setInsightsAttempt] = useState(0);
 
     const stats = useMemo(() => {
         const neuroLearnActivities = activities.filter(a => a.section === 'NeuroLearn');
@@ -116,6 +121,13 @@ const AnalyticsDashboardScreen: React.FC<AnalyticsDashboardScreenProps> = ({ act
             return;
         }
 
+        if (!isAIConfigured()) {
+            setError("AI insights are unavailable until an API key is added in Settings.");
+            setIsLoading(false);
+            return;
+        }
+
+        const abortController = new AbortController();
         const fetchInsights = async () => {
             setIsLoading(true);
             setError(null);
@@ -127,18 +139,20 @@ const AnalyticsDashboardScreen: React.FC<AnalyticsDashboardScreenProps> = ({ act
                     averageQuizScorePercentage: stats.avgQuizScore,
                     cognitiveSkillPracticeCounts: stats.cognitiveSkills,
                 };
-                const result = await generateAnalyticsInsights(summaryForAI);
+                const result = await generateAnalyticsInsights(summaryForAI, { signal: abortController.signal });
                 setInsights(result);
             } catch (err) {
-                setError("Could not load AI-powered insights. Please try again later.");
+                if (err instanceof AICancelledError) return;
+                setError(err instanceof AIServiceError ? describeAIError(err) : "Could not load AI-powered insights. Please try again later.");
                 console.error(err);
             } finally {
-                setIsLoading(false);
+                if (!abortController.signal.aborted) setIsLoading(false);
             }
         };
 
         fetchInsights();
-    }, [activities, stats]);
+        return () => abortController.abort();
+    }, [activities, stats, insightsAttempt]);
 
     const radarChartData = {
         labels: Object.keys(stats.cognitiveSkills),
@@ -211,7 +225,12 @@ const AnalyticsDashboardScreen: React.FC<AnalyticsDashboardScreenProps> = ({ act
                                         <Spinner color="pink"/>
                                     </div>
                                 ) : error ? (
-                                     <p className="text-red-500">{error}</p>
+                                    <div>
+                                        <p className="text-red-500">{error}</p>
+                                        {isAIConfigured() && (
+                                            <button onClick={() => setInsightsAttempt(prev => prev + 1)} className="mt-2 text-pink-600 font-semibold">Try again</button>
+                                        )}
+                                    </div>
                                 ) : (
                                     <ul className="space-y-3">
                                         {insights.map((insight, index) => (
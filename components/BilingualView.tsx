@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useLayoutEffect, useMemo, useRef, useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import { ContentLevel } from '../types';
+import { alignContentLevels, markTerms, pairKeyTerms } from '../services/bilingualAlignment';
+
+interface BilingualViewProps {
+    english: ContentLevel;
+    translation: ContentLevel;
+    /** The translation's language name, e.g. "Hindi". */
+    language: string;
+    /** The translation's BCP 47 tag, e.g. "hi-IN", so browsers pick the right fonts and voices. */
+    lang?: string;
+    /** The English and translation columns, for reading them aloud. */
+    englishRef: React.RefObject<HTMLDivElement | null>;
+    translationRef: React.RefObject<HTMLDivElement | null>;
+}
+
+// Each key term gets the same colour in both languages
+const termColors = ['bg-yellow-100', 'bg-cyan-100', 'bg-lime-100', 'bg-purple-100', 'bg-orange-100', 'bg-sky-100', 'bg-rose-100', 'bg-emerald-100'];
+
+/**
+ * English and its translation in two columns, lined up paragraph by paragraph and scrolling
+ * together. Key terms are highlighted in matching colours on both sides.
+ */
+const BilingualView: React.FC<BilingualViewProps> = ({ english, translation, language, lang, englishRef, translationRef }) => {
+    const [activeTerm, setActiveTerm] = useState<number | null>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+    /** The column being scrolled to match the other, so its own scroll event isn't mirrored back. */
+    const syncingRef = useRef<HTMLDivElement | null>(null);
+
+    const segments = useMemo(() => alignContentLevels(english, translation), [english, translation]);
+    const termPairs = useMemo(() => pairKeyTerms(english, translation), [english, translation]);
+
+    // Give each pair of segments the height of the taller one, so paragraphs stay side by side
+    useLayoutEffect(() => {
+        const equalize = () => {
+            for (const { id } of segments) {
+                const pair = [englishRef.current, translationRef.current]
+                    .map(column => column?.querySelector<HTMLElement>(`[data-segment="${id}"]`))
+                    .filter((element): element is HTMLElement => !!element);
+                pair.forEach(element => { element.style.minHeight = ''; });
+                const height = Math.max(...pair.map(element => element.offsetHeight));
+                pair.forEach(element => { element.style.minHeight = `${height}px`; });
+            }
+        };
+        equalize();
+        const observer = new ResizeObserver(equalize);
+        if (containerRef.current) observer.observe(containerRef.current);
+        return () => observer.disconnect();
+    }, [segments, englishRef, translationRef]);
+
+    const mirrorScroll = (from: HTMLDivElement | null, to: HTMLDivElement | null) => {
+        if (!from || !to) return;
+        if (syncingRef.current === from) {
+            syncingRef.current = null;
+            return;
+        }
+        const range = from.scrollHeight - from.clientHeight;
+        const target = range > 0 ? (from.scrollTop / range) * (to.scrollHeight - to.clientHeight) : 0;
+        if (Math.abs(to.scrollTop - target) < 1) return;
+        syncingRef.current = to;
+        to.scrollTop = target;
+    };
+
+    const markdownComponents = (terms: string[]): Components => {
+        const highlight = (children: React.ReactNode) => React.Children.map(children, child => {
+            if (typeof child !== 'string') return child;
+            return markTerms(child, terms).map((run, index) => run.termIndex === undefined ? run.text : (
+                <mark
+                    key={index}
+                    onMouseEnter={() => setActiveTerm(run.termIndex!)}
+                    onMouseLeave={() => setActiveTerm(null)}
+                    className={`${termColors[run.termIndex % termColors.length]} text-inherit rounded px-0.5 ${activeTerm === run.termIndex ? 'ring-2 ring-pink-400' : ''}`}
+                >
+                    {run.text}
+                </mark>
+            ));
+        });
+        return {
+            p: ({ children }) => <p>{highlight(children)}</p>,
+            li: ({ children }) => <li>{highlight(children)}</li>,
+            strong: ({ children }) => <strong>{highlight(children)}</strong>,
+            em: ({ children }) => <em>{highlight(children)}</em>,
+            a: ({ href, children }) => <a href={href} target="_blank" rel="noopener noreferrer" className="!text-blue-600 hover:!underline">{children}</a>,
+        };
+    };
+
+    const renderColumn = (side: 'english' | 'translation') => {
+        const components = markdownComponents(termPairs.map(pair => pair[side]));
+        return segments.map(segment => (
+            <div key={segment.id} data-segment={segment.id}>
+                {segment.heading && <h3 className="!text-xl !font-bold !text-pink-600">{segment.heading}</h3>}
+                {segment[side] && <ReactMarkdown components={components}>{segment[side]}</ReactMarkdown>}
+            </div>
+        ));
+    };
+
+    const columnClassName = "max-h-[60vh] overflow-y-auto pr-2";
+
+    return (
+        <div ref={containerRef}>
+            {termPairs.length > 0 && (
+                <div className="not-prose flex flex-wrap gap-2 mb-4" aria-label="Key terms in both languages">
+                    {termPairs.map((pair, index) => (
+                        <span
+                            key={index}
+                            onMouseEnter={() => setActiveTerm(index)}
+                            onMouseLeave={() => setActiveTerm(null)}
+                            className={`${termColors[index % termColors.length]} text-sm text-gray-700 rounded-full px-3 py-1 ${activeTerm === index ? 'ring-2 ring-pink-400' : ''}`}
+                        >
+                            {pair.english}{pair.translation && <> ↔ <span lang={lang}>{pair.translation}</span></>}
+                        </span>
+                    ))}
+                </div>
+            )}
+            <div className="grid md:grid-cols-2 gap-x-8">
+                <div>
+                    <h3 className="!text-xl !font-bold !text-gray-600 text-center !mt-0 !mb-4 pb-2 border-b">English</h3>
+                    <div ref={englishRef} onScroll={() => mirrorScroll(englishRef.current, translationRef.current)} className={columnClassName}>
+                        {renderColumn('english')}
+                    </div>
+                </div>
+                <div className="border-t md:border-t-0 md:border-l border-gray-200 pt-4 md:pt-0 md:pl-8 mt-4 md:mt-0">
+                    <h3 className="!text-xl !font-bold !text-gray-600 text-center !mt-0 !mb-4 pb-2 border-b">{language}</h3>
+                    <div ref={translationRef} lang={lang} onScroll={() => mirrorScroll(translationRef.current, englishRef.current)} className={columnClassName}>
+                        {renderColumn('translation')}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BilingualView;
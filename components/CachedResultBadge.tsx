@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+
+interface CachedResultBadgeProps {
+    /** When the cached result was originally generated. */
+    cachedAt: number;
+    /** Generates a fresh result, bypassing the cache. */
+    onRegenerate: () => void;
+}
+
+function formatAge(timestamp: number): string {
+    const minutes = Math.round((Date.now() - timestamp) / 60000);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+    const hours = Math.round(minutes / 60);
+    if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+    const days = Math.round(hours / 24);
+    return `${days} day${days === 1 ? '' : 's'} ago`;
+}
+
+/**
+ * Tells the user a result was loaded from the local cache instead of being generated,
+ * and offers to generate a fresh one.
+ */
+const CachedResultBadge: React.FC<CachedResultBadgeProps> = ({ cachedAt, onRegenerate }) => (
+    <div className="mb-4 flex flex-col sm:flex-row items-center justify-between gap-2 bg-cyan-50 border border-cyan-200 px-4 py-2 rounded-2xl text-sm text-cyan-800 animate-fade-in">
+        <p>⚡ Loaded instantly from saved results (generated {formatAge(cachedAt)}).</p>
+        <button onClick={onRegenerate} className="font-semibold text-pink-600 hover:underline">
+            Regenerate
+        </button>
+    </div>
+);
+
+export default CachedResultBadge;
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { operationLabels } from '../services/usageTracker';
+import { getDataAuditLog, clearDataAuditLog, DataAuditEntry } from '../services/dataAuditLog';
+import { piiKindLabels, PiiKind } from '../services/piiRedaction';
+
+interface DataAuditScreenProps {
+    onBack: () => void;
+}
+
+function formatCounts(counts: Partial<Record<PiiKind, number>>): string {
+    const parts = (Object.keys(counts) as PiiKind[]).map(kind => `${counts[kind]} ${piiKindLabels[kind].toLowerCase()}`);
+    return parts.length > 0 ? parts.join(', ') : 'none';
+}
+
+function describeData(entry: DataAuditEntry): string {
+    const { data } = entry;
+    if (data.type === 'file') {
+        return `${data.filename} (${data.mimeType || 'unknown type'}, ${Math.max(1, Math.round(data.bytes / 1024))} KB) sent as a file`;
+    }
+    return `${data.characters.toLocaleString()} characters of text${data.filename ? ` from ${data.filename}` : ''}`;
+}
+
+/**
+ * The log of documents and text uploaded to the AI from this device, with what was masked
+ * before each upload.
+ */
+const DataAuditScreen: React.FC<DataAuditScreenProps> = ({ onBack }) => {
+    const [entries, setEntries] = useState(getDataAuditLog);
+
+    const handleClear = () => {
+        clearDataAuditLog();
+        setEntries([]);
+    };
+
+    return (
+        <div className="w-full max-w-4xl animate-fade-in self-start mt-24">
+            <button onClick={onBack} className="flex items-center text-gray-200 font-semibold hover:text-white mb-4 transition-colors opacity-80 hover:opacity-100">
+                &larr; Back
+            </button>
+            <div className="bg-white/90 backdrop-blur-sm p-8 rounded-3xl shadow-2xl w-full border border-white/20 space-y-6">
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                    <div>
+                        <h1 className="text-4xl font-bold text-pink-500">Data Sent to AI</h1>
+                        <p className="text-gray-600 mt-1">Documents and text uploaded from this device, newest first. The log stays on this device.</p>
+                    </div>
+                    <button onClick={handleClear} disabled={entries.length === 0} className="bg-white border-2 border-pink-300 text-pink-600 font-bold py-1.5 px-4 rounded-xl hover:bg-pink-50 disabled:opacity-50">
+                        Clear Log
+                    </button>
+                </div>
+
+                {entries.length === 0 ? (
+                    <p className="text-gray-500">Nothing has been uploaded from this device yet.</p>
+                ) : (
+                    <ul className="space-y-3">
+                        {entries.map(entry => (
+                            <li key={entry.id} className="bg-pink-50 p-4 rounded-2xl text-sm text-gray-700 space-y-1">
+                                <div className="flex flex-wrap items-center justify-between gap-2">
+                                    <span className="font-semibold">{operationLabels[entry.operation]} · {describeData(entry)}</span>
+                                    <span className="text-gray-500">{new Date(entry.timestamp).toLocaleString()}</span>
+                                </div>
+                                <p className="text-gray-500">
+                                    Sent to {entry.destination}{entry.userName && ` by ${entry.userName}`}
+                                </p>
+                                {entry.redactions ? (
+                                    <p>
+                                        Masked: {formatCounts(entry.redactions.masked)}
+                                        {Object.keys(entry.redactions.kept).length > 0 && (
+                                            <span className="text-yellow-800"> · Left in: {formatCounts(entry.redactions.kept)}</span>
+                                        )}
+                                    </p>
+                                ) : (
+                                    <p className="text-yellow-800">Not checked for personal details.</p>
+                                )}
+                                {entry.data.type === 'text' && (
+                                    <p className="text-gray-500 italic whitespace-pre-wrap break-words">"{entry.data.preview}{entry.data.characters > entry.data.preview.length ? '…' : ''}"</p>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default DataAuditScreen;
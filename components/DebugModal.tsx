@@ -2,16 +2,241 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
+import React, { useState, useEffect } from 'react';
+import {
+    getCallLog,
+    subscribeToCallLog,
+    clearCallLog,
+    exportCallLog,
+    summarizeRequest,
+    AICallRecord,
+    AICallRequest,
+} from '../services/aiCallLog';
+import { formatPromptRef } from '../services/promptRegistry';
+import { formatIssues } from '../services/responseValidator';
+import { replayAICall } from '../services/geminiService';
+import { isProxyEnabled } from '../services/proxyClient';
+
+interface DebugModalProps {
+    onClose: () => void;
+}
+
+/** The keyboard shortcut that opens the inspector, as shown to the user. */
+export const DEBUG_MODAL_SHORTCUT = 'Ctrl+Shift+Y';
+
+/** Whether a keyboard event is the inspector's shortcut. */
+export function isDebugModalShortcut(event: KeyboardEvent): boolean {
+    return event.ctrlKey && event.shiftKey && event.code === 'KeyY';
+}
+
+const statusStyles: Record<AICallRecord['status'], string> = {
+    pending: 'bg-yellow-100 text-yellow-800',
+    success: 'bg-green-100 text-green-800',
+    error: 'bg-red-100 text-red-800',
+};
+
+/** The prompt text of a request, with attached files shown by type and size. */
+function describePrompt(request: AICallRequest): string {
+    const summary = summarizeRequest(request);
+    if ('prompt' in summary) return summary.prompt;
+    const { contents } = summary;
+    return typeof contents === 'string'
+        ? contents
+        : contents.map(part => ('text' in part ? part.text : `[Attached ${part.inlineData.mimeType}: ${part.inlineData.data}]`)).join('\n\n');
+}
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+    <section>
+        <h3 className="text-sm font-bold text-pink-600 uppercase tracking-wide mb-1">{title}</h3>
+        {children}
+    </section>
+);
+
+const Pre: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+    <pre className="whitespace-pre-wrap break-words bg-gray-50 border border-pink-100 rounded-xl p-3 text-xs text-gray-800 max-h-64 overflow-y-auto">{children}</pre>
+);
 
 /**
- * FIX: Provided a minimal component implementation to resolve potential build errors.
- * An empty file that does not export a valid module can cause an 
- * "Unexpected end of input" syntax error when processed by some build tools.
+ * Inspector for the AI calls made in this session: what was sent to which model, how long it took,
+ * what it cost in tokens, what came back and whether it parsed. Calls can be copied, exported or
+ * replayed. Opened with a keyboard shortcut from any screen; meant for developers and teachers
+ * investigating a bad answer.
  */
-const DebugModal: React.FC = () => {
-  // This component is not yet implemented. Returning null to prevent rendering.
-  return null;
+const DebugModal: React.FC<DebugModalProps> = ({ onClose }) => {
+    const [calls, setCalls] = useState<AICallRecord[]>(getCallLog);
+    const [selectedId, setSelectedId] = useState<number | null>(() => getCallLog()[0]?.id ?? null);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    useEffect(() => subscribeToCallLog(setCalls), []);
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const selected = calls.find(call => call.id === selectedId) ?? null;
+
+    const handleCopy = async (call: AICallRecord) => {
+        try {
+            await navigator.clipboard.writeText(JSON.stringify({ ...call, request: summarizeRequest(call.request) }, null, 2));
+            setNotice(`Call #${call.id} copied to the clipboard.`);
+        } catch {
+            setNotice('Copying is not allowed here. Use Export instead.');
+        }
+    };
+
+    const handleExport = () => {
+        const blob = new Blob([exportCallLog()], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `ai-calls-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.json`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    const handleReplay = async (call: AICallRecord) => {
+        setNotice(`Replaying call #${call.id}...`);
+        try {
+            await replayAICall(call);
+            setNotice(`Replay of call #${call.id} finished.`);
+        } catch (error) {
+            setNotice(`Replay of call #${call.id} failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        const replay = getCallLog().find(record => record.replayOf === call.id);
+        if (replay) setSelectedId(replay.id);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+            <div
+                className="bg-white rounded-3xl shadow-2xl w-full max-w-6xl h-[85vh] flex flex-col overflow-hidden animate-fade-in"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-label="AI call inspector"
+            >
+                <div className="flex flex-wrap items-center justify-between gap-2 px-6 py-4 border-b border-pink-100">
+                    <div>
+                        <h2 className="text-2xl font-bold text-pink-500">AI Call Inspector</h2>
+                        <p className="text-sm text-gray-500">
+                            {calls.length} call{calls.length === 1 ? '' : 's'} this session · {DEBUG_MODAL_SHORTCUT} to toggle
+                            {isProxyEnabled() && ' · Calls made through the proxy server run on the server and are not listed.'}
+                        </p>
+                    </div>
+                    <div className="flex gap-2">
+                        <button onClick={handleExport} disabled={calls.length === 0} className="bg-pink-100 text-pink-700 font-bold py-2 px-4 rounded-xl hover:bg-pink-200 disabled:opacity-50">
+                            Export JSON
+                        </button>
+                        <button onClick={clearCallLog} disabled={calls.length === 0} className="bg-white border-2 border-pink-300 text-pink-600 font-bold py-1.5 px-4 rounded-xl hover:bg-pink-50 disabled:opacity-50">
+                            Clear
+                        </button>
+                        <button onClick={onClose} className="bg-pink-500 text-white font-bold py-2 px-4 rounded-xl hover:bg-pink-600">
+                            Close
+                        </button>
+                    </div>
+                </div>
+                {notice && <p className="px-6 py-2 text-sm bg-cyan-50 text-cyan-800 border-b border-cyan-100">{notice}</p>}
+
+                <div className="flex flex-1 min-h-0">
+                    <ul className="w-72 shrink-0 border-r border-pink-100 overflow-y-auto">
+                        {calls.length === 0 && <li className="p-4 text-sm text-gray-500">No AI calls yet in this session.</li>}
+                        {calls.map(call => (
+                            <li key={call.id}>
+                                <button
+                                    onClick={() => setSelectedId(call.id)}
+                                    className={`w-full text-left px-4 py-3 border-b border-pink-50 text-sm ${call.id === selectedId ? 'bg-pink-50' : 'hover:bg-gray-50'}`}
+                                >
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className="font-semibold text-gray-800 truncate">{call.operation}</span>
+                                        <span className={`text-xs px-2 py-0.5 rounded-full ${statusStyles[call.status]}`}>{call.status}</span>
+                                    </div>
+                                    <div className="text-xs text-gray-500 mt-1">
+                                        #{call.id} · {new Date(call.startedAt).toLocaleTimeString()}
+                                        {call.durationMs !== undefined && ` · ${(call.durationMs / 1000).toFixed(1)}s`}
+                                        {call.parse && !call.parse.valid && ' · invalid JSON'}
+                                        {call.replayOf !== undefined && ` · replay of #${call.replayOf}`}
+                                    </div>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+
+                    <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                        {!selected ? (
+                            <p className="text-gray-500">Select a call to see its details.</p>
+                        ) : (
+                            <>
+                                <div className="flex flex-wrap items-start justify-between gap-2">
+                                    <div>
+                                        <h3 className="text-xl font-bold text-gray-800">#{selected.id} {selected.operation}</h3>
+                                        <p className="text-sm text-gray-500">
+                                            {selected.kind === 'image' ? 'Image call' : selected.kind === 'proxy' ? 'Request' : 'Text call'} to {selected.model}
+                                            {'temperature' in selected.request && ` · temperature ${selected.request.temperature ?? 'default'} · max output ${selected.request.maxOutputTokens?.toLocaleString() ?? 'model limit'}`}
+                                        </p>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <button onClick={() => handleCopy(selected)} className="bg-pink-100 text-pink-700 font-bold py-2 px-4 rounded-xl hover:bg-pink-200">
+                                            Copy
+                                        </button>
+                                        <button onClick={() => handleReplay(selected)} disabled={selected.status === 'pending' || selected.kind === 'proxy'} title={selected.kind === 'proxy' ? 'Calls made through the AI proxy server cannot be replayed' : undefined} className="bg-pink-500 text-white font-bold py-2 px-4 rounded-xl hover:bg-pink-600 disabled:bg-pink-300">
+                                            Replay this call
+                                        </button>
+                                    </div>
+                                </div>
+
+                                <dl className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                                    <div><dt className="text-gray-500">Latency</dt><dd className="font-semibold">{selected.durationMs !== undefined ? `${selected.durationMs} ms` : '—'}</dd></div>
+                                    <div><dt className="text-gray-500">Prompt tokens</dt><dd className="font-semibold">{selected.usage?.promptTokens ?? '—'}</dd></div>
+                                    <div><dt className="text-gray-500">Output tokens</dt><dd className="font-semibold">{selected.usage?.outputTokens ?? '—'}</dd></div>
+                                    <div><dt className="text-gray-500">Total tokens</dt><dd className="font-semibold">{selected.usage?.totalTokens ?? '—'}</dd></div>
+                                </dl>
+
+                                {selected.prompts.length > 0 && (
+                                    <Section title="Templates">
+                                        <p className="text-sm font-mono text-gray-700">{selected.prompts.map(formatPromptRef).join(', ')}</p>
+                                    </Section>
+                                )}
+                                {'systemInstruction' in selected.request && selected.request.systemInstruction && (
+                                    <Section title="System instruction">
+                                        <Pre>{selected.request.systemInstruction}</Pre>
+                                    </Section>
+                                )}
+                                <Section title="Prompt">
+                                    <Pre>{describePrompt(selected.request)}</Pre>
+                                </Section>
+                                {selected.status === 'error' && (
+                                    <Section title="Error">
+                                        <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-xl p-3">
+                                            <strong>{selected.errorKind}</strong>: {selected.errorMessage}
+                                        </p>
+                                    </Section>
+                                )}
+                                {selected.responseText !== undefined && (
+                                    <Section title="Raw response">
+                                        <Pre>{selected.responseText || '(empty)'}</Pre>
+                                    </Section>
+                                )}
+                                {selected.parse && (
+                                    <Section title="Parse result">
+                                        {selected.parse.valid ? (
+                                            <p className="text-sm text-green-700">Valid JSON matching the response schema.</p>
+                                        ) : (
+                                            <Pre>{formatIssues(selected.parse.issues)}</Pre>
+                                        )}
+                                    </Section>
+                                )}
+                            </>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
 };
 
 export default DebugModal;
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { exportContent, exportFormats, ExportFormat } from '../services/contentExport';
+import { DEFAULT_EXPORT_LAYOUT, ExportLayout, ExportSource } from '../services/exportDocument';
+
+interface ExportDialogProps {
+    source: ExportSource;
+    onClose: () => void;
+}
+
+/**
+ * Lets the user pick a handout format and layout options, then exports the content.
+ */
+const ExportDialog: React.FC<ExportDialogProps> = ({ source, onClose }) => {
+    const [format, setFormat] = useState<ExportFormat>('pdf');
+    const [layout, setLayout] = useState<ExportLayout>(DEFAULT_EXPORT_LAYOUT);
+    const [isExporting, setIsExporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const hasTranslation = source.kind === 'simplified' && source.translation !== undefined;
+
+    const toggle = (option: keyof ExportLayout) => setLayout(prev => ({ ...prev, [option]: !prev[option] }));
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        setError(null);
+        try {
+            await exportContent(source, format, { ...layout, bilingual: layout.bilingual && hasTranslation });
+            onClose();
+        } catch (err: any) {
+            console.error("Export failed:", err);
+            setError(err.message || 'The handout could not be created. Please try again.');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const layoutOptions: { option: keyof ExportLayout; label: string; hint: string; disabled?: boolean }[] = [
+        { option: 'dyslexiaFont', label: 'Dyslexia-friendly font', hint: 'A clearer font with more space between letters and lines.' },
+        { option: 'largePrint', label: 'Large print', hint: '18pt text for readers with low vision.' },
+        {
+            option: 'bilingual',
+            label: 'Bilingual columns',
+            hint: hasTranslation ? 'English and the translation side by side.' : 'Translate the content first to use this.',
+            disabled: !hasTranslation,
+        },
+    ];
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+            <div onClick={(e) => e.stopPropagation()} className="bg-white rounded-3xl shadow-2xl w-full max-w-lg p-6 space-y-5 animate-fade-in">
+                <h2 className="text-2xl font-bold text-pink-600">Export Handout</h2>
+
+                <fieldset className="space-y-2">
+                    <legend className="text-sm font-semibold text-gray-700 mb-1">Format</legend>
+                    {(Object.keys(exportFormats) as ExportFormat[]).map(id => (
+                        <label key={id} className={`flex items-start gap-3 p-3 rounded-xl border cursor-pointer ${format === id ? 'border-pink-400 bg-pink-50' : 'border-gray-200 hover:bg-gray-50'}`}>
+                            <input type="radio" name="export-format" checked={format === id} onChange={() => setFormat(id)} className="mt-1 accent-pink-500" />
+                            <span>
+                                <span className="font-semibold text-gray-800">{exportFormats[id].label}</span>
+                                <span className="block text-sm text-gray-500">{exportFormats[id].description}</span>
+                            </span>
+                        </label>
+                    ))}
+                </fieldset>
+
+                <fieldset className="space-y-2">
+                    <legend className="text-sm font-semibold text-gray-700 mb-1">Layout</legend>
+                    {layoutOptions.map(({ option, label, hint, disabled }) => (
+                        <label key={option} className={`flex items-start gap-3 ${disabled ? 'opacity-50' : 'cursor-pointer'}`}>
+                            <input type="checkbox" checked={layout[option] && !disabled} disabled={disabled} onChange={() => toggle(option)} className="mt-1 accent-pink-500" />
+                            <span>
+                                <span className="font-semibold text-gray-800">{label}</span>
+                                <span className="block text-sm text-gray-500">{hint}</span>
+                            </span>
+                        </label>
+                    ))}
+                </fieldset>
+
+                {error && <p className="text-red-600 text-sm">{error}</p>}
+                <div className="flex justify-end gap-2">
+                    <button onClick={onClose} className="bg-white border-2 border-pink-300 text-pink-600 font-bold py-1.5 px-4 rounded-xl hover:bg-pink-50">
+                        Cancel
+                    </button>
+                    <button onClick={handleExport} disabled={isExporting} className="bg-pink-500 text-white font-bold py-2 px-6 rounded-xl transition-all shadow-md hover:bg-pink-600 disabled:bg-pink-300">
+                        {isExporting ? 'Preparing...' : 'Export'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ExportDialog;
@@ -16,7 +16,12 @@ import {
     getListeningPracticeFeedback,
     generateCustomThinkBotChallenge
 } from '../services/geminiService';
+import { isAIConfigured } from '../services/llmProvider';
+import { AIServiceError, AICancelledError } from '../services/aiErrors';
 import Spinner from './Spinner';
+import AINotConfiguredNotice from './AINotConfiguredNotice';
+import AIErrorNotice from './AIErrorNotice';
+import CachedResultBadge from './CachedResultBadge';
 // @ts-ignore - using esm.sh import
 import ReactMarkdown from 'react-markdown';
 import { MicrophoneIcon, PlayIcon, PauseIcon, VolumeUpIcon } from './icons';
@@ -37,6 +42,7 @@ interface SparkIQScreenProps {
     // FIX: Updated the type to Omit 'userId' as it's handled by the parent component.
     onLogActivity: (activity: Omit<Activity, 'timestamp' | 'userId'>) => void;
     onBack: () => void;
+    onOpenSettings: () => void;
 }
 
 const formatTime = (seconds: number) => {
@@ -55,7 +61,7 @@ const challengeDurations: Partial<Record<ChallengeCategory, number>> = {
     'Odd-One-Out': 60,         // 1 min
 };
 
-const SparkIQScreen: React.FC<SparkIQScreenProps> = ({ onLogActivity, onBack }) => {
+const SparkIQScreen: React.FC<SparkIQScreenProps> = ({ onLogActivity, onBack, onOpenSettings }) => {
     const [screenState, setScreenState] = useState<ScreenState>('selection');
     const [selectedCategory, setSelectedCategory] = useState<ChallengeCategory | null>(null);
     const [currentChallenge, setCurrentChallenge] = useState<ThinkBotChallenge | null>(null);
@@ -69,7 +75,10 @@ const SparkIQScreen: React.FC<SparkIQScreenProps> = ({ onLogActivity, onBack })
     const [userSolution, setUserSolution] = useState('');
     const [feedback, setFeedback] = useState('');
     const [isLoading, setIsLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<string | AIServiceError | null>(null);
+    const [retryAction, setRetryAction] = useState<(() => void) | null>(null);
+    /** Set when the quiz on screen was served from the response cache, to when it was generated. */
+    const [quizCachedAt, setQuizCachedAt] = useState<number | null>(null);
     const [timer, setTimer] = useState(0);
     const [isTimeUp, setIsTimeUp] = useState(false);
     const [isRecording, setIsRecording] = useState(false);
@@ -83,6 +92,13 @@ const SparkIQScreen: React.FC<SparkIQScreenProps> = ({ onLogActivity, onBack })
 
     const speechRecognition = useRef<any>(null);
     const utterance = useRef<SpeechSynthesisUtterance | null>(null);
+    /** Controls the AI request in flight, so it can be cancelled by the user or on unmount. */
+    const requestControllerRef = useRef<AbortController | null>(null);
+
+    // Abort any in-flight AI request when leaving the screen
+    useEffect(() => {
+        return () => requestControllerRef.current?.abort();
+    }, []);
 
     // Load speech synthesis voices
     useEffect(() => {
@@ -145,14 +161,38 @@ const SparkIQScreen: React.FC<SparkIQScreenProps> = ({ onLogActivity, onBack })
         }
     }, [isRecording]);
 
+    /**
+     * Shows a failed AI request with error-specific guidance and remembers how to re-run it,
+     * so the notice can offer a retry.
+     */
+    const showAIError = useCallback((err: unknown, retry: () => void) => {
+        if (err instanceof AICancelledError) return;
+        setError(err instanceof AIServiceError ? err : new AIServiceError('unknown', 'Something went wrong with the AI service. Please try again in a moment.'));
+        setRetryAction(() => retry);
+    }, []);
+
+    /** Aborts any previous AI request and returns the signal for a new one. */
+    const beginRequest = useCallback((): AbortSignal => {
+        requestControllerRef.current?.abort();
+        requestControllerRef.current = new AbortController();
+        return requestControllerRef.current.signal;
+    }, []);
+
+    const handleCancel = () => {
+        requestControllerRef.current?.abort();
+        requestControllerRef.current = null;
+        setIsLoading(false);
+    };
+
     const handleSubmitSolution = useCallback(async (isAutoSubmit = false) => {
         if (!currentChallenge) return;
         if (!isAutoSubmit && !userSolution.trim()) return;
+        const signal = beginRequest();
         setIsLoading(true);
         setError(null);
         setScreenState('feedback');
         try {
-            const result = await evaluateSolution(currentChallenge, userSolution);
+            const result = await evaluateSolution(currentChallenge, userSolution, { signal });
             setFeedback(result);
             // FIX: Added the missing 'outcome' property to the onLogActivity call to match the required type.
             onLogActivity({
@@ -160,12 +200,12 @@ const SparkIQScreen: React.FC<SparkIQScreenProps> = ({ onLogActivity, onBack })
                 outcome: `Completed: ${currentChallenge.title}`
             });
         } catch (err) {
-            setError('Failed to get feedback. Please try submitting again.');
+            showAIError(err, () => handleSubmitSolution(isAutoSubmit));
             setScreenState('challenge');
         } finally {
             setIsLoading(false);
         }
-    }, [currentChallenge, userSolution, onLogActivity]);
+    }, [currentChallenge, userSolution, onLogActivity, showAIError, beginRequest]);
     
     const handleSubmitQuiz = useCallback(async () => {
         if (!currentQuiz) return;
@@ -176,23 +216,24 @@ const SparkIQScreen: React.FC<SparkIQScreenProps> = ({ onLogActivity, onBack })
             }
         });
         setQuizScore(score);
+        const signal = beginRequest();
         setIsLoading(true);
         setError(null);
         setScreenState('feedback');
         try {
-            const result = await getQuizFeedback(score, currentQuiz.questions.length, currentQuiz.topic);
+            const result = await getQuizFeedback(score, currentQuiz.questions.length, currentQuiz.topic, { signal });
             setFeedback(result);
             onLogActivity({
                 section: 'SparkIQ: Quiz',
                 outcome: `Score: ${score}/${currentQuiz.questions.length} on "${currentQuiz.topic}"`,
             });
         } catch (err) {
-            setError('Failed to get feedback for the quiz.');
+            showAIError(err, handleSubmitQuiz);
             setFeedback(`You scored ${score} out of ${currentQuiz.questions.length}.`);
         } finally {
             setIsLoading(false);
         }
-    }, [currentQuiz, userAnswers, onLogActivity]);
+    }, [currentQuiz, userAnswers, onLogActivity, showAIError, beginRequest]);
     
     const handleSubmitListeningQuiz = useCallback(async () => {
         if (!currentChallenge?.questions) return;
@@ -204,23 +245,24 @@ const SparkIQScreen: React.FC<SparkIQScreenProps> = ({ onLogActivity, onBack })
             }
         });
 
+        const signal = beginRequest();
         setIsLoading(true);
         setError(null);
         setScreenState('feedback');
         try {
-            const result = await getListeningPracticeFeedback(score, currentChallenge.questions.length, currentChallenge.title);
+            const result = await getListeningPracticeFeedback(score, currentChallenge.questions.length, currentChallenge.title, { signal });
             setFeedback(result);
             onLogActivity({
                 section: 'SparkIQ: Listening Practice',
                 outcome: `Score: ${score}/${currentChallenge.questions.length} on "${currentChallenge.title}"`,
             });
         } catch (err) {
-            setError('Failed to get feedback for the listening practice.');
+            showAIError(err, handleSubmitListeningQuiz);
             setFeedback(`You scored ${score} out of ${currentChallenge.questions.length}.`);
         } finally {
             setIsLoading(false);
         }
-    }, [currentChallenge, userAnswers, onLogActivity]);
+    }, [currentChallenge, userAnswers, onLogActivity, showAIError, beginRequest]);
     
     const handleAutoSubmit = useCallback(() => {
         if (currentQuiz) {
@@ -304,15 +346,16 @@ const SparkIQScreen: React.FC<SparkIQScreenProps> = ({ onLogActivity, onBack })
         }
 
         setScreenState('challenge');
+        const signal = beginRequest();
         try {
             let challenge: ThinkBotChallenge;
             if (category === 'Image Puzzle') {
-                challenge = await getImagePuzzleChallenge();
+                challenge = await getImagePuzzleChallenge({ signal });
             } else if (category === 'Odd-One-Out') {
-                challenge = await getOddOneOutChallenge();
+                challenge = await getOddOneOutChallenge({ signal });
                 setSelectedOddOneOutIndex(null);
             } else if (category === 'Listening Practice') {
-                challenge = await getListeningPracticeChallenge();
+                challenge = await getListeningPracticeChallenge({ signal });
                 setListeningPracticeState('ready');
                 setUserAnswers(new Array(challenge.questions!.length).fill(null));
                 setCurrentQuestionIndex(0);
@@ -327,16 +370,17 @@ const SparkIQScreen: React.FC<SparkIQScreenProps> = ({ onLogActivity, onBack })
             if (challenge.category === 'Jam') setTranscript('');
 
         } catch (err) {
-            setError('Failed to load a new challenge. The AI service might be temporarily unavailable. Please try selecting a category again in a moment.');
+            showAIError(err, () => handleSelectCategory(category));
             setScreenState('selection');
         } finally {
             setIsLoading(false);
         }
-    }, []);
+    }, [showAIError, beginRequest]);
     
     const handleStartChallengeWithDifficulty = useCallback(async () => {
         if (!selectedCategory) return;
         
+        const signal = beginRequest();
         setIsLoading(true);
         setError(null);
         setScreenState('challenge');
@@ -344,29 +388,32 @@ const SparkIQScreen: React.FC<SparkIQScreenProps> = ({ onLogActivity, onBack })
         try {
             const challenge = await getThinkBotChallenge(
                 selectedCategory as 'Puzzle' | 'Debate' | 'Try & Analyze', 
-                selectedDifficulty
+                selectedDifficulty,
+                { signal }
             );
             setCurrentChallenge(challenge);
             const duration = challengeDurations[challenge.category];
             setTimer(duration ?? 0);
             setIsTimeUp(false);
         } catch (err) {
-            setError('Failed to load a new challenge. The AI service might be temporarily unavailable. Please try again in a moment.');
+            showAIError(err, handleStartChallengeWithDifficulty);
             setScreenState('selection');
         } finally {
             setIsLoading(false);
         }
-    }, [selectedCategory, selectedDifficulty]);
+    }, [selectedCategory, selectedDifficulty, showAIError, beginRequest]);
 
-    const handleStartQuiz = useCallback(async () => {
+    const handleStartQuiz = useCallback(async (bypassCache = false) => {
         if (!quizTopic.trim()) {
             setError('Please enter a topic for the quiz.');
             return;
         }
+        const signal = beginRequest();
         setIsLoading(true);
         setError(null);
+        setQuizCachedAt(null);
         try {
-            const questions = await generateQuiz(quizTopic);
+            const questions = await generateQuiz(quizTopic, { signal, bypassCache, onCacheHit: setQuizCachedAt });
             setCurrentQuiz({ topic: quizTopic, questions });
             setUserAnswers(new Array(questions.length).fill(null));
             setCurrentQuestionIndex(0);
@@ -375,32 +422,33 @@ const SparkIQScreen: React.FC<SparkIQScreenProps> = ({ onLogActivity, onBack })
             setIsTimeUp(false);
             setScreenState('challenge');
         } catch (err) {
-            setError('Failed to generate the quiz. The topic may be too niche or the AI service is busy. Please try a different topic or try again in a few moments.');
+            showAIError(err, () => handleStartQuiz(bypassCache));
         } finally {
             setIsLoading(false);
         }
-    }, [quizTopic]);
+    }, [quizTopic, showAIError, beginRequest]);
 
     const handleGenerateCustomChallenge = useCallback(async () => {
         if (!customPrompt.trim() || !selectedCategory) return;
         
+        const signal = beginRequest();
         setIsLoading(true);
         setError(null);
         
         try {
-            const challenge = await generateCustomThinkBotChallenge(selectedCategory as 'Jam' | 'Design Task', customPrompt);
+            const challenge = await generateCustomThinkBotChallenge(selectedCategory as 'Jam' | 'Design Task', customPrompt, { signal });
             setCurrentChallenge(challenge);
             const duration = challengeDurations[challenge.category];
             setTimer(duration ?? 0);
             setIsTimeUp(false);
             if (challenge.category === 'Jam') setTranscript('');
             setScreenState('challenge');
-        } catch (err: any) {
-            setError(err.message || 'Failed to generate your custom challenge. Please try a different prompt or try again later.');
+        } catch (err) {
+            showAIError(err, handleGenerateCustomChallenge);
         } finally {
             setIsLoading(false);
         }
-    }, [customPrompt, selectedCategory]);
+    }, [customPrompt, selectedCategory, showAIError, beginRequest]);
 
     const handleQuizAnswer = (optionIndex: number) => {
         if (isTimeUp) return;
@@ -471,7 +519,7 @@ const SparkIQScreen: React.FC<SparkIQScreenProps> = ({ onLogActivity, onBack })
                 placeholder="e.g., 'Roman History' or 'Quantum Physics'"
                 className="w-full p-3 border border-pink-200 bg-gray-50 rounded-2xl text-gray-800 focus:ring-2 focus:ring-pink-400 focus:outline-none transition mb-4"
             />
-            <button onClick={handleStartQuiz} disabled={isLoading || !quizTopic.trim()} className="w-full bg-pink-500 text-white font-bold py-3 text-lg rounded-xl transition-all shadow-md hover:bg-pink-600 disabled:bg-pink-300">
+            <button onClick={() => handleStartQuiz()} disabled={isLoading || !quizTopic.trim()} className="w-full bg-pink-500 text-white font-bold py-3 text-lg rounded-xl transition-all shadow-md hover:bg-pink-600 disabled:bg-pink-300">
                 {isLoading ? 'Generating...' : 'Start Quiz'}
             </button>
         </div>
@@ -620,6 +668,9 @@ const SparkIQScreen: React.FC<SparkIQScreenProps> = ({ onLogActivity, onBack })
                         </div>
                         {hasTimer && renderTimer()}
                     </div>
+                    {quizCachedAt && currentQuestionIndex === 0 && (
+                        <CachedResultBadge cachedAt={quizCachedAt} onRegenerate={() => handleStartQuiz(true)} />
+                    )}
                     <div className="bg-white p-6 rounded-2xl shadow-inner border border-pink-200">
                         <h3 className="text-lg font-semibold text-gray-800 mb-4">{question.question}</h3>
                         <div className="space-y-3">
@@ -833,15 +884,33 @@ const SparkIQScreen: React.FC<SparkIQScreenProps> = ({ onLogActivity, onBack })
 
 
     const renderContent = () => {
+        if (!isAIConfigured()) {
+            return <AINotConfiguredNotice onOpenSettings={onOpenSettings} />;
+        }
+
         if (isLoading) {
              return (
                 <div className="text-center">
                     <Spinner color="pink" />
                     <p className="mt-4 text-gray-600 text-lg">Loading your challenge...</p>
+                    <button onClick={handleCancel} className="mt-4 bg-white border-2 border-pink-300 text-pink-600 font-bold py-2 px-6 rounded-xl transition-all hover:bg-pink-50">
+                        Cancel
+                    </button>
                 </div>
              );
         }
         
+        if (error instanceof AIServiceError) {
+            return (
+                <AIErrorNotice
+                    error={error}
+                    onRetry={retryAction ?? undefined}
+                    onDismiss={() => setError(null)}
+                    onOpenSettings={onOpenSettings}
+                />
+            );
+        }
+
         if (error) {
             return (
                 <div className="text-center text-red-500 bg-red-50 p-4 rounded-lg">
@@ -0,0 +1,276 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useCallback, useEffect, useState } from 'react';
+import { Activity, User } from '../types';
+import {
+    listFlashcardDecks,
+    listFlashcards,
+    saveFlashcard,
+    deleteFlashcardDeck,
+    scheduleReview,
+    describeInterval,
+    isDue,
+    isFlashcardsAvailable,
+    reviewGrades,
+    Flashcard,
+    FlashcardDeck,
+    ReviewGrade,
+} from '../services/flashcards';
+import Spinner from './Spinner';
+
+interface FlashcardsScreenProps {
+    user: User;
+    onBack: () => void;
+    onLogActivity: (activity: Omit<Activity, 'timestamp' | 'userId'>) => void;
+}
+
+interface ReviewSession {
+    title: string;
+    queue: Flashcard[];
+    /** Cards forgotten this session, shown again before it ends without changing their schedule. */
+    relearning: Set<string>;
+    reviewed: number;
+    remembered: number;
+}
+
+const gradeStyles: Record<ReviewGrade, string> = {
+    again: 'bg-red-100 text-red-700 hover:bg-red-200',
+    hard: 'bg-amber-100 text-amber-700 hover:bg-amber-200',
+    good: 'bg-green-100 text-green-700 hover:bg-green-200',
+    easy: 'bg-cyan-100 text-cyan-700 hover:bg-cyan-200',
+};
+
+const gradeOrder: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+/**
+ * The user's flashcard decks, made from the key terms of simplified content, and the review
+ * session: flip a card to check the definition, then grade how well it was remembered.
+ */
+const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({ user, onBack, onLogActivity }) => {
+    const [decks, setDecks] = useState<FlashcardDeck[] | null>(null);
+    const [cards, setCards] = useState<Flashcard[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [session, setSession] = useState<ReviewSession | null>(null);
+    const [isFlipped, setIsFlipped] = useState(false);
+
+    const loadDecks = useCallback(async () => {
+        try {
+            const [userDecks, userCards] = await Promise.all([listFlashcardDecks(user.id), listFlashcards(user.id)]);
+            setDecks(userDecks.sort((a, b) => b.createdAt - a.createdAt));
+            setCards(userCards);
+        } catch (err) {
+            console.error("Failed to load flashcards:", err);
+            setError('Your flashcards could not be loaded.');
+            setDecks([]);
+        }
+    }, [user.id]);
+
+    useEffect(() => {
+        loadDecks();
+    }, [loadDecks]);
+
+    const startSession = (title: string, deckId?: string) => {
+        const now = Date.now();
+        const due = cards.filter(card => isDue(card, now) && (!deckId || card.deckId === deckId)).sort((a, b) => a.dueAt - b.dueAt);
+        if (due.length === 0) return;
+        setSession({ title, queue: due, relearning: new Set(), reviewed: 0, remembered: 0 });
+        setIsFlipped(false);
+    };
+
+    const finishSession = (finished: ReviewSession) => {
+        if (finished.reviewed > 0) {
+            onLogActivity({
+                section: 'NeuroLearn: Flashcards',
+                outcome: `Reviewed ${finished.reviewed} flashcard${finished.reviewed === 1 ? '' : 's'} from "${finished.title}". Remembered ${finished.remembered}/${finished.reviewed}`,
+            });
+        }
+        setSession(null);
+        loadDecks();
+    };
+
+    const handleGrade = async (grade: ReviewGrade) => {
+        if (!session) return;
+        const [card, ...rest] = session.queue;
+        const isRelearning = session.relearning.has(card.id);
+        const next: ReviewSession = { ...session, queue: rest, relearning: new Set(session.relearning) };
+
+        if (!isRelearning) {
+            try {
+                await saveFlashcard(scheduleReview(card, grade));
+            } catch (err) {
+                console.error("Failed to save flashcard review:", err);
+                setError('This review could not be saved.');
+            }
+            next.reviewed += 1;
+            if (grade !== 'again') next.remembered += 1;
+        }
+        if (grade === 'again') {
+            next.relearning.add(card.id);
+            next.queue = [...rest, card];
+        } else {
+            next.relearning.delete(card.id);
+        }
+
+        setIsFlipped(false);
+        if (next.queue.length === 0) {
+            finishSession(next);
+        } else {
+            setSession(next);
+        }
+    };
+
+    const handleDeleteDeck = async (deck: FlashcardDeck) => {
+        if (!window.confirm(`Delete the "${deck.title}" deck and its flashcards?`)) return;
+        try {
+            await deleteFlashcardDeck(deck);
+            await loadDecks();
+        } catch (err) {
+            console.error("Failed to delete flashcard deck:", err);
+            setError(`"${deck.title}" could not be deleted.`);
+        }
+    };
+
+    // Space flips the card; 1–4 grade it once flipped
+    useEffect(() => {
+        if (!session) return;
+        const handleKeyDown = (event: KeyboardEvent) => {
+            const target = event.target instanceof HTMLElement ? event.target : null;
+            if (target?.closest('input, textarea, select')) return;
+            // A focused button already handles Space itself
+            if (event.key === ' ' && !target?.closest('button')) {
+                event.preventDefault();
+                setIsFlipped(flipped => !flipped);
+            } else if (isFlipped && /^[1-4]$/.test(event.key)) {
+                handleGrade(gradeOrder[Number(event.key) - 1]);
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    });
+
+    const renderSession = (current: ReviewSession) => {
+        const card = current.queue[0];
+        return (
+            <div className="space-y-6">
+                <div className="flex justify-between items-center">
+                    <h1 className="text-3xl font-bold text-pink-500">{current.title}</h1>
+                    <button onClick={() => finishSession(current)} className="text-pink-600 font-semibold hover:underline">
+                        End review
+                    </button>
+                </div>
+                <p className="text-sm text-gray-500">
+                    {current.queue.length} card{current.queue.length === 1 ? '' : 's'} left · {current.reviewed} reviewed
+                    {current.relearning.has(card.id) && ' · practising a card you forgot'}
+                </p>
+                <button
+                    onClick={() => setIsFlipped(flipped => !flipped)}
+                    aria-live="polite"
+                    className="w-full min-h-[16rem] p-8 rounded-3xl border-2 border-pink-200 bg-pink-50 shadow-inner flex flex-col justify-center items-center text-center transition hover:border-pink-400"
+                >
+                    <span className="text-xs uppercase tracking-wide text-pink-400 mb-3">{isFlipped ? 'Definition' : 'Term'}</span>
+                    <span className={isFlipped ? 'text-xl text-gray-700' : 'text-3xl font-bold text-gray-800'}>
+                        {isFlipped ? card.definition : card.term}
+                    </span>
+                    {!isFlipped && <span className="mt-6 text-sm text-gray-400">Click or press Space to flip</span>}
+                </button>
+                {isFlipped && (
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 animate-fade-in">
+                        {gradeOrder.map(grade => (
+                            <button key={grade} onClick={() => handleGrade(grade)} className={`py-3 rounded-xl font-bold transition ${gradeStyles[grade]}`}>
+                                {reviewGrades[grade].label}
+                                <span className="block text-xs font-normal">
+                                    {current.relearning.has(card.id)
+                                        ? (grade === 'again' ? 'see it again' : 'done for today')
+                                        : `next in ${describeInterval(scheduleReview(card, grade).intervalDays)}`}
+                                </span>
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    const renderDecks = () => {
+        const now = Date.now();
+        const dueIn = (deckId?: string) => cards.filter(card => isDue(card, now) && (!deckId || card.deckId === deckId)).length;
+        const totalDue = dueIn();
+        return (
+            <div className="space-y-6">
+                <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4">
+                    <div>
+                        <h1 className="text-4xl font-bold text-pink-500">Flashcards</h1>
+                        <p className="text-gray-600 mt-1">Decks are made from the key terms of content you simplify in NeuroLearn.</p>
+                    </div>
+                    <button
+                        onClick={() => startSession('All decks')}
+                        disabled={totalDue === 0}
+                        className="bg-pink-500 text-white font-bold py-2 px-6 rounded-xl transition-all shadow-md hover:bg-pink-600 disabled:bg-pink-300"
+                    >
+                        Review all due ({totalDue})
+                    </button>
+                </div>
+
+                {!isFlashcardsAvailable() && (
+                    <p className="text-sm bg-yellow-50 border border-yellow-200 text-yellow-800 p-3 rounded-xl">
+                        This browser can't store flashcards.
+                    </p>
+                )}
+                {error && <p className="text-red-600 text-sm">{error}</p>}
+
+                {decks === null ? (
+                    <div className="flex justify-center py-8"><Spinner color="pink" /></div>
+                ) : decks.length === 0 ? (
+                    <p className="text-center text-gray-500 py-8">No decks yet. Simplify some content and its key terms will become flashcards.</p>
+                ) : (
+                    <ul className="space-y-3">
+                        {decks.map(deck => {
+                            const deckCards = cards.filter(card => card.deckId === deck.id);
+                            const due = dueIn(deck.id);
+                            const nextDue = Math.min(...deckCards.map(card => card.dueAt));
+                            return (
+                                <li key={deck.id} className="p-4 rounded-2xl border border-pink-200 bg-white flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                                    <div>
+                                        <h2 className="text-lg font-bold text-gray-800">{deck.title}</h2>
+                                        <p className="text-sm text-gray-500">
+                                            {deckCards.length} card{deckCards.length === 1 ? '' : 's'} ·{' '}
+                                            {due > 0 ? <span className="text-pink-600 font-semibold">{due} due now</span>
+                                                : deckCards.length > 0 ? `next review ${new Date(nextDue).toLocaleDateString()}` : 'empty'}
+                                        </p>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <button
+                                            onClick={() => startSession(deck.title, deck.id)}
+                                            disabled={due === 0}
+                                            className="bg-pink-500 text-white font-bold py-1.5 px-4 rounded-xl hover:bg-pink-600 disabled:bg-pink-300"
+                                        >
+                                            Review
+                                        </button>
+                                        <button onClick={() => handleDeleteDeck(deck)} className="bg-white border-2 border-pink-300 text-pink-600 font-bold py-1 px-4 rounded-xl hover:bg-pink-50">
+                                            Delete
+                                        </button>
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <div className="w-full max-w-4xl animate-fade-in self-start mt-24">
+            <button onClick={onBack} className="flex items-center text-gray-200 font-semibold hover:text-white mb-4 transition-colors opacity-80 hover:opacity-100">
+                &larr; Back
+            </button>
+            <div className="bg-white/90 backdrop-blur-sm p-8 rounded-3xl shadow-2xl w-full border border-white/20">
+                {session ? renderSession(session) : renderDecks()}
+            </div>
+        </div>
+    );
+};
+
+export default FlashcardsScreen;
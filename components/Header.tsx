@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
-import { UserIcon, LogoutIcon, ChartIcon } from './icons';
+import { UserIcon, LogoutIcon, ChartIcon, SettingsIcon } from './icons';
 import { User } from '../types';
 
 interface HeaderProps {
@@ -12,10 +12,12 @@ interface HeaderProps {
     onProfile: () => void;
     onActivities: () => void;
     onDashboard: () => void;
+    onLibrary: () => void;
+    onSettings: () => void;
     onLogout: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ currentUser, onHome, onProfile, onActivities, onDashboard, onLogout }) => {
+const Header: React.FC<HeaderProps> = ({ currentUser, onHome, onProfile, onActivities, onDashboard, onLibrary, onSettings, onLogout }) => {
   return (
     <header className="absolute top-0 left-0 right-0 bg-white/70 backdrop-blur-sm shadow-md p-3 z-10">
       <nav className="max-w-7xl mx-auto flex justify-between items-center">
@@ -37,6 +39,12 @@ const Header: React.FC<HeaderProps> = ({ currentUser, onHome, onProfile, onActiv
              <button onClick={onDashboard} className="text-gray-600 hover:text-pink-500 font-semibold transition flex items-center gap-2">
                 <ChartIcon className="w-6 h-6" />
                 Dashboard
+            </button>
+             <button onClick={onLibrary} className="text-gray-600 hover:text-pink-500 font-semibold transition">
+                Library
+            </button>
+             <button onClick={onSettings} className="text-gray-600 hover:text-pink-500 transition flex items-center gap-2" title="Settings">
+                <SettingsIcon className="w-6 h-6" />
             </button>
              <button onClick={onLogout} className="text-gray-600 hover:text-red-500 transition flex items-center gap-2" title="Logout">
                 <LogoutIcon className="w-6 h-6" />
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { LibraryItemDetails, parseTags } from '../services/contentLibrary';
+
+interface LibraryItemDialogProps {
+    heading: string;
+    initialDetails: LibraryItemDetails;
+    /** Subjects already in the library, offered as suggestions. */
+    subjects: string[];
+    onSave: (details: LibraryItemDetails) => Promise<void>;
+    onCancel: () => void;
+}
+
+const inputClassName = "w-full p-2 border border-pink-200 bg-gray-50 rounded-xl text-gray-800 focus:ring-2 focus:ring-pink-400 focus:outline-none transition";
+
+/**
+ * Asks for the title, subject and tags of a library item, when saving it or editing it later.
+ */
+const LibraryItemDialog: React.FC<LibraryItemDialogProps> = ({ heading, initialDetails, subjects, onSave, onCancel }) => {
+    const [title, setTitle] = useState(initialDetails.title);
+    const [subject, setSubject] = useState(initialDetails.subject);
+    const [tags, setTags] = useState(initialDetails.tags.join(', '));
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = async (event: React.FormEvent) => {
+        event.preventDefault();
+        if (!title.trim()) {
+            setError('Please give the item a title.');
+            return;
+        }
+        setIsSaving(true);
+        setError(null);
+        try {
+            await onSave({ title: title.trim(), subject: subject.trim(), tags: parseTags(tags) });
+        } catch (err: any) {
+            setError(err.message || 'The item could not be saved. Please try again.');
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onCancel}>
+            <form
+                onSubmit={handleSubmit}
+                onClick={(e) => e.stopPropagation()}
+                className="bg-white rounded-3xl shadow-2xl w-full max-w-md p-6 space-y-4 animate-fade-in"
+            >
+                <h2 className="text-2xl font-bold text-pink-600">{heading}</h2>
+                <label className="block">
+                    <span className="text-sm font-semibold text-gray-700">Title</span>
+                    <input value={title} onChange={(e) => setTitle(e.target.value)} className={inputClassName} autoFocus />
+                </label>
+                <label className="block">
+                    <span className="text-sm font-semibold text-gray-700">Subject</span>
+                    <input value={subject} onChange={(e) => setSubject(e.target.value)} list="library-subjects" placeholder="e.g. Science" className={inputClassName} />
+                    <datalist id="library-subjects">
+                        {subjects.map(name => <option key={name} value={name} />)}
+                    </datalist>
+                </label>
+                <label className="block">
+                    <span className="text-sm font-semibold text-gray-700">Tags</span>
+                    <input value={tags} onChange={(e) => setTags(e.target.value)} placeholder="Separate tags with commas" className={inputClassName} />
+                </label>
+                {error && <p className="text-red-600 text-sm">{error}</p>}
+                <div className="flex justify-end gap-2">
+                    <button type="button" onClick={onCancel} className="bg-white border-2 border-pink-300 text-pink-600 font-bold py-1.5 px-4 rounded-xl hover:bg-pink-50">
+                        Cancel
+                    </button>
+                    <button type="submit" disabled={isSaving} className="bg-pink-500 text-white font-bold py-2 px-6 rounded-xl transition-all shadow-md hover:bg-pink-600 disabled:bg-pink-300">
+                        {isSaving ? 'Saving...' : 'Save'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default LibraryItemDialog;
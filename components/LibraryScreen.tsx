@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { User } from '../types';
+import {
+    listLibraryItems,
+    updateLibraryItem,
+    deleteLibraryItem,
+    searchLibraryItems,
+    sortLibraryItems,
+    librarySubjects,
+    librarySortLabels,
+    isLibraryAvailable,
+    LibraryItem,
+    LibraryItemDetails,
+    LibrarySortOrder,
+} from '../services/contentLibrary';
+import LibraryItemDialog from './LibraryItemDialog';
+import Spinner from './Spinner';
+
+interface LibraryScreenProps {
+    user: User;
+    onBack: () => void;
+    onOpenItem: (item: LibraryItem) => void;
+}
+
+const inputClassName = "p-2 border border-pink-200 bg-gray-50 rounded-xl text-gray-800 focus:ring-2 focus:ring-pink-400 focus:outline-none transition";
+
+const kindLabels: Record<LibraryItem['kind'], string> = {
+    simplified: 'Simplified content',
+    expanded: 'Teaching pack',
+};
+
+function describeItem(item: LibraryItem): string {
+    if (item.kind === 'expanded') {
+        const images = item.content.images.filter(image => image.url).length;
+        return `${kindLabels.expanded} on "${item.topic}"${images > 0 ? ` · ${images} image${images === 1 ? '' : 's'}` : ''}`;
+    }
+    const parts = [kindLabels.simplified];
+    if (item.sourceFilename) parts.push(`from ${item.sourceFilename}`);
+    if (item.translation) parts.push(`with ${item.translation.language} translation`);
+    return parts.join(' ');
+}
+
+/**
+ * The signed-in user's saved simplifications and teaching packs, with search, filtering and
+ * sorting. Opening an item shows it in NeuroLearn without generating it again.
+ */
+const LibraryScreen: React.FC<LibraryScreenProps> = ({ user, onBack, onOpenItem }) => {
+    const [items, setItems] = useState<LibraryItem[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [query, setQuery] = useState('');
+    const [subjectFilter, setSubjectFilter] = useState('');
+    const [sortOrder, setSortOrder] = useState<LibrarySortOrder>('newest');
+    const [editingItem, setEditingItem] = useState<LibraryItem | null>(null);
+
+    useEffect(() => {
+        listLibraryItems(user.id)
+            .then(setItems)
+            .catch(err => {
+                console.error("Failed to load the library:", err);
+                setError('Your library could not be loaded.');
+                setItems([]);
+            });
+    }, [user.id]);
+
+    const handleSaveDetails = async (details: LibraryItemDetails) => {
+        if (!editingItem) return;
+        const updated = await updateLibraryItem(editingItem.id, details);
+        if (updated) {
+            setItems(prev => prev?.map(item => item.id === updated.id ? updated : item) ?? null);
+        }
+        setEditingItem(null);
+    };
+
+    const handleDelete = async (item: LibraryItem) => {
+        if (!window.confirm(`Delete "${item.title}" from your library?`)) return;
+        try {
+            await deleteLibraryItem(item.id);
+            setItems(prev => prev?.filter(other => other.id !== item.id) ?? null);
+        } catch (err) {
+            console.error("Failed to delete library item:", err);
+            setError(`"${item.title}" could not be deleted.`);
+        }
+    };
+
+    const subjects = librarySubjects(items ?? []);
+    const filtered = (items ?? []).filter(item => !subjectFilter || item.subject === subjectFilter);
+    const visibleItems = sortLibraryItems(searchLibraryItems(filtered, query), sortOrder);
+
+    return (
+        <div className="w-full max-w-4xl animate-fade-in self-start mt-24">
+            <button onClick={onBack} className="flex items-center text-gray-200 font-semibold hover:text-white mb-4 transition-colors opacity-80 hover:opacity-100">
+                &larr; Back
+            </button>
+            <div className="bg-white/90 backdrop-blur-sm p-8 rounded-3xl shadow-2xl w-full border border-white/20 space-y-6">
+                <div>
+                    <h1 className="text-4xl font-bold text-pink-500">My Library</h1>
+                    <p className="text-gray-600 mt-1">Content you saved from NeuroLearn. It is stored on this device and opens without using the AI again.</p>
+                </div>
+
+                {!isLibraryAvailable() && (
+                    <p className="text-sm bg-yellow-50 border border-yellow-200 text-yellow-800 p-3 rounded-xl">
+                        This browser can't store library items.
+                    </p>
+                )}
+                {error && <p className="text-red-600 text-sm">{error}</p>}
+
+                <div className="flex flex-col sm:flex-row gap-2">
+                    <input
+                        type="search"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder="Search titles, subjects and tags"
+                        className={`${inputClassName} flex-1`}
+                    />
+                    <select value={subjectFilter} onChange={(e) => setSubjectFilter(e.target.value)} className={inputClassName}>
+                        <option value="">All subjects</option>
+                        {subjects.map(subject => <option key={subject} value={subject}>{subject}</option>)}
+                    </select>
+                    <select value={sortOrder} onChange={(e) => setSortOrder(e.target.value as LibrarySortOrder)} className={inputClassName}>
+                        {(Object.keys(librarySortLabels) as LibrarySortOrder[]).map(order => (
+                            <option key={order} value={order}>{librarySortLabels[order]}</option>
+                        ))}
+                    </select>
+                </div>
+
+                {items === null ? (
+                    <div className="flex justify-center py-8"><Spinner /></div>
+                ) : items.length === 0 ? (
+                    <p className="text-gray-500">Nothing saved yet. Use "Save in Library" on simplified content or a teaching pack.</p>
+                ) : visibleItems.length === 0 ? (
+                    <p className="text-gray-500">No saved items match your search.</p>
+                ) : (
+                    <ul className="space-y-3">
+                        {visibleItems.map(item => (
+                            <li key={item.id} className="bg-pink-50 p-4 rounded-2xl text-sm text-gray-700 flex flex-col sm:flex-row sm:items-center gap-3">
+                                <div className="flex-1 min-w-0 space-y-1">
+                                    <p className="text-lg font-bold text-gray-800 truncate">{item.title}</p>
+                                    <p className="text-gray-500">{describeItem(item)}</p>
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        {item.subject && <span className="bg-pink-200 text-pink-800 font-semibold px-2 py-0.5 rounded-full">{item.subject}</span>}
+                                        {item.tags.map(tag => <span key={tag} className="bg-white border border-pink-200 text-pink-700 px-2 py-0.5 rounded-full">#{tag}</span>)}
+                                        <span className="text-gray-500">Saved {new Date(item.createdAt).toLocaleDateString()}</span>
+                                    </div>
+                                </div>
+                                <div className="flex gap-2 shrink-0">
+                                    <button onClick={() => onOpenItem(item)} className="bg-pink-500 text-white font-bold py-1.5 px-4 rounded-xl hover:bg-pink-600">
+                                        Open
+                                    </button>
+                                    <button onClick={() => setEditingItem(item)} className="bg-white border-2 border-pink-300 text-pink-600 font-bold py-1 px-4 rounded-xl hover:bg-pink-50">
+                                        Edit
+                                    </button>
+                                    <button onClick={() => handleDelete(item)} className="bg-white border-2 border-red-200 text-red-600 font-bold py-1 px-4 rounded-xl hover:bg-red-50">
+                                        Delete
+                                    </button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+            {editingItem && (
+                <LibraryItemDialog
+                    heading="Edit library item"
+                    initialDetails={editingItem}
+                    subjects={subjects}
+                    onSave={handleSaveDetails}
+                    onCancel={() => setEditingItem(null)}
+                />
+            )}
+        </div>
+    );
+};
+
+export default LibraryScreen;
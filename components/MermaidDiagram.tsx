@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { DiagramDetail } from '../types';
+import { describeDiagramError, renderDiagram } from '../services/diagramRenderer';
+import Spinner from './Spinner';
+
+interface MermaidDiagramProps {
+    diagram: DiagramDetail;
+    /** The pack is still being written, so the diagram source may be incomplete. */
+    isWriting: boolean;
+    isRegenerating: boolean;
+    canRegenerate: boolean;
+    /** Asks the AI to redraw the diagram, given why the current source couldn't be drawn. */
+    onRegenerate: (error: string) => void;
+}
+
+type DrawState = { status: 'drawing' } | { status: 'drawn'; svg: string } | { status: 'failed'; error: string };
+
+/**
+ * Draws a teaching pack diagram inline. When the AI wrote source Mermaid can't draw, the
+ * description is shown instead with an option to regenerate the diagram.
+ */
+const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ diagram, isWriting, isRegenerating, canRegenerate, onRegenerate }) => {
+    const [drawState, setDrawState] = useState<DrawState>({ status: 'drawing' });
+
+    useEffect(() => {
+        if (isWriting) return;
+        let isCurrent = true;
+        setDrawState({ status: 'drawing' });
+        renderDiagram(diagram.source)
+            .then(svg => { if (isCurrent) setDrawState({ status: 'drawn', svg }); })
+            .catch(error => {
+                console.warn("Diagram could not be drawn:", error);
+                if (isCurrent) setDrawState({ status: 'failed', error: error instanceof Error ? error.message : String(error) });
+            });
+        return () => { isCurrent = false; };
+    }, [diagram.source, isWriting]);
+
+    return (
+        <figure className="my-6 border p-4 rounded-lg bg-gray-50 not-prose">
+            {isWriting || isRegenerating || drawState.status === 'drawing' ? (
+                <div data-read-along="skip" className="w-full h-48 rounded-md bg-pink-50 flex flex-col justify-center items-center text-center p-4 border border-dashed border-pink-300">
+                    <Spinner color="pink" />
+                    <p className="mt-3 text-sm text-pink-600">{isRegenerating ? 'Redrawing diagram...' : 'Drawing diagram...'}</p>
+                </div>
+            ) : drawState.status === 'failed' ? (
+                <div data-read-along="skip" className="w-full rounded-md bg-gray-100 flex flex-col items-center text-center p-4 border border-dashed border-gray-400">
+                    <p className="font-semibold text-red-600">This diagram could not be drawn.</p>
+                    <p className="text-sm text-gray-500 mb-3">{describeDiagramError(drawState.error)}</p>
+                    <button
+                        onClick={() => onRegenerate(drawState.error)}
+                        disabled={!canRegenerate}
+                        className="bg-pink-500 text-white font-bold py-2 px-4 rounded-xl transition hover:bg-pink-600 disabled:bg-pink-300 disabled:cursor-not-allowed"
+                    >
+                        Regenerate diagram
+                    </button>
+                    <details className="mt-3 w-full text-left">
+                        <summary className="text-xs text-gray-500 cursor-pointer">Show diagram source</summary>
+                        <pre className="mt-2 p-2 text-xs bg-white border rounded overflow-x-auto whitespace-pre-wrap">{diagram.source}</pre>
+                    </details>
+                </div>
+            ) : (
+                // Mermaid's strict security level sanitizes labels, so its SVG is safe to insert
+                <div className="flex justify-center overflow-x-auto [&_svg]:max-w-full [&_svg]:h-auto" dangerouslySetInnerHTML={{ __html: drawState.svg }} />
+            )}
+            <figcaption className="mt-2">
+                <p className="font-bold text-gray-800">{diagram.title}</p>
+                <p className="text-sm text-gray-600 mt-1">{diagram.description}</p>
+            </figcaption>
+        </figure>
+    );
+};
+
+export default MermaidDiagram;
@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import type { AIOperation } from '../services/llmProvider';
+import { operationLabels } from '../services/usageTracker';
+import { isProxyEnabled } from '../services/proxyClient';
+import {
+    KNOWN_MODELS,
+    DEFAULT_GENERATION_SETTINGS,
+    getGenerationSettings,
+    getDefaultGenerationSettings,
+    saveGenerationSettings,
+    resetGenerationSettings,
+    GenerationSettings,
+} from '../services/generationSettings';
+
+interface ModelSettingsScreenProps {
+    onBack: () => void;
+}
+
+const operations = Object.keys(DEFAULT_GENERATION_SETTINGS) as AIOperation[];
+const textModels = KNOWN_MODELS.filter(model => model.kind === 'text');
+const imageModels = KNOWN_MODELS.filter(model => model.kind === 'image');
+
+const loadAll = (read: (operation: AIOperation) => GenerationSettings) =>
+    Object.fromEntries(operations.map(operation => [operation, read(operation)])) as Record<AIOperation, GenerationSettings>;
+
+const inputClassName = "w-full p-2 border border-pink-200 bg-gray-50 rounded-xl text-gray-800 focus:ring-2 focus:ring-pink-400 focus:outline-none transition";
+
+/** Parses a number field; an empty field means "use the model's default". */
+function parseOptionalNumber(value: string): number | null {
+    return value.trim() === '' ? null : Number(value);
+}
+
+/**
+ * Chooses the model, temperature and output limit for each AI feature on this device.
+ */
+const ModelSettingsScreen: React.FC<ModelSettingsScreenProps> = ({ onBack }) => {
+    const [settings, setSettings] = useState(() => loadAll(getGenerationSettings));
+    const [problems, setProblems] = useState<Partial<Record<AIOperation, string[]>>>({});
+    const [message, setMessage] = useState<string | null>(null);
+
+    const update = (operation: AIOperation, changes: Partial<GenerationSettings>) => {
+        setSettings(prev => ({ ...prev, [operation]: { ...prev[operation], ...changes } }));
+        setMessage(null);
+    };
+
+    const handleSave = () => {
+        const found = saveGenerationSettings(settings);
+        setProblems(found);
+        setMessage(Object.keys(found).length === 0 ? 'Model settings saved.' : null);
+    };
+
+    const handleReset = () => {
+        resetGenerationSettings();
+        setSettings(loadAll(getDefaultGenerationSettings));
+        setProblems({});
+        setMessage('Model settings reset to the defaults.');
+    };
+
+    return (
+        <div className="w-full max-w-5xl animate-fade-in self-start mt-24">
+            <button onClick={onBack} className="flex items-center text-gray-200 font-semibold hover:text-white mb-4 transition-colors opacity-80 hover:opacity-100">
+                &larr; Back
+            </button>
+            <div className="bg-white/90 backdrop-blur-sm p-8 rounded-3xl shadow-2xl w-full border border-white/20 space-y-6">
+                <div>
+                    <h1 className="text-4xl font-bold text-pink-500">AI Models</h1>
+                    <p className="text-gray-600 mt-1">
+                        Choose the model each feature uses. Cheaper models answer faster; stronger ones write better teaching material. Leave a number empty to use the default.
+                    </p>
+                    {isProxyEnabled() && (
+                        <p className="mt-2 text-sm bg-yellow-50 border border-yellow-200 text-yellow-800 p-3 rounded-xl">
+                            AI calls go through the proxy server, which uses its own model settings. Changes here have no effect.
+                        </p>
+                    )}
+                </div>
+
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm text-gray-700">
+                        <thead>
+                            <tr className="text-gray-500 border-b border-pink-100">
+                                <th className="py-2 pr-3 font-medium">Feature</th>
+                                <th className="py-2 pr-3 font-medium">Model</th>
+                                <th className="py-2 pr-3 font-medium w-28">Temperature</th>
+                                <th className="py-2 pr-3 font-medium w-32">Max output tokens</th>
+                                <th className="py-2 font-medium">Image model</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {operations.map(operation => {
+                                const current = settings[operation];
+                                const defaults = getDefaultGenerationSettings(operation);
+                                return (
+                                    <React.Fragment key={operation}>
+                                        <tr className={problems[operation] ? '' : 'border-b border-pink-50'}>
+                                            <td className="py-2 pr-3 font-semibold">{operationLabels[operation]}</td>
+                                            <td className="py-2 pr-3">
+                                                <select value={current.model} onChange={(e) => update(operation, { model: e.target.value })} className={inputClassName}>
+                                                    {textModels.map(model => <option key={model.id} value={model.id}>{model.label}</option>)}
+                                                </select>
+                                            </td>
+                                            <td className="py-2 pr-3">
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    max={2}
+                                                    step={0.1}
+                                                    value={current.temperature ?? ''}
+                                                    placeholder="Model default"
+                                                    onChange={(e) => update(operation, { temperature: parseOptionalNumber(e.target.value) })}
+                                                    className={inputClassName}
+                                                />
+                                            </td>
+                                            <td className="py-2 pr-3">
+                                                <input
+                                                    type="number"
+                                                    min={1}
+                                                    value={current.maxOutputTokens ?? ''}
+                                                    placeholder="Model limit"
+                                                    onChange={(e) => update(operation, { maxOutputTokens: parseOptionalNumber(e.target.value) })}
+                                                    className={inputClassName}
+                                                />
+                                            </td>
+                                            <td className="py-2">
+                                                {defaults.imageModel !== undefined ? (
+                                                    <select value={current.imageModel} onChange={(e) => update(operation, { imageModel: e.target.value })} className={inputClassName}>
+                                                        {imageModels.map(model => <option key={model.id} value={model.id}>{model.label}</option>)}
+                                                    </select>
+                                                ) : (
+                                                    <span className="text-gray-400">—</span>
+                                                )}
+                                            </td>
+                                        </tr>
+                                        {problems[operation] && (
+                                            <tr className="border-b border-pink-50">
+                                                <td colSpan={5} className="pb-2 text-red-600">{problems[operation]!.join(' ')}</td>
+                                            </tr>
+                                        )}
+                                    </React.Fragment>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                    <button onClick={handleSave} className="bg-pink-500 text-white font-bold py-2 px-6 rounded-xl transition-all shadow-md hover:bg-pink-600">
+                        Save Settings
+                    </button>
+                    <button onClick={handleReset} className="bg-white border-2 border-pink-300 text-pink-600 font-bold py-1.5 px-6 rounded-xl transition-all hover:bg-pink-50">
+                        Reset to Defaults
+                    </button>
+                    {message && <p className="text-green-600 text-sm">{message}</p>}
+                    {Object.keys(problems).length > 0 && <p className="text-red-600 text-sm">Fix the problems shown above to save.</p>}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ModelSettingsScreen;
@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+    listPromptTemplates,
+    getPromptTemplate,
+    getActivePromptVersion,
+    setActivePromptVersion,
+    fillTemplate,
+    findPlaceholders,
+    formatPromptRef,
+    samplePromptVariables,
+    PromptId,
+    PromptVariables,
+} from '../services/promptRegistry';
+import { getCallLog, subscribeToCallLog, AICallRecord } from '../services/aiCallLog';
+
+interface PromptEditorScreenProps {
+    onBack: () => void;
+}
+
+/**
+ * Development-only tool for browsing prompt templates, previewing how a version (or an unsaved draft)
+ * renders with sample variables, and pinning a version to compare outputs in the call log.
+ * Drafts are never sent to the model; to ship a change, add it as a new version in promptTemplates.ts.
+ */
+const PromptEditorScreen: React.FC<PromptEditorScreenProps> = ({ onBack }) => {
+    const templateIds = listPromptTemplates();
+    const [selectedId, setSelectedId] = useState<PromptId>(templateIds[0]);
+    const definition = getPromptTemplate(selectedId);
+    const [activeVersion, setActiveVersion] = useState(() => getActivePromptVersion(selectedId).version);
+    const [viewedVersion, setViewedVersion] = useState(activeVersion);
+    const [draft, setDraft] = useState('');
+    const [variables, setVariables] = useState<PromptVariables>(samplePromptVariables);
+    const [callLog, setCallLog] = useState<AICallRecord[]>(getCallLog);
+
+    useEffect(() => subscribeToCallLog(setCallLog), []);
+
+    // Load the active version whenever another template is selected.
+    useEffect(() => {
+        const active = getActivePromptVersion(selectedId);
+        setActiveVersion(active.version);
+        setViewedVersion(active.version);
+        setDraft(active.template);
+    }, [selectedId]);
+
+    const handleViewVersion = (version: number) => {
+        setViewedVersion(version);
+        setDraft(definition.versions.find(v => v.version === version)?.template ?? '');
+    };
+
+    const handlePinVersion = () => {
+        setActivePromptVersion(selectedId, viewedVersion);
+        setActiveVersion(getActivePromptVersion(selectedId).version);
+    };
+
+    const handleUnpin = () => {
+        setActivePromptVersion(selectedId, null);
+        setActiveVersion(getActivePromptVersion(selectedId).version);
+    };
+
+    const placeholders = findPlaceholders(draft);
+    const preview = useMemo(() => fillTemplate(draft, { ...variables }), [draft, variables]);
+    const savedTemplate = definition.versions.find(v => v.version === viewedVersion)?.template;
+    const undeclared = placeholders.filter(name => !(definition.variables as readonly string[]).includes(name));
+    const recentCalls = callLog.filter(call => call.prompts.some(ref => ref.id === selectedId)).slice(0, 10);
+
+    return (
+        <div className="w-full max-w-6xl animate-fade-in self-start mt-24">
+            <button onClick={onBack} className="flex items-center text-gray-200 font-semibold hover:text-white mb-4 transition-colors opacity-80 hover:opacity-100">
+                &larr; Back
+            </button>
+            <div className="bg-white/90 backdrop-blur-sm p-8 rounded-3xl shadow-2xl w-full border border-white/20 space-y-6">
+                <div>
+                    <h1 className="text-4xl font-bold text-pink-500">Prompt Editor</h1>
+                    <p className="text-gray-600 mt-1">Development only. Drafts are previewed here but never sent to the model.</p>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-500">Template</label>
+                        <select
+                            value={selectedId}
+                            onChange={(e) => setSelectedId(e.target.value as PromptId)}
+                            className="w-full mt-1 p-3 border border-pink-200 bg-gray-50 rounded-2xl text-gray-800 focus:ring-2 focus:ring-pink-400 focus:outline-none"
+                        >
+                            {templateIds.map(id => <option key={id} value={id}>{id}</option>)}
+                        </select>
+                        <p className="text-sm text-gray-500 mt-1">{definition.description}</p>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-500">Version</label>
+                        <select
+                            value={viewedVersion}
+                            onChange={(e) => handleViewVersion(Number(e.target.value))}
+                            className="w-full mt-1 p-3 border border-pink-200 bg-gray-50 rounded-2xl text-gray-800 focus:ring-2 focus:ring-pink-400 focus:outline-none"
+                        >
+                            {definition.versions.map(v => (
+                                <option key={v.version} value={v.version}>
+                                    v{v.version}{v.version === activeVersion ? ' (active)' : ''}{v.notes ? ` — ${v.notes}` : ''}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="flex items-end gap-2">
+                        <button onClick={handlePinVersion} disabled={viewedVersion === activeVersion} className="bg-pink-500 text-white font-bold py-3 px-4 rounded-xl shadow-md hover:bg-pink-600 disabled:bg-pink-300">
+                            Use v{viewedVersion}
+                        </button>
+                        <button onClick={handleUnpin} className="bg-white border-2 border-pink-300 text-pink-600 font-bold py-2.5 px-4 rounded-xl hover:bg-pink-50">
+                            Use latest
+                        </button>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    <div className="space-y-3">
+                        <div className="flex items-center justify-between">
+                            <h2 className="text-xl font-bold text-pink-600">Template</h2>
+                            {draft !== savedTemplate && (
+                                <button onClick={() => handleViewVersion(viewedVersion)} className="text-sm font-semibold text-pink-600 hover:underline">
+                                    Discard draft
+                                </button>
+                            )}
+                        </div>
+                        <textarea
+                            value={draft}
+                            onChange={(e) => setDraft(e.target.value)}
+                            rows={14}
+                            className="w-full p-3 border border-pink-200 bg-gray-50 rounded-2xl font-mono text-sm text-gray-800 focus:ring-2 focus:ring-pink-400 focus:outline-none"
+                        />
+                        {undeclared.length > 0 && (
+                            <p className="text-sm text-red-600">Not declared as variables of this template: {undeclared.join(', ')}</p>
+                        )}
+                        {placeholders.map(name => (
+                            <div key={name}>
+                                <label className="block text-sm font-medium text-gray-500">{name}</label>
+                                <input
+                                    value={String((variables as unknown as Record<string, string | number>)[name] ?? '')}
+                                    onChange={(e) => setVariables(prev => ({ ...prev, [name]: e.target.value }))}
+                                    className="w-full mt-1 p-2 border border-pink-200 bg-gray-50 rounded-xl text-gray-800 focus:ring-2 focus:ring-pink-400 focus:outline-none"
+                                />
+                            </div>
+                        ))}
+                    </div>
+                    <div className="space-y-3">
+                        <h2 className="text-xl font-bold text-pink-600">Rendered prompt</h2>
+                        <pre className="whitespace-pre-wrap bg-gray-50 border border-pink-100 rounded-2xl p-3 text-sm text-gray-800 max-h-[28rem] overflow-y-auto">{preview.text}</pre>
+                        {preview.missing.length > 0 && (
+                            <p className="text-sm text-red-600">No value for: {preview.missing.join(', ')}</p>
+                        )}
+                    </div>
+                </div>
+
+                <section>
+                    <h2 className="text-xl font-bold text-pink-600 mb-2">Recent calls using this template</h2>
+                    {recentCalls.length === 0 ? (
+                        <p className="text-gray-500">No calls yet in this session.</p>
+                    ) : (
+                        <ul className="space-y-1 text-sm text-gray-700">
+                            {recentCalls.map(call => (
+                                <li key={call.id} className="flex flex-wrap gap-x-4">
+                                    <span className="font-mono">{new Date(call.startedAt).toLocaleTimeString()}</span>
+                                    <span>{call.prompts.map(formatPromptRef).join(', ')}</span>
+                                    <span className={call.status === 'error' ? 'text-red-600' : 'text-gray-500'}>
+                                        {call.status}{call.errorKind ? ` (${call.errorKind})` : ''}
+                                        {call.durationMs !== undefined ? ` · ${(call.durationMs / 1000).toFixed(1)}s` : ''}
+                                        {call.usage ? ` · ${call.usage.totalTokens} tokens` : ''}
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </section>
+            </div>
+        </div>
+    );
+};
+
+export default PromptEditorScreen;
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo } from 'react';
+import { SimplifiedContent } from '../types';
+import { analyzeReadability, contentLevelText, isHarderThan, levelForGrade, ReadabilityMetrics, SimplifiedLevel } from '../services/readability';
+
+interface ReadabilityPanelProps {
+    /** The text that was simplified, when it is available as text (not for uploaded PDFs or media). */
+    inputText: string | null;
+    /** The simplification on screen, whole document or section. */
+    content: Pick<SimplifiedContent, SimplifiedLevel | 'suggestedLevel'>;
+}
+
+const levelLabels: Record<SimplifiedLevel, string> = {
+    beginner: 'Beginner',
+    intermediate: 'Intermediate',
+    advancedSimplified: 'Advanced',
+};
+
+const metricRows: { label: string; format: (metrics: ReadabilityMetrics) => string }[] = [
+    { label: 'Grade level (Flesch-Kincaid)', format: m => m.fleschKincaidGrade.toFixed(1) },
+    { label: 'Words per sentence', format: m => m.averageSentenceLength.toFixed(1) },
+    { label: 'Syllables per word', format: m => m.averageSyllablesPerWord.toFixed(2) },
+    { label: 'Rare words', format: m => `${Math.round(m.rareWordDensity * 100)}%` },
+];
+
+/**
+ * Readability scores for the input and each generated level, measured locally, with a warning
+ * when the beginner level reads as harder than the original text.
+ */
+const ReadabilityPanel: React.FC<ReadabilityPanelProps> = ({ inputText, content }) => {
+    const input = useMemo(() => (inputText ? analyzeReadability(inputText) : null), [inputText]);
+    const levels = useMemo(() => (Object.keys(levelLabels) as SimplifiedLevel[]).map(level => ({
+        level,
+        metrics: analyzeReadability(contentLevelText(content[level])),
+    })), [content]);
+
+    const beginner = levels[0].metrics;
+    const beginnerTooHard = input !== null && isHarderThan(beginner, input);
+    const measuredLevel = input && input.words > 0 ? levelForGrade(input.fleschKincaidGrade) : null;
+
+    return (
+        <details className="mb-4 bg-white border border-pink-200 rounded-2xl p-4 text-sm text-gray-700 shadow-sm" open={beginnerTooHard}>
+            <summary className="font-semibold text-pink-600 cursor-pointer">📏 Readability check</summary>
+            {beginnerTooHard && (
+                <p className="mt-3 bg-red-50 border border-red-200 text-red-700 p-3 rounded-xl">
+                    ⚠️ The Beginner level reads at grade {beginner.fleschKincaidGrade.toFixed(1)}, which is harder than the original text (grade {input!.fleschKincaidGrade.toFixed(1)}). Try regenerating it.
+                </p>
+            )}
+            {measuredLevel && measuredLevel !== content.suggestedLevel && (
+                <p className="mt-3 text-gray-600">
+                    By its measured grade, the original text suits the <strong>{levelLabels[measuredLevel]}</strong> level; the AI suggested <strong>{levelLabels[content.suggestedLevel]}</strong>.
+                </p>
+            )}
+            <div className="mt-3 overflow-x-auto">
+                <table className="w-full text-left">
+                    <thead>
+                        <tr className="text-gray-500 border-b border-pink-100">
+                            <th className="py-2 pr-4 font-medium">Measure</th>
+                            {input && <th className="py-2 pr-4 font-medium">Original</th>}
+                            {levels.map(({ level }) => <th key={level} className="py-2 pr-4 font-medium">{levelLabels[level]}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {metricRows.map(row => (
+                            <tr key={row.label} className="border-b border-pink-50 last:border-0">
+                                <td className="py-2 pr-4 text-gray-500">{row.label}</td>
+                                {input && <td className="py-2 pr-4">{row.format(input)}</td>}
+                                {levels.map(({ level, metrics }) => (
+                                    <td key={level} className={`py-2 pr-4 ${level === 'beginner' && beginnerTooHard ? 'text-red-600 font-semibold' : ''}`}>{row.format(metrics)}</td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            {!input && <p className="mt-2 text-gray-500">The original isn't available as text, so only the generated levels are measured.</p>}
+        </details>
+    );
+};
+
+export default ReadabilityPanel;
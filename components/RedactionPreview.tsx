@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo, useState } from 'react';
+import { findRedactions, applyRedactions, summarizeRedactions, piiKindLabels, Redaction, RedactionSummary } from '../services/piiRedaction';
+
+interface RedactionPreviewProps {
+    text: string;
+    /** The file the text was extracted from, or null for pasted text. */
+    filename: string | null;
+    /** Called with the text as it will be sent, after the user's choices are applied. */
+    onConfirm: (redactedText: string, summary: RedactionSummary) => void;
+    onCancel: () => void;
+}
+
+/**
+ * Shows the personal details found in text before it is sent to the AI. Every finding is masked
+ * by default; the user can undo single findings, by clicking them in the text or in the list, or
+ * all of them at once.
+ */
+const RedactionPreview: React.FC<RedactionPreviewProps> = ({ text, filename, onConfirm, onCancel }) => {
+    const redactions = useMemo(() => findRedactions(text), [text]);
+    const [keptIds, setKeptIds] = useState<Set<number>>(new Set());
+
+    const isMasked = (redaction: Redaction) => !keptIds.has(redaction.id);
+
+    const toggle = (id: number) => {
+        setKeptIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id); else next.add(id);
+            return next;
+        });
+    };
+
+    const handleConfirm = () => {
+        onConfirm(applyRedactions(text, redactions.filter(isMasked)), summarizeRedactions(redactions, isMasked));
+    };
+
+    const segments: React.ReactNode[] = [];
+    let position = 0;
+    redactions.forEach(redaction => {
+        segments.push(text.slice(position, redaction.start));
+        const masked = isMasked(redaction);
+        segments.push(
+            <button
+                key={redaction.id}
+                type="button"
+                onClick={() => toggle(redaction.id)}
+                title={masked ? `${redaction.original}: click to keep it` : `Click to mask as ${redaction.replacement}`}
+                className={`rounded px-1 font-semibold ${masked ? 'bg-pink-200 text-pink-800' : 'bg-yellow-100 text-yellow-900 underline decoration-dashed'}`}
+            >
+                {masked ? redaction.replacement : redaction.original}
+            </button>
+        );
+        position = redaction.end;
+    });
+    segments.push(text.slice(position));
+
+    const maskedCount = redactions.filter(isMasked).length;
+
+    return (
+        <div className="w-full space-y-4 animate-fade-in">
+            <div>
+                <h3 className="text-2xl font-bold text-pink-600">Check personal details</h3>
+                <p className="text-gray-600 mt-1">
+                    We found {redactions.length} personal detail{redactions.length === 1 ? '' : 's'} in {filename ?? 'your text'}. Highlighted details are replaced with placeholders before anything is sent to the AI. Click one to keep it as it is.
+                </p>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+                <button type="button" onClick={() => setKeptIds(new Set())} className="bg-pink-100 text-pink-700 font-bold py-1.5 px-4 rounded-xl hover:bg-pink-200">
+                    Mask all
+                </button>
+                <button type="button" onClick={() => setKeptIds(new Set(redactions.map(redaction => redaction.id)))} className="bg-white border-2 border-pink-300 text-pink-600 font-bold py-1 px-4 rounded-xl hover:bg-pink-50">
+                    Undo all
+                </button>
+            </div>
+
+            <div className="whitespace-pre-wrap break-words bg-gray-50 border border-pink-200 rounded-2xl p-4 text-gray-800 max-h-80 overflow-y-auto leading-relaxed">
+                {segments}
+            </div>
+
+            <ul className="divide-y divide-pink-50 border border-pink-100 rounded-2xl max-h-56 overflow-y-auto text-sm">
+                {redactions.map(redaction => (
+                    <li key={redaction.id} className="flex items-center justify-between gap-3 px-4 py-2">
+                        <span className="text-gray-500 w-28 shrink-0">{piiKindLabels[redaction.kind]}</span>
+                        <span className="flex-1 truncate font-mono text-gray-800">{redaction.original}</span>
+                        <span className="text-gray-500 shrink-0">{isMasked(redaction) ? `→ ${redaction.replacement}` : 'kept'}</span>
+                        <button type="button" onClick={() => toggle(redaction.id)} className="shrink-0 text-pink-600 font-semibold hover:underline w-14 text-right">
+                            {isMasked(redaction) ? 'Undo' : 'Mask'}
+                        </button>
+                    </li>
+                ))}
+            </ul>
+
+            <div className="flex flex-col sm:flex-row gap-2">
+                <button type="button" onClick={handleConfirm} className="flex-1 bg-pink-500 text-white font-bold py-3 text-lg rounded-xl transition-all shadow-md hover:bg-pink-600">
+                    Send to AI ({maskedCount} masked)
+                </button>
+                <button type="button" onClick={onCancel} className="bg-white border-2 border-pink-300 text-pink-600 font-bold py-2.5 px-6 rounded-xl hover:bg-pink-50">
+                    Cancel
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default RedactionPreview;
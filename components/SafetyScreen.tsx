@@ -0,0 +1,200 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { User } from '../types';
+import { operationLabels } from '../services/usageTracker';
+import {
+    getSafetySettings,
+    saveSafetySettings,
+    getAgeBandDefaults,
+    getModerationLog,
+    clearModerationLog,
+    ageBandLabels,
+    categoryLabels,
+    AgeBand,
+    ModerationAction,
+    ModerationCategory,
+    ModelSafetyLevel,
+    SafetySettings,
+} from '../services/contentModeration';
+import { canManageLearners } from '../services/userRoles';
+
+interface SafetyScreenProps {
+    user: User;
+    /** The accounts a teacher can pick from to manage. */
+    accounts: User[];
+    onBack: () => void;
+}
+
+const actionLabels: Record<ModerationAction, string> = {
+    allow: 'Allow',
+    rewrite: 'Hide the words',
+    block: 'Block',
+};
+
+const actionStyles: Record<Exclude<ModerationAction, 'allow'>, string> = {
+    rewrite: 'bg-yellow-100 text-yellow-800',
+    block: 'bg-red-100 text-red-800',
+};
+
+const selectClassName = "w-full mt-1 p-3 border border-pink-200 bg-gray-50 rounded-2xl text-gray-800 focus:ring-2 focus:ring-pink-400 focus:outline-none transition disabled:cursor-not-allowed disabled:text-gray-500";
+
+/**
+ * Safety settings and the log of flagged inputs and answers. Teachers can change the settings
+ * and clear the log of any account; learners only see their own. Choosing an age band fills in
+ * its recommended settings, which can then be adjusted.
+ */
+const SafetyScreen: React.FC<SafetyScreenProps> = ({ user, accounts, onBack }) => {
+    const canManage = canManageLearners(user);
+    const [accountId, setAccountId] = useState(user.id);
+    const [settings, setSettings] = useState<SafetySettings>(() => getSafetySettings(user.id));
+    const [events, setEvents] = useState(() => getModerationLog(user.id));
+    const [message, setMessage] = useState<string | null>(null);
+
+    const handleAccountChange = (id: string) => {
+        setAccountId(id);
+        setSettings(getSafetySettings(id));
+        setEvents(getModerationLog(id));
+        setMessage(null);
+    };
+
+    const updateSettings = (changes: Partial<SafetySettings>) => {
+        setSettings(prev => ({ ...prev, ...changes }));
+        setMessage(null);
+    };
+
+    const handleActionChange = (category: ModerationCategory, action: ModerationAction) => {
+        updateSettings({ actions: { ...settings.actions, [category]: action } });
+    };
+
+    const handleSave = () => {
+        if (!canManage) return;
+        saveSafetySettings(accountId, settings);
+        setMessage('Safety settings saved.');
+    };
+
+    const handleClearLog = () => {
+        if (!canManage) return;
+        clearModerationLog(accountId);
+        setEvents([]);
+    };
+
+    return (
+        <div className="w-full max-w-4xl animate-fade-in self-start mt-24">
+            <button onClick={onBack} className="flex items-center text-gray-200 font-semibold hover:text-white mb-4 transition-colors opacity-80 hover:opacity-100">
+                &larr; Back
+            </button>
+            <div className="bg-white/90 backdrop-blur-sm p-8 rounded-3xl shadow-2xl w-full border border-white/20 space-y-6">
+                <h1 className="text-4xl font-bold text-pink-500">Content Safety</h1>
+                {canManage ? (
+                    <div>
+                        <label className="block text-sm font-medium text-gray-500">Account</label>
+                        <select value={accountId} onChange={(e) => handleAccountChange(e.target.value)} className={selectClassName}>
+                            {accounts.map(account => (
+                                <option key={account.id} value={account.id}>
+                                    {account.name || account.username}{account.id === user.id ? ' (you)' : ''}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                ) : (
+                    <p className="text-sm bg-yellow-50 border border-yellow-200 text-yellow-800 p-3 rounded-xl">
+                        Only a teacher can change these settings or clear the log.
+                    </p>
+                )}
+
+                <section className="space-y-4">
+                    <div>
+                        <h2 className="text-2xl font-bold text-pink-600">Settings</h2>
+                        <p className="text-gray-600 mt-1">
+                            What learners type and what the AI answers is checked for unsuitable content. Blocked requests show a friendly message suggesting something else.
+                        </p>
+                    </div>
+                    <fieldset disabled={!canManage} className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-500">Age band</label>
+                            <select
+                                value={settings.ageBand}
+                                onChange={(e) => updateSettings(getAgeBandDefaults(e.target.value as AgeBand))}
+                                className={selectClassName}
+                            >
+                                {(Object.keys(ageBandLabels) as AgeBand[]).map(band => (
+                                    <option key={band} value={band}>{ageBandLabels[band]}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-500">AI model's own filters</label>
+                            <select
+                                value={settings.modelSafety}
+                                onChange={(e) => updateSettings({ modelSafety: e.target.value as ModelSafetyLevel })}
+                                className={selectClassName}
+                            >
+                                <option value="strict">Strict: block anything possibly harmful</option>
+                                <option value="standard">Standard: block likely harmful content</option>
+                            </select>
+                        </div>
+                        {(Object.keys(categoryLabels) as ModerationCategory[]).map(category => (
+                            <div key={category}>
+                                <label className="block text-sm font-medium text-gray-500">{categoryLabels[category]}</label>
+                                <select
+                                    value={settings.actions[category]}
+                                    onChange={(e) => handleActionChange(category, e.target.value as ModerationAction)}
+                                    className={selectClassName}
+                                >
+                                    {(Object.keys(actionLabels) as ModerationAction[]).map(action => (
+                                        <option key={action} value={action}>{actionLabels[action]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        ))}
+                    </fieldset>
+                    {canManage && (
+                        <div className="flex flex-wrap items-center gap-2">
+                            <button onClick={handleSave} className="bg-pink-500 text-white font-bold py-2 px-6 rounded-xl transition-all shadow-md hover:bg-pink-600">
+                                Save Settings
+                            </button>
+                            {message && <p className="text-green-600 text-sm">{message}</p>}
+                        </div>
+                    )}
+                </section>
+
+                <section className="space-y-3 border-t border-pink-100 pt-6">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                        <h2 className="text-2xl font-bold text-pink-600">Flagged content</h2>
+                        {canManage && (
+                            <button onClick={handleClearLog} disabled={events.length === 0} className="bg-white border-2 border-pink-300 text-pink-600 font-bold py-1.5 px-4 rounded-xl hover:bg-pink-50 disabled:opacity-50">
+                                Clear
+                            </button>
+                        )}
+                    </div>
+                    {events.length === 0 ? (
+                        <p className="text-gray-500">Nothing has been flagged on this account.</p>
+                    ) : (
+                        <ul className="space-y-2">
+                            {events.map(event => (
+                                <li key={event.id} className="bg-pink-50 p-4 rounded-2xl text-sm text-gray-700">
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${actionStyles[event.action]}`}>{event.action === 'block' ? 'Blocked' : 'Words hidden'}</span>
+                                        <span className="font-semibold">{operationLabels[event.operation]}</span>
+                                        <span className="text-gray-500">
+                                            {event.direction === 'input' ? "learner's request" : "AI's answer"} · {new Date(event.timestamp).toLocaleString()}
+                                        </span>
+                                    </div>
+                                    <p className="mt-1">
+                                        {event.categories.map(category => categoryLabels[category]).join(', ')}: <span className="font-mono">{event.terms.join(', ')}</span>
+                                    </p>
+                                    <p className="mt-1 text-gray-500 italic">"{event.excerpt}"</p>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </section>
+            </div>
+        </div>
+    );
+};
+
+export default SafetyScreen;
@@ -0,0 +1,298 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { getApiKey, hasStoredApiKey, saveApiKey, clearApiKey, maskApiKey } from '../services/apiKeyStore';
+import { validateGeminiApiKey } from '../services/geminiProvider';
+import { isAIConfigured } from '../services/llmProvider';
+import { getCacheStats, clearCache, CacheStats } from '../services/responseCache';
+import { isDevToolsEnabled } from '../services/devTools';
+import { isProxyEnabled } from '../services/proxyClient';
+import {
+    getSessionMode,
+    startRecording,
+    stopRecording,
+    startReplay,
+    stopReplay,
+    parseSessionRecording,
+    SessionRecording,
+} from '../services/sessionRecorder';
+
+interface SettingsScreenProps {
+    onBack: () => void;
+    onOpenUsage: () => void;
+    onOpenSafety: () => void;
+    onOpenDataAudit: () => void;
+    onOpenModels: () => void;
+    /** Only shown in development builds. */
+    onOpenPromptEditor: () => void;
+}
+
+function downloadRecording(recording: SessionRecording): void {
+    const blob = new Blob([JSON.stringify(recording, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ai-session-${recording.recordedAt.slice(0, 19).replace(/:/g, '-')}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
+
+const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack, onOpenUsage, onOpenSafety, onOpenDataAudit, onOpenModels, onOpenPromptEditor }) => {
+    const [apiKeyInput, setApiKeyInput] = useState('');
+    const [isValidating, setIsValidating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    // Bumped after save/clear so the status block re-reads the key store.
+    const [, setRevision] = useState(0);
+
+    const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
+    const [sessionMode, setSessionMode] = useState(getSessionMode);
+    const [sessionMessage, setSessionMessage] = useState<string | null>(null);
+
+    useEffect(() => {
+        getCacheStats().then(setCacheStats).catch(err => console.warn("Could not read cache stats:", err));
+    }, []);
+
+    const currentKey = getApiKey();
+    const isStoredOnDevice = hasStoredApiKey();
+
+    const handleSave = async () => {
+        setError(null);
+        setMessage(null);
+        setIsValidating(true);
+        try {
+            await validateGeminiApiKey(apiKeyInput);
+            saveApiKey(apiKeyInput);
+            setApiKeyInput('');
+            setMessage('API key verified and saved on this device.');
+            setRevision(r => r + 1);
+        } catch (err: any) {
+            setError(err.message || 'Could not validate the API key.');
+        } finally {
+            setIsValidating(false);
+        }
+    };
+
+    const handleClear = () => {
+        clearApiKey();
+        setError(null);
+        setMessage('The API key was removed from this device.');
+        setRevision(r => r + 1);
+    };
+
+    const handleClearCache = async () => {
+        await clearCache();
+        setCacheStats({ entries: 0, sizeBytes: 0 });
+    };
+
+    const handleStartRecording = () => {
+        startRecording();
+        setSessionMode(getSessionMode());
+        setSessionMessage('Recording. Use the app as normal, then come back here to stop and download the recording.');
+    };
+
+    const handleStopRecording = () => {
+        const recording = stopRecording();
+        setSessionMode(getSessionMode());
+        if (recording) {
+            downloadRecording(recording);
+            setSessionMessage(`Recorded ${recording.calls.length} AI call${recording.calls.length === 1 ? '' : 's'}.`);
+        }
+    };
+
+    const handleReplayFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            const recording = parseSessionRecording(await file.text());
+            startReplay(recording);
+            setSessionMode(getSessionMode());
+            setSessionMessage(`Replaying ${recording.calls.length} recorded AI calls from ${file.name}. Repeat the recorded steps to reproduce the session.`);
+        } catch (err: any) {
+            setSessionMessage(`Could not replay ${file.name}: ${err.message}`);
+        }
+    };
+
+    const handleStopReplay = () => {
+        const remaining = stopReplay();
+        setSessionMode(getSessionMode());
+        setSessionMessage(remaining ? `Replay stopped with ${remaining} recorded call${remaining === 1 ? '' : 's'} not replayed.` : 'Replay finished.');
+    };
+
+    return (
+        <div className="w-full max-w-2xl animate-fade-in self-start mt-24">
+            <button onClick={onBack} className="flex items-center text-gray-200 font-semibold hover:text-white mb-4 transition-colors opacity-80 hover:opacity-100">
+                &larr; Back
+            </button>
+            <div className="bg-white/90 backdrop-blur-sm p-8 rounded-3xl shadow-2xl w-full border border-white/20 space-y-6">
+                <h1 className="text-4xl font-bold text-pink-500">Settings</h1>
+
+                <section className="space-y-4">
+                    <div>
+                        <h2 className="text-2xl font-bold text-pink-600">AI Connection</h2>
+                        <p className="text-gray-600 mt-1">
+                            NeuroLearn and SparkIQ use Google Gemini. Enter your Gemini API key to enable AI features. The key is stored only in this browser.
+                        </p>
+                    </div>
+
+                    <div className={`p-4 rounded-xl border ${isAIConfigured() ? 'bg-green-50 border-green-200 text-green-800' : 'bg-yellow-50 border-yellow-200 text-yellow-800'}`}>
+                        {currentKey ? (
+                            <p>
+                                ✅ AI is configured using key <span className="font-mono">{maskApiKey(currentKey)}</span>
+                                {isStoredOnDevice ? ' (saved on this device).' : ' (provided by this build).'}
+                            </p>
+                        ) : isAIConfigured() ? (
+                            <p>✅ AI is running in offline demo mode. No API key is needed.</p>
+                        ) : (
+                            <p>⚠️ AI is not configured. Add an API key below to use NeuroLearn and SparkIQ.</p>
+                        )}
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-500">Gemini API Key</label>
+                        <input
+                            type="password"
+                            value={apiKeyInput}
+                            onChange={(e) => setApiKeyInput(e.target.value)}
+                            placeholder="Paste your API key here"
+                            autoComplete="off"
+                            className="w-full mt-1 p-3 border border-pink-200 bg-gray-50 rounded-2xl text-gray-800 focus:ring-2 focus:ring-pink-400 focus:outline-none transition"
+                        />
+                        {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+                        {message && <p className="text-green-600 text-sm mt-2">{message}</p>}
+                    </div>
+
+                    <div className="flex gap-2">
+                        <button onClick={handleSave} disabled={isValidating || !apiKeyInput.trim()} className="bg-pink-500 text-white font-bold py-2 px-6 rounded-xl transition-all shadow-md hover:bg-pink-600 disabled:bg-pink-300">
+                            {isValidating ? 'Validating...' : 'Validate & Save'}
+                        </button>
+                        {isStoredOnDevice && (
+                            <button onClick={handleClear} className="bg-red-50 text-red-600 font-semibold py-2 px-6 border border-red-200 rounded-xl hover:bg-red-100 transition">
+                                Clear Key
+                            </button>
+                        )}
+                    </div>
+                </section>
+
+                <section className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 border-t border-pink-100 pt-6">
+                    <div>
+                        <h2 className="text-2xl font-bold text-pink-600">AI Usage</h2>
+                        <p className="text-gray-600 mt-1">
+                            See how much each feature has used today and this month, and set limits for this account.
+                        </p>
+                    </div>
+                    <button onClick={onOpenUsage} className="shrink-0 bg-white border-2 border-pink-300 text-pink-600 font-bold py-2 px-6 rounded-xl transition-all hover:bg-pink-50">
+                        View Usage
+                    </button>
+                </section>
+
+                <section className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 border-t border-pink-100 pt-6">
+                    <div>
+                        <h2 className="text-2xl font-bold text-pink-600">AI Models</h2>
+                        <p className="text-gray-600 mt-1">
+                            Choose the model, temperature and answer length for each feature.
+                        </p>
+                    </div>
+                    <button onClick={onOpenModels} className="shrink-0 bg-white border-2 border-pink-300 text-pink-600 font-bold py-2 px-6 rounded-xl transition-all hover:bg-pink-50">
+                        Model Settings
+                    </button>
+                </section>
+
+                <section className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 border-t border-pink-100 pt-6">
+                    <div>
+                        <h2 className="text-2xl font-bold text-pink-600">Content Safety</h2>
+                        <p className="text-gray-600 mt-1">
+                            Choose what is filtered for this learner's age and review anything that was flagged.
+                        </p>
+                    </div>
+                    <button onClick={onOpenSafety} className="shrink-0 bg-white border-2 border-pink-300 text-pink-600 font-bold py-2 px-6 rounded-xl transition-all hover:bg-pink-50">
+                        Safety Settings
+                    </button>
+                </section>
+
+                <section className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 border-t border-pink-100 pt-6">
+                    <div>
+                        <h2 className="text-2xl font-bold text-pink-600">Data Sent to AI</h2>
+                        <p className="text-gray-600 mt-1">
+                            See which documents and text left this device, and which personal details were masked first.
+                        </p>
+                    </div>
+                    <button onClick={onOpenDataAudit} className="shrink-0 bg-white border-2 border-pink-300 text-pink-600 font-bold py-2 px-6 rounded-xl transition-all hover:bg-pink-50">
+                        View Log
+                    </button>
+                </section>
+
+                <section className="space-y-3 border-t border-pink-100 pt-6">
+                    <div>
+                        <h2 className="text-2xl font-bold text-pink-600">Saved AI Results</h2>
+                        <p className="text-gray-600 mt-1">
+                            Simplified texts, teaching packs and quizzes are saved on this device, so asking for the same thing again loads instantly.
+                        </p>
+                    </div>
+                    {cacheStats && (
+                        <div className="flex items-center justify-between gap-4">
+                            <p className="text-gray-700">
+                                {cacheStats.entries} saved result{cacheStats.entries === 1 ? '' : 's'} ({(cacheStats.sizeBytes / (1024 * 1024)).toFixed(1)} MB)
+                            </p>
+                            <button onClick={handleClearCache} disabled={cacheStats.entries === 0} className="bg-red-50 text-red-600 font-semibold py-2 px-6 border border-red-200 rounded-xl hover:bg-red-100 transition disabled:opacity-50">
+                                Clear Saved Results
+                            </button>
+                        </div>
+                    )}
+                </section>
+
+                <section className="space-y-3 border-t border-pink-100 pt-6">
+                    <div>
+                        <h2 className="text-2xl font-bold text-pink-600">Record an AI Session</h2>
+                        <p className="text-gray-600 mt-1">
+                            Saves every AI request and response to a file while you use the app, so a problem such as a broken quiz can be shared and reproduced exactly.
+                            Saved results are not used while recording.
+                        </p>
+                    </div>
+                    {isProxyEnabled() && <p className="text-sm text-yellow-700">AI requests go through the proxy server in this build, so they can't be recorded here.</p>}
+                    {sessionMessage && <p className="text-sm text-gray-700">{sessionMessage}</p>}
+                    <div className="flex flex-wrap gap-2">
+                        {sessionMode === 'recording' ? (
+                            <button onClick={handleStopRecording} className="bg-red-500 text-white font-bold py-2 px-6 rounded-xl transition-all shadow-md hover:bg-red-600">
+                                ⏹️ Stop & Download
+                            </button>
+                        ) : (
+                            <button onClick={handleStartRecording} disabled={sessionMode !== null || isProxyEnabled()} className="bg-pink-500 text-white font-bold py-2 px-6 rounded-xl transition-all shadow-md hover:bg-pink-600 disabled:bg-pink-300">
+                                ⏺️ Start Recording
+                            </button>
+                        )}
+                        {isDevToolsEnabled() && (sessionMode === 'replaying' ? (
+                            <button onClick={handleStopReplay} className="bg-white border-2 border-pink-300 text-pink-600 font-bold py-1.5 px-6 rounded-xl transition-all hover:bg-pink-50">
+                                Stop Replay
+                            </button>
+                        ) : (
+                            <label className={`bg-white border-2 border-pink-300 text-pink-600 font-bold py-1.5 px-6 rounded-xl transition-all ${sessionMode !== null ? 'opacity-50' : 'cursor-pointer hover:bg-pink-50'}`}>
+                                Replay a Recording
+                                <input type="file" accept="application/json,.json" onChange={handleReplayFile} disabled={sessionMode !== null} className="hidden" />
+                            </label>
+                        ))}
+                    </div>
+                </section>
+
+                {isDevToolsEnabled() && (
+                    <section className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 border-t border-pink-100 pt-6">
+                        <div>
+                            <h2 className="text-2xl font-bold text-pink-600">Developer Tools</h2>
+                            <p className="text-gray-600 mt-1">Preview prompt templates and choose which version the app uses.</p>
+                        </div>
+                        <button onClick={onOpenPromptEditor} className="shrink-0 bg-white border-2 border-pink-300 text-pink-600 font-bold py-2 px-6 rounded-xl transition-all hover:bg-pink-50">
+                            Prompt Editor
+                        </button>
+                    </section>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SettingsScreen;
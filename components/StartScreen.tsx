@@ -8,9 +8,12 @@ import React from 'react';
 interface StartScreenProps {
   onSelectNeuroLearn: () => void;
   onSelectSparkIQ: () => void;
+  /** The user's flashcards due for review and in total, or null while they are counted. */
+  flashcardCounts: { due: number; total: number } | null;
+  onReviewFlashcards: () => void;
 }
 
-const StartScreen: React.FC<StartScreenProps> = ({ onSelectNeuroLearn, onSelectSparkIQ }) => {
+const StartScreen: React.FC<StartScreenProps> = ({ onSelectNeuroLearn, onSelectSparkIQ, flashcardCounts, onReviewFlashcards }) => {
   return (
     <div className="text-center animate-fade-in flex flex-col items-center">
       <h1 className="text-7xl font-extrabold tracking-tight mb-4 text-white drop-shadow-lg" >
@@ -35,6 +38,21 @@ const StartScreen: React.FC<StartScreenProps> = ({ onSelectNeuroLearn, onSelectS
           <p className="text-gray-500">Your AI Critical Thinking & Creativity Coach. Solve challenges and grow your skills.</p>
         </div>
       </div>
+      {flashcardCounts && flashcardCounts.total > 0 && (
+        <button
+          onClick={onReviewFlashcards}
+          className="mt-8 bg-white/90 backdrop-blur-sm px-6 py-3 rounded-2xl shadow-lg border-2 border-white/20 hover:border-pink-400 transition-all flex items-center gap-3"
+        >
+          <span className={`min-w-[2rem] px-2 py-0.5 rounded-full font-bold ${flashcardCounts.due > 0 ? 'bg-pink-500 text-white' : 'bg-gray-200 text-gray-600'}`}>
+            {flashcardCounts.due}
+          </span>
+          <span className="font-semibold text-gray-700">
+            {flashcardCounts.due > 0
+              ? `Flashcard${flashcardCounts.due === 1 ? '' : 's'} due for review`
+              : 'No flashcards due. Browse your decks'}
+          </span>
+        </button>
+      )}
     </div>
   );
 };
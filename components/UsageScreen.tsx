@@ -0,0 +1,255 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useMemo } from 'react';
+import { User } from '../types';
+import type { AIOperation } from '../services/llmProvider';
+import {
+    getUsageLog,
+    summarizeUsage,
+    estimateCost,
+    getUsageBudget,
+    saveUsageBudget,
+    operationLabels,
+    emptyTotals,
+    toDayKey,
+    UsageBudget,
+    UsagePeriod,
+    UsageTotals,
+} from '../services/usageTracker';
+import { canManageLearners } from '../services/userRoles';
+
+interface UsageScreenProps {
+    user: User;
+    /** The accounts a teacher can pick from to manage. */
+    accounts: User[];
+    onBack: () => void;
+}
+
+type BudgetLimit = 'dailyTokens' | 'monthlyTokens' | 'dailyImages' | 'monthlyImages';
+
+const budgetFields: { key: BudgetLimit; label: string }[] = [
+    { key: 'dailyTokens', label: 'Tokens per day' },
+    { key: 'monthlyTokens', label: 'Tokens per month' },
+    { key: 'dailyImages', label: 'Images per day' },
+    { key: 'monthlyImages', label: 'Images per month' },
+];
+
+const inputClassName = "w-full mt-1 p-3 border border-pink-200 bg-gray-50 rounded-2xl text-gray-800 focus:ring-2 focus:ring-pink-400 focus:outline-none transition disabled:cursor-not-allowed disabled:text-gray-500";
+
+const formatNumber = (value: number) => value.toLocaleString();
+const formatCost = (totals: UsageTotals) => `$${estimateCost(totals).toFixed(estimateCost(totals) < 1 ? 3 : 2)}`;
+
+const StatCard: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+    <div className="bg-pink-50 p-4 rounded-2xl text-center">
+        <p className="text-sm text-gray-500">{label}</p>
+        <p className="text-2xl font-bold text-pink-600">{value}</p>
+    </div>
+);
+
+/**
+ * AI usage and its estimated cost by feature and over time, and the account's budget. Teachers can
+ * see any account and change its budget; learners only see their own.
+ */
+const UsageScreen: React.FC<UsageScreenProps> = ({ user, accounts, onBack }) => {
+    const canManage = canManageLearners(user);
+    const [period, setPeriod] = useState<UsagePeriod>('day');
+    const [accountId, setAccountId] = useState(user.id);
+    const [log, setLog] = useState(() => getUsageLog(user.id));
+    const [budget, setBudget] = useState<UsageBudget>(() => getUsageBudget(user.id));
+    const [budgetMessage, setBudgetMessage] = useState<string | null>(null);
+
+    const handleAccountChange = (id: string) => {
+        setAccountId(id);
+        setLog(getUsageLog(id));
+        setBudget(getUsageBudget(id));
+        setBudgetMessage(null);
+    };
+
+    const summary = useMemo(() => summarizeUsage(log, period), [log, period]);
+    const operations = (Object.keys(summary.byOperation) as AIOperation[])
+        .sort((a, b) => summary.byOperation[b]!.totalTokens - summary.byOperation[a]!.totalTokens);
+
+    // Daily totals for the last two weeks, or monthly totals for the last six months.
+    const history = useMemo(() => {
+        const rows: { label: string; totals: UsageTotals }[] = [];
+        const count = period === 'day' ? 14 : 6;
+        for (let i = 0; i < count; i++) {
+            const date = new Date();
+            if (period === 'day') {
+                date.setDate(date.getDate() - i);
+            } else {
+                date.setDate(1);
+                date.setMonth(date.getMonth() - i);
+            }
+            const label = period === 'day' ? toDayKey(date) : date.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+            rows.push({ label, totals: summarizeUsage(log, period, date).total });
+        }
+        return rows;
+    }, [log, period]);
+    const maxHistoryTokens = Math.max(1, ...history.map(row => row.totals.totalTokens));
+
+    const handleBudgetChange = (key: BudgetLimit, value: string) => {
+        const parsed = parseInt(value, 10);
+        setBudget(prev => ({ ...prev, [key]: value.trim() === '' || isNaN(parsed) ? null : Math.max(0, parsed) }));
+        setBudgetMessage(null);
+    };
+
+    const handleSaveBudget = () => {
+        if (!canManage) return;
+        saveUsageBudget(accountId, budget);
+        setBudgetMessage('Budget saved.');
+    };
+
+    return (
+        <div className="w-full max-w-4xl animate-fade-in self-start mt-24">
+            <button onClick={onBack} className="flex items-center text-gray-200 font-semibold hover:text-white mb-4 transition-colors opacity-80 hover:opacity-100">
+                &larr; Back
+            </button>
+            <div className="bg-white/90 backdrop-blur-sm p-8 rounded-3xl shadow-2xl w-full border border-white/20 space-y-6">
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                    <h1 className="text-4xl font-bold text-pink-500">AI Usage</h1>
+                    <div className="flex bg-pink-100 rounded-xl p-1">
+                        {(['day', 'month'] as UsagePeriod[]).map(p => (
+                            <button
+                                key={p}
+                                onClick={() => setPeriod(p)}
+                                className={`px-4 py-1 rounded-lg font-semibold transition ${period === p ? 'bg-pink-500 text-white shadow' : 'text-pink-600'}`}
+                            >
+                                {p === 'day' ? 'Today' : 'This month'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {canManage && (
+                    <div>
+                        <label className="block text-sm font-medium text-gray-500">Account</label>
+                        <select value={accountId} onChange={(e) => handleAccountChange(e.target.value)} className={inputClassName}>
+                            {accounts.map(account => (
+                                <option key={account.id} value={account.id}>
+                                    {account.name || account.username}{account.id === user.id ? ' (you)' : ''}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <StatCard label="AI calls" value={formatNumber(summary.total.calls)} />
+                    <StatCard label="Tokens" value={formatNumber(summary.total.totalTokens)} />
+                    <StatCard label="Images generated" value={formatNumber(summary.total.images)} />
+                    <StatCard label="Estimated cost" value={formatCost(summary.total)} />
+                </div>
+
+                <section>
+                    <h2 className="text-2xl font-bold text-pink-600 mb-2">By feature</h2>
+                    {operations.length === 0 ? (
+                        <p className="text-gray-500">No AI features used {period === 'day' ? 'today' : 'this month'} yet.</p>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-left text-gray-700">
+                                <thead>
+                                    <tr className="text-sm text-gray-500 border-b border-pink-100">
+                                        <th className="py-2">Feature</th>
+                                        <th className="py-2 text-right">Calls</th>
+                                        <th className="py-2 text-right">Prompt tokens</th>
+                                        <th className="py-2 text-right">Output tokens</th>
+                                        <th className="py-2 text-right">Images</th>
+                                        <th className="py-2 text-right">Est. cost</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {operations.map(operation => {
+                                        const totals = summary.byOperation[operation] ?? emptyTotals();
+                                        return (
+                                            <tr key={operation} className="border-b border-pink-50">
+                                                <td className="py-2 font-semibold">{operationLabels[operation]}</td>
+                                                <td className="py-2 text-right">{formatNumber(totals.calls)}</td>
+                                                <td className="py-2 text-right">{formatNumber(totals.promptTokens)}</td>
+                                                <td className="py-2 text-right">{formatNumber(totals.outputTokens)}</td>
+                                                <td className="py-2 text-right">{formatNumber(totals.images)}</td>
+                                                <td className="py-2 text-right">{formatCost(totals)}</td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </section>
+
+                <section>
+                    <h2 className="text-2xl font-bold text-pink-600 mb-2">{period === 'day' ? 'Daily totals' : 'Monthly totals'}</h2>
+                    <div className="space-y-1">
+                        {history.map(row => (
+                            <div key={row.label} className="flex items-center gap-3 text-sm">
+                                <span className="w-32 shrink-0 text-gray-600">{row.label}</span>
+                                <div className="flex-1 bg-pink-50 rounded-full h-3 overflow-hidden">
+                                    <div className="bg-pink-400 h-3 rounded-full" style={{ width: `${(row.totals.totalTokens / maxHistoryTokens) * 100}%` }} />
+                                </div>
+                                <span className="w-40 shrink-0 text-right text-gray-700">
+                                    {formatNumber(row.totals.totalTokens)} tokens · {row.totals.images} img
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                </section>
+
+                <section className="space-y-4 border-t border-pink-100 pt-6">
+                    <div>
+                        <h2 className="text-2xl font-bold text-pink-600">Budget</h2>
+                        <p className="text-gray-600 mt-1">
+                            Limit how much AI this account can use. Leave a field empty for no limit. Saved results that load instantly don't count.
+                        </p>
+                        {!canManage && (
+                            <p className="text-sm bg-yellow-50 border border-yellow-200 text-yellow-800 p-3 rounded-xl mt-3">
+                                Only a teacher can change this budget.
+                            </p>
+                        )}
+                    </div>
+                    <fieldset disabled={!canManage} className="space-y-4">
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            {budgetFields.map(({ key, label }) => (
+                                <div key={key}>
+                                    <label className="block text-sm font-medium text-gray-500">{label}</label>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        value={budget[key] ?? ''}
+                                        onChange={(e) => handleBudgetChange(key, e.target.value)}
+                                        placeholder="No limit"
+                                        className={inputClassName}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-500">When a token limit is reached</label>
+                            <select
+                                value={budget.whenExceeded}
+                                onChange={(e) => { setBudget(prev => ({ ...prev, whenExceeded: e.target.value as UsageBudget['whenExceeded'] })); setBudgetMessage(null); }}
+                                className={inputClassName}
+                            >
+                                <option value="degrade">Keep light features (quizzes, challenges, feedback) and stop the rest</option>
+                                <option value="block">Stop all AI features</option>
+                            </select>
+                            <p className="text-sm text-gray-500 mt-1">Once any limit is reached, teaching packs use offline illustrations instead of generating new images.</p>
+                        </div>
+                    </fieldset>
+                    {canManage && (
+                        <div className="flex flex-wrap items-center gap-2">
+                            <button onClick={handleSaveBudget} className="bg-pink-500 text-white font-bold py-2 px-6 rounded-xl transition-all shadow-md hover:bg-pink-600">
+                                Save Budget
+                            </button>
+                            {budgetMessage && <p className="text-green-600 text-sm">{budgetMessage}</p>}
+                        </div>
+                    )}
+                </section>
+            </div>
+        </div>
+    );
+};
+
+export default UsageScreen;
@@ -7,6 +7,12 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 // FIX: Using named import for App component to resolve module export issue.
 import { App } from './App';
+import { configurePromptDefaults } from './services/promptRegistry';
+
+// Without the proxy server, prompts are rendered here, so they take the same setting from the build
+if (process.env.AI_LEARNER_PROFILE) {
+  configurePromptDefaults({ learnerProfile: process.env.AI_LEARNER_PROFILE });
+}
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Entry point for the AI proxy server.
+ *
+ * Environment:
+ *   PORT                    Port to listen on (default 8787).
+ *   GEMINI_API_KEY          Gemini key, kept server-side.
+ *   AI_PROVIDER=fixture     Serve canned responses instead of calling Gemini (for local testing).
+ *   RATE_LIMIT_PER_MINUTE   Requests allowed per user per minute (default 30).
+ *   RATE_LIMIT_PER_ADDRESS_PER_MINUTE
+ *                           Requests allowed per client address per minute, across all of its
+ *                           users (default ten times RATE_LIMIT_PER_MINUTE).
+ *   ALLOWED_ORIGIN          Value for Access-Control-Allow-Origin (default *).
+ *   AI_MAX_ATTEMPTS         Attempts per model call for transient failures (default 3).
+ *   AI_RETRY_BASE_DELAY_MS  First backoff delay, doubled on each retry (default 1000).
+ *   AI_TIMEOUT_MS           Time limit for a single model call (default 90000).
+ *   AI_IMAGE_CONCURRENCY    Teaching pack images generated at the same time (default 2).
+ *   AI_REPLAY_FILE          Answer from a recorded AI session instead of a model (for automated tests).
+ *   AI_GENERATION_SETTINGS  JSON of per-operation model settings, e.g. {"getQuizFeedback":{"model":"gemini-2.5-flash"}}.
+ *   AI_LEARNER_PROFILE      Who prompts pitch challenges at (default "a high school student").
+ */
+
+import { createProxyServer } from './proxyServer';
+import { createGeminiProvider } from '../services/geminiProvider';
+import { createFixtureProvider } from '../services/fixtureProvider';
+import { configureRetryPolicy, DEFAULT_RETRY_POLICY } from '../services/aiRetry';
+import { configureImageQueue } from '../services/imageQueue';
+import { createReplayProvider, parseSessionRecording } from '../services/sessionRecorder';
+import { configureModeration } from '../services/contentModeration';
+import { configureGenerationSettings } from '../services/generationSettings';
+import { configurePromptDefaults } from '../services/promptRegistry';
+import { readFileSync } from 'node:fs';
+
+const port = Number(process.env.PORT) || 8787;
+
+const provider = process.env.AI_REPLAY_FILE
+    ? createReplayProvider(parseSessionRecording(readFileSync(process.env.AI_REPLAY_FILE, 'utf8')))
+    : process.env.AI_PROVIDER === 'fixture'
+        ? createFixtureProvider()
+        : createGeminiProvider({ resolveApiKey: () => process.env.GEMINI_API_KEY || null });
+
+configureRetryPolicy({
+    maxAttempts: Number(process.env.AI_MAX_ATTEMPTS) || DEFAULT_RETRY_POLICY.maxAttempts,
+    baseDelayMs: Number(process.env.AI_RETRY_BASE_DELAY_MS) || DEFAULT_RETRY_POLICY.baseDelayMs,
+    timeoutMs: Number(process.env.AI_TIMEOUT_MS) || DEFAULT_RETRY_POLICY.timeoutMs,
+});
+
+if (process.env.AI_IMAGE_CONCURRENCY) {
+    configureImageQueue({ concurrency: Number(process.env.AI_IMAGE_CONCURRENCY) });
+}
+
+if (process.env.AI_GENERATION_SETTINGS) {
+    configureGenerationSettings(JSON.parse(process.env.AI_GENERATION_SETTINGS));
+}
+
+if (process.env.AI_LEARNER_PROFILE) {
+    configurePromptDefaults({ learnerProfile: process.env.AI_LEARNER_PROFILE });
+}
+
+// The app moderates requests and answers with the learner's own safety settings, which the server can't see.
+configureModeration({ enabled: false });
+
+const server = createProxyServer({
+    provider,
+    rateLimit: {
+        limit: Number(process.env.RATE_LIMIT_PER_MINUTE) || 30,
+        addressLimit: Number(process.env.RATE_LIMIT_PER_ADDRESS_PER_MINUTE) || undefined,
+        windowMs: 60_000,
+    },
+    allowedOrigin: process.env.ALLOWED_ORIGIN,
+});
+
+server.listen(port, () => {
+    console.log(`AI proxy listening on http://localhost:${port} (provider: ${provider.name})`);
+});
@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import * as geminiService from '../services/geminiService';
+import { setProvider, LLMProvider, AIOperation } from '../services/llmProvider';
+import { AIServiceError, AIErrorKind } from '../services/aiErrors';
+import { createRateLimiter } from './rateLimiter';
+
+interface ProxyServerOptions {
+    /** The model backend; pass the fixture provider to run against a local stub model. */
+    provider: LLMProvider;
+    /**
+     * Requests allowed per user within each window. Every client address also gets `addressLimit`
+     * requests (default ten times `limit`), so a browser can't dodge the limit by changing its user id.
+     */
+    rateLimit: { limit: number; addressLimit?: number; windowMs: number };
+    allowedOrigin?: string;
+    maxBodyBytes?: number;
+    log?: (entry: RequestLogEntry) => void;
+}
+
+export interface RequestLogEntry {
+    time: string;
+    method: string;
+    path: string;
+    /** The user the browser says it is acting for. Not authenticated, so only used for logging and per-user rate limits. */
+    userId: string;
+    clientAddress: string;
+    status: number;
+    durationMs: number;
+    error?: string;
+}
+
+/** An operation callable over HTTP with the positional arguments sent by the browser. */
+interface ProxyOperation {
+    /** How many arguments the browser sends, i.e. every parameter except the trailing call options. */
+    arity: number;
+    run: (args: unknown[], options: geminiService.AICallOptions) => Promise<unknown>;
+}
+
+/**
+ * Adapts a geminiService operation for the proxy. `arity` is checked against the operation's
+ * parameters at compile time, so the table can't drift from the service signatures.
+ */
+function proxied<Args extends unknown[]>(
+    arity: Args['length'],
+    operation: (...args: [...Args, geminiService.AICallOptions]) => Promise<unknown>,
+): ProxyOperation {
+    return { arity, run: (args, options) => operation(...(args as Args), options) };
+}
+
+/**
+ * The geminiService operations exposed over HTTP, one endpoint each: POST /api/ai/<operation>.
+ */
+const operations: Record<AIOperation, ProxyOperation> = {
+    generateSimplifiedContent: proxied(1, geminiService.generateSimplifiedContent),
+    translateContent: proxied(2, geminiService.translateContent),
+    generateExpandedContent: proxied(2, geminiService.generateExpandedContent),
+    generateDiagram: proxied(3, geminiService.generateDiagram),
+    generateComprehensionTest: proxied(2, geminiService.generateComprehensionTest),
+    evaluateComprehensionTest: proxied(2, geminiService.evaluateComprehensionTest),
+    generateAnalyticsInsights: proxied(1, geminiService.generateAnalyticsInsights),
+    getThinkBotChallenge: proxied(2, geminiService.getThinkBotChallenge),
+    generateCustomThinkBotChallenge: proxied(2, geminiService.generateCustomThinkBotChallenge),
+    getOddOneOutChallenge: proxied(0, geminiService.getOddOneOutChallenge),
+    getImagePuzzleChallenge: proxied(0, geminiService.getImagePuzzleChallenge),
+    getListeningPracticeChallenge: proxied(0, geminiService.getListeningPracticeChallenge),
+    evaluateSolution: proxied(2, geminiService.evaluateSolution),
+    generateQuiz: proxied(1, geminiService.generateQuiz),
+    getQuizFeedback: proxied(3, geminiService.getQuizFeedback),
+    getListeningPracticeFeedback: proxied(3, geminiService.getListeningPracticeFeedback),
+};
+
+/**
+ * HTTP status for each typed AI error. The kind is also sent in the body so the client can
+ * rebuild the same error class.
+ */
+const errorStatuses: Record<AIErrorKind, number> = {
+    'not-configured': 503,
+    'quota': 429,
+    'rate-limit': 429,
+    'safety-blocked': 422,
+    'network': 502,
+    'invalid-response': 502,
+    'timeout': 504,
+    'cancelled': 499,
+    'budget': 429,
+    'moderated': 422,
+    'unknown': 500,
+};
+
+class HttpError extends Error {
+    status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.status = status;
+    }
+}
+
+function readJsonBody(req: IncomingMessage, maxBytes: number): Promise<any> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > maxBytes) {
+                reject(new HttpError(413, 'Request body is too large.'));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            try {
+                resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+            } catch {
+                reject(new HttpError(400, 'Request body must be valid JSON.'));
+            }
+        });
+        req.on('error', reject);
+    });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+/**
+ * Creates an HTTP server that runs geminiService operations on behalf of the browser,
+ * so the model API key never leaves the server.
+ */
+export function createProxyServer({
+    provider,
+    rateLimit,
+    allowedOrigin = '*',
+    maxBodyBytes = 25 * 1024 * 1024,
+    log = entry => console.log(JSON.stringify(entry)),
+}: ProxyServerOptions): Server {
+    setProvider(provider);
+    const userLimiter = createRateLimiter(rateLimit);
+    const addressLimiter = createRateLimiter({ limit: rateLimit.addressLimit ?? rateLimit.limit * 10, windowMs: rateLimit.windowMs });
+
+    return createServer(async (req, res) => {
+        const startedAt = Date.now();
+        const path = (req.url ?? '/').split('?')[0];
+        const userId = (req.headers['x-user-id'] as string | undefined) || 'anonymous';
+        // The user id header can be set to anything, so users are rate-limited per connection address too
+        const clientAddress = req.socket.remoteAddress ?? 'unknown';
+        let errorMessage: string | undefined;
+
+        res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-User-Id');
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+        res.on('finish', () => log({
+            time: new Date(startedAt).toISOString(),
+            method: req.method ?? 'GET',
+            path,
+            userId,
+            clientAddress,
+            status: res.statusCode,
+            durationMs: Date.now() - startedAt,
+            ...(errorMessage && { error: errorMessage }),
+        }));
+
+        try {
+            if (req.method === 'OPTIONS') {
+                res.writeHead(204).end();
+                return;
+            }
+            if (req.method === 'GET' && path === '/health') {
+                sendJson(res, 200, { status: 'ok', provider: provider.name });
+                return;
+            }
+
+            const match = path.match(/^\/api\/ai\/(\w+)$/);
+            const operation = match && Object.prototype.hasOwnProperty.call(operations, match[1])
+                ? operations[match[1] as AIOperation]
+                : null;
+            if (!operation) {
+                throw new HttpError(404, 'Unknown endpoint.');
+            }
+            if (req.method !== 'POST') {
+                throw new HttpError(405, 'Use POST for AI operations.');
+            }
+
+            const addressDecision = addressLimiter.check(clientAddress);
+            const userDecision = addressDecision.allowed ? userLimiter.check(`${clientAddress}:${userId}`) : addressDecision;
+            res.setHeader('X-RateLimit-Remaining', String(Math.min(addressDecision.remaining, userDecision.remaining)));
+            if (!userDecision.allowed) {
+                res.setHeader('Retry-After', String(userDecision.retryAfterSeconds));
+                throw new HttpError(429, 'Rate limit exceeded. Please slow down.');
+            }
+
+            const body = await readJsonBody(req, maxBodyBytes);
+            if (!Array.isArray(body.args)) {
+                throw new HttpError(400, 'Request body must contain an "args" array.');
+            }
+            // Extra arguments would otherwise shift into the options parameter
+            if (body.args.length !== operation.arity) {
+                throw new HttpError(400, `Expected ${operation.arity} argument${operation.arity === 1 ? '' : 's'}, got ${body.args.length}.`);
+            }
+
+            // Stop the model calls if the browser goes away, e.g. the user cancelled the request.
+            const abortController = new AbortController();
+            res.on('close', () => {
+                if (!res.writableEnded) abortController.abort();
+            });
+            const result = await operation.run(body.args, { signal: abortController.signal });
+            sendJson(res, 200, { result });
+        } catch (error: any) {
+            errorMessage = error?.message ?? String(error);
+            if (error instanceof AIServiceError) {
+                sendJson(res, errorStatuses[error.kind], { error: errorMessage, kind: error.kind });
+                return;
+            }
+            const status = error instanceof HttpError ? error.status : 500;
+            sendJson(res, status, { error: errorMessage });
+        }
+    });
+}
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+interface RateLimiterOptions {
+    /** Maximum requests allowed per key within one window. */
+    limit: number;
+    windowMs: number;
+}
+
+export interface RateLimitDecision {
+    allowed: boolean;
+    remaining: number;
+    retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+    check(key: string, now?: number): RateLimitDecision;
+}
+
+/**
+ * Creates an in-memory fixed-window rate limiter keyed by client address or user. Expired windows
+ * are swept once per window length, so clients that stop calling don't stay in memory.
+ */
+export function createRateLimiter({ limit, windowMs }: RateLimiterOptions): RateLimiter {
+    const windows = new Map<string, { start: number; count: number }>();
+    let lastSweep = Date.now();
+
+    const sweep = (now: number) => {
+        for (const [key, window] of windows) {
+            if (now - window.start >= windowMs) windows.delete(key);
+        }
+        lastSweep = now;
+    };
+
+    return {
+        check(key: string, now = Date.now()): RateLimitDecision {
+            if (now - lastSweep >= windowMs) sweep(now);
+            let window = windows.get(key);
+            if (!window || now - window.start >= windowMs) {
+                window = { start: now, count: 0 };
+                windows.set(key, window);
+            }
+
+            if (window.count >= limit) {
+                return {
+                    allowed: false,
+                    remaining: 0,
+                    retryAfterSeconds: Math.ceil((window.start + windowMs - now) / 1000),
+                };
+            }
+
+            window.count++;
+            return { allowed: true, remaining: limit - window.count, retryAfterSeconds: 0 };
+        },
+    };
+}
@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AIOperation, TokenUsage, TextGenerationRequest, ImageGenerationRequest, LLMPart } from './llmProvider';
+import type { PromptRef } from './promptRegistry';
+import { AIServiceError, AIErrorKind } from './aiErrors';
+import { parseAndValidate, ValidationIssue } from './responseValidator';
+
+/**
+ * An in-memory log of the most recent model calls made from this page: what was sent, to which
+ * model, what came back and whether it parsed. Powers the prompt editor and the call inspector.
+ * Responses are logged before moderation, so the inspector is only offered to teachers and in
+ * development builds.
+ */
+
+/** A logged request, without its abort signal. */
+export type AICallRequest = Omit<TextGenerationRequest, 'signal'> | Omit<ImageGenerationRequest, 'signal'>;
+
+/** Whether a structured response parsed and matched its schema. */
+export interface AICallParseResult {
+    valid: boolean;
+    issues: ValidationIssue[];
+}
+
+export interface AICallRecord {
+    id: number;
+    operation: AIOperation;
+    /** Proxy calls are sent to the AI proxy server, which renders the prompts itself. */
+    kind: 'text' | 'image' | 'proxy';
+    /** Template versions the request was rendered from, e.g. system instruction and user prompt. */
+    prompts: PromptRef[];
+    request: AICallRequest;
+    /** Provider and model that served the call, e.g. "gemini/gemini-2.5-flash". */
+    model: string;
+    startedAt: number;
+    durationMs?: number;
+    status: 'pending' | 'success' | 'error';
+    errorKind?: AIErrorKind;
+    errorMessage?: string;
+    usage?: TokenUsage;
+    /** The raw response text, or a short description for images. */
+    responseText?: string;
+    /** Set for requests with a response schema. */
+    parse?: AICallParseResult;
+    /** The call this one re-sent, when replayed from the call inspector. */
+    replayOf?: number;
+}
+
+const MAX_RECORDS = 200;
+
+let records: AICallRecord[] = [];
+let nextId = 1;
+const listeners = new Set<(records: AICallRecord[]) => void>();
+
+function notify(): void {
+    listeners.forEach(listener => listener(records));
+}
+
+function update(id: number, changes: Partial<AICallRecord>): void {
+    records = records.map(record => (record.id === id ? { ...record, ...changes } : record));
+    notify();
+}
+
+/** The logged calls, newest first. */
+export function getCallLog(): AICallRecord[] {
+    return records;
+}
+
+/** Calls `listener` whenever the log changes. Returns an unsubscribe function. */
+export function subscribeToCallLog(listener: (records: AICallRecord[]) => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+export function clearCallLog(): void {
+    records = [];
+    notify();
+}
+
+function describeImage(mimeType: string, base64Data: string): string {
+    return `[${mimeType} image, ${Math.round((base64Data.length * 3) / 4 / 1024)} KB]`;
+}
+
+/**
+ * Runs a model call and logs its outcome, duration, token usage and response. Structured
+ * responses are checked against the request's schema so the log shows whether they parsed.
+ */
+export async function trackAICall<T extends { usage?: TokenUsage; text?: string; mimeType?: string; data?: string }>(
+    kind: AICallRecord['kind'],
+    request: TextGenerationRequest | ImageGenerationRequest,
+    model: string,
+    call: () => Promise<T>,
+): Promise<T> {
+    const { signal: _signal, ...loggedRequest } = request;
+    const record: AICallRecord = {
+        id: nextId++,
+        operation: request.operation,
+        kind,
+        prompts: request.prompts ?? [],
+        request: loggedRequest,
+        model,
+        startedAt: Date.now(),
+        status: 'pending',
+        replayOf: request.replayOf,
+    };
+    records = [record, ...records].slice(0, MAX_RECORDS);
+    notify();
+
+    try {
+        const result = await call();
+        const responseText = result.text ?? (result.mimeType && result.data !== undefined ? describeImage(result.mimeType, result.data) : undefined);
+        const schema = 'responseSchema' in request ? request.responseSchema : undefined;
+        const issues = schema && result.text !== undefined ? parseAndValidate(result.text, schema).issues : undefined;
+        update(record.id, {
+            status: 'success',
+            durationMs: Date.now() - record.startedAt,
+            usage: result.usage,
+            responseText,
+            ...(issues && { parse: { valid: issues.length === 0, issues } }),
+        });
+        return result;
+    } catch (error) {
+        const errorKind = error instanceof AIServiceError ? error.kind : 'unknown';
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        update(record.id, { status: 'error', durationMs: Date.now() - record.startedAt, errorKind, errorMessage });
+        throw error;
+    }
+}
+
+/** A copy of a request that is safe to copy or export: attached file data is replaced by its size. */
+export function summarizeRequest(request: AICallRequest): AICallRequest {
+    if (!('contents' in request) || typeof request.contents === 'string') return request;
+    return {
+        ...request,
+        contents: request.contents.map((part): LLMPart => 'inlineData' in part
+            ? { inlineData: { mimeType: part.inlineData.mimeType, data: `[${part.inlineData.data.length} base64 characters]` } }
+            : part),
+    };
+}
+
+/** The whole log as JSON, oldest first, for download. */
+export function exportCallLog(): string {
+    return JSON.stringify([...records].reverse().map(record => ({ ...record, request: summarizeRequest(record.request) })), null, 2);
+}
@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ValidationIssue } from './responseValidator';
+
+export type AIErrorKind =
+    | 'not-configured'
+    | 'quota'
+    | 'rate-limit'
+    | 'safety-blocked'
+    | 'network'
+    | 'invalid-response'
+    | 'timeout'
+    | 'cancelled'
+    | 'budget'
+    | 'moderated'
+    | 'unknown';
+
+/**
+ * Base class for every failure surfaced by the AI services. Screens switch on `kind` to show
+ * specific guidance; `retryable` marks transient failures that are retried with backoff.
+ */
+export class AIServiceError extends Error {
+    readonly kind: AIErrorKind;
+    readonly retryable: boolean;
+
+    constructor(kind: AIErrorKind, message: string, retryable = false) {
+        super(message);
+        this.name = 'AIServiceError';
+        this.kind = kind;
+        this.retryable = retryable;
+    }
+}
+
+/**
+ * Thrown when an AI feature is used before an API key has been configured.
+ * Screens catch this to show the "AI not configured" state instead of a generic error.
+ */
+export class AINotConfiguredError extends AIServiceError {
+    constructor(message = "AI is not configured. Add a Gemini API key in Settings to use this feature.") {
+        super('not-configured', message);
+        this.name = 'AINotConfiguredError';
+    }
+}
+
+/** The API key has used up its quota; retrying will not help until it resets. */
+export class QuotaExceededError extends AIServiceError {
+    constructor(message = "The AI usage quota for this API key has been used up.") {
+        super('quota', message);
+        this.name = 'QuotaExceededError';
+    }
+}
+
+/** Too many requests in a short time. `retryAfterSeconds` is set when the server says how long to wait. */
+export class RateLimitError extends AIServiceError {
+    readonly retryAfterSeconds?: number;
+
+    constructor(message = "Too many AI requests in a short time.", retryAfterSeconds?: number) {
+        super('rate-limit', message, true);
+        this.name = 'RateLimitError';
+        this.retryAfterSeconds = retryAfterSeconds;
+    }
+}
+
+/** The model refused the request or withheld its answer on safety grounds. */
+export class SafetyBlockedError extends AIServiceError {
+    constructor(message = "The AI declined to answer this request for safety reasons.") {
+        super('safety-blocked', message);
+        this.name = 'SafetyBlockedError';
+    }
+}
+
+/** The AI service could not be reached, or was temporarily unavailable. */
+export class NetworkError extends AIServiceError {
+    constructor(message = "Could not reach the AI service.") {
+        super('network', message, true);
+        this.name = 'NetworkError';
+    }
+}
+
+/** The AI service did not answer within the configured time limit. */
+export class AITimeoutError extends AIServiceError {
+    constructor(message = "The AI took too long to respond.") {
+        super('timeout', message, true);
+        this.name = 'AITimeoutError';
+    }
+}
+
+/** The request was aborted by the caller, e.g. the user pressed Cancel or left the screen. */
+export class AICancelledError extends AIServiceError {
+    constructor(message = "The AI request was cancelled.") {
+        super('cancelled', message);
+        this.name = 'AICancelledError';
+    }
+}
+
+/** The signed-in user has reached the AI usage budget set for their account. */
+export class BudgetExceededError extends AIServiceError {
+    constructor(message = "You have reached your AI usage budget.") {
+        super('budget', message);
+        this.name = 'BudgetExceededError';
+    }
+}
+
+/**
+ * The local content filter blocked the learner's input or the AI's answer. The message is a
+ * friendly redirect meant to be shown to the learner as is.
+ */
+export class ContentModeratedError extends AIServiceError {
+    constructor(message = "That content isn't available here. Let's pick a different topic.") {
+        super('moderated', message);
+        this.name = 'ContentModeratedError';
+    }
+}
+
+/**
+ * Thrown when the model's structured response still fails schema validation after a repair attempt.
+ * `issues` lists every invalid field so the failure can be reported precisely.
+ */
+export class InvalidResponseError extends AIServiceError {
+    readonly operation: string;
+    readonly issues: ValidationIssue[];
+
+    constructor(operation: string, issues: ValidationIssue[]) {
+        super('invalid-response', `The AI returned an incomplete or malformed answer (${issues.length} problem${issues.length === 1 ? '' : 's'}, e.g. ${issues[0]?.path} ${issues[0]?.message}). Please try again.`);
+        this.name = 'InvalidResponseError';
+        this.operation = operation;
+        this.issues = issues;
+    }
+}
+
+/**
+ * Rebuilds a typed error from its serialized kind, e.g. when it crossed the proxy as JSON.
+ */
+export function createAIError(kind: AIErrorKind, message: string): AIServiceError {
+    switch (kind) {
+        case 'not-configured': return new AINotConfiguredError(message);
+        case 'quota': return new QuotaExceededError(message);
+        case 'rate-limit': return new RateLimitError(message);
+        case 'safety-blocked': return new SafetyBlockedError(message);
+        case 'network': return new NetworkError(message);
+        case 'timeout': return new AITimeoutError(message);
+        case 'cancelled': return new AICancelledError(message);
+        case 'budget': return new BudgetExceededError(message);
+        case 'moderated': return new ContentModeratedError(message);
+        default: return new AIServiceError(kind, message);
+    }
+}
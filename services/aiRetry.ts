@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AIServiceError, AICancelledError, AITimeoutError, RateLimitError } from './aiErrors';
+
+export interface RetryPolicy {
+    /** Total attempts including the first one. */
+    maxAttempts: number;
+    /** Delay before the first retry; doubled for each further retry. */
+    baseDelayMs: number;
+    maxDelayMs: number;
+    /** Per-attempt time limit, after which the attempt fails with an AITimeoutError. */
+    timeoutMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 8000,
+    timeoutMs: 90_000,
+};
+
+let retryPolicy: RetryPolicy = { ...DEFAULT_RETRY_POLICY };
+
+export function getRetryPolicy(): RetryPolicy {
+    return retryPolicy;
+}
+
+/** Overrides parts of the retry policy used by every AI call. */
+export function configureRetryPolicy(overrides: Partial<RetryPolicy>): void {
+    retryPolicy = { ...retryPolicy, ...overrides };
+}
+
+export interface RetryOptions {
+    /** Aborting stops the current attempt and any further retries with an AICancelledError. */
+    signal?: AbortSignal;
+    policy?: RetryPolicy;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new AICancelledError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Runs one attempt with its own AbortSignal, which fires when the caller aborts or the time
+ * limit is reached. The attempt rejects immediately in either case, even if the task ignores its signal.
+ */
+async function runAttempt<T>(task: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const abortAttempt = () => controller.abort();
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeoutMs);
+    signal?.addEventListener('abort', abortAttempt, { once: true });
+
+    const aborted = new Promise<never>((_, reject) => {
+        controller.signal.addEventListener('abort', () => reject(timedOut ? new AITimeoutError() : new AICancelledError()), { once: true });
+    });
+    try {
+        return await Promise.race([task(controller.signal), aborted]);
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', abortAttempt);
+    }
+}
+
+/**
+ * Returns how long to wait before the given retry (1-based), using exponential backoff with
+ * jitter so many clients hitting the same limit don't retry in lockstep.
+ */
+function backoffDelay(retry: number, error: unknown, policy: RetryPolicy): number {
+    const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+    const jittered = exponential / 2 + Math.random() * (exponential / 2);
+    const serverHint = error instanceof RateLimitError && error.retryAfterSeconds ? error.retryAfterSeconds * 1000 : 0;
+    return Math.max(jittered, serverHint);
+}
+
+/**
+ * Runs a model call, retrying transient failures (rate limits, network drops, timeouts) with
+ * exponential backoff. Non-retryable errors and the final failure are rethrown unchanged.
+ */
+export async function withRetry<T>(task: (signal: AbortSignal) => Promise<T>, { signal, policy = retryPolicy }: RetryOptions = {}): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        if (signal?.aborted) {
+            throw new AICancelledError();
+        }
+        try {
+            return await runAttempt(task, policy.timeoutMs, signal);
+        } catch (error) {
+            if (signal?.aborted) {
+                throw new AICancelledError();
+            }
+            const retryable = error instanceof AIServiceError && error.retryable;
+            if (!retryable || attempt >= policy.maxAttempts) {
+                throw error;
+            }
+            const delay = backoffDelay(attempt, error, policy);
+            console.warn(`AI call failed (${(error as AIServiceError).kind}), retrying in ${Math.round(delay)}ms (attempt ${attempt + 1} of ${policy.maxAttempts}).`);
+            await sleep(delay, signal);
+        }
+    }
+}
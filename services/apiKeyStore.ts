@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Per-device storage for the Gemini API key.
+ * A key entered at runtime takes precedence over one baked into the build.
+ */
+
+const STORAGE_KEY = 'geminiApiKey';
+
+function readStoredKey(): string | null {
+    if (typeof localStorage === 'undefined') return null;
+    return localStorage.getItem(STORAGE_KEY);
+}
+
+/**
+ * Returns the API key to use, or null if none is configured.
+ */
+export function getApiKey(): string | null {
+    return readStoredKey() || process.env.API_KEY || null;
+}
+
+export function hasApiKey(): boolean {
+    return getApiKey() !== null;
+}
+
+/**
+ * True when the key in use was entered on this device (and can therefore be cleared).
+ */
+export function hasStoredApiKey(): boolean {
+    return readStoredKey() !== null;
+}
+
+export function saveApiKey(apiKey: string): void {
+    localStorage.setItem(STORAGE_KEY, apiKey.trim());
+}
+
+export function clearApiKey(): void {
+    localStorage.removeItem(STORAGE_KEY);
+}
+
+/**
+ * Masks a key for display, keeping only the last four characters.
+ */
+export function maskApiKey(apiKey: string): string {
+    return apiKey.length <= 4 ? '••••' : `${'•'.repeat(8)}${apiKey.slice(-4)}`;
+}
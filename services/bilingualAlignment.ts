@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ContentLevel } from '../types';
+import { escapeRegExp } from './regexUtils';
+
+/**
+ * Lines up a simplified content level with its translation for the side-by-side view: section by
+ * section, paragraph by paragraph where both sides have the same paragraphs, and key term by
+ * key term. Translations keep the JSON structure, so the same fields and list positions match.
+ */
+
+export interface AlignedSegment {
+    id: string;
+    /** The section this segment starts, if any. */
+    heading?: string;
+    english: string;
+    translation: string;
+}
+
+/** An English key term and the same term in the translation. */
+export interface KeyTermPair {
+    english: string;
+    translation: string;
+}
+
+const textSections: { field: 'definition' | 'example' | 'useCase' | 'summary'; heading: string }[] = [
+    { field: 'definition', heading: 'Definition' },
+    { field: 'example', heading: 'Example' },
+    { field: 'useCase', heading: 'Use Case' },
+    { field: 'summary', heading: 'Summary' },
+];
+
+function paragraphs(markdown: string): string[] {
+    return markdown.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+}
+
+export function alignContentLevels(english: ContentLevel, translation: ContentLevel): AlignedSegment[] {
+    const segments: AlignedSegment[] = [];
+    for (const { field, heading } of textSections) {
+        const englishParagraphs = paragraphs(english[field]);
+        const translatedParagraphs = paragraphs(translation[field]);
+        // A translation that merged or split paragraphs is aligned as a whole section
+        if (englishParagraphs.length > 1 && englishParagraphs.length === translatedParagraphs.length) {
+            englishParagraphs.forEach((paragraph, index) => segments.push({
+                id: `${field}-${index}`,
+                heading: index === 0 ? heading : undefined,
+                english: paragraph,
+                translation: translatedParagraphs[index],
+            }));
+        } else {
+            segments.push({ id: field, heading, english: english[field], translation: translation[field] });
+        }
+    }
+
+    const termCount = Math.max(english.keyTerms.length, translation.keyTerms.length);
+    for (let index = 0; index < termCount; index++) {
+        const englishTerm = english.keyTerms[index];
+        const translatedTerm = translation.keyTerms[index];
+        segments.push({
+            id: `keyTerm-${index}`,
+            heading: index === 0 ? 'Key Terms' : undefined,
+            english: englishTerm ? `**${englishTerm.term}:** ${englishTerm.definition}` : '',
+            translation: translatedTerm ? `**${translatedTerm.term}:** ${translatedTerm.definition}` : '',
+        });
+    }
+
+    const media = (content: ContentLevel) =>
+        `- 🌐 Web: [${content.media.webResource.title}](${content.media.webResource.link})\n- 📺 YouTube: [${content.media.youtubeVideo.title}](${content.media.youtubeVideo.link})`;
+    segments.push({ id: 'media', heading: 'Related Media', english: media(english), translation: media(translation) });
+    return segments;
+}
+
+/** The key terms of both sides, paired by their position in the list. */
+export function pairKeyTerms(english: ContentLevel, translation: ContentLevel): KeyTermPair[] {
+    return english.keyTerms
+        .map((item, index) => ({ english: item.term.trim(), translation: translation.keyTerms[index]?.term.trim() ?? '' }))
+        .filter(pair => pair.english);
+}
+
+export interface TextRun {
+    text: string;
+    /** The index of the key term pair this run is an occurrence of. */
+    termIndex?: number;
+}
+
+/** Terms written in these scripts separate words with spaces, so only whole words are matched. */
+const SPACED_SCRIPT_TERM = /^[\p{Script=Latin}\p{Script=Greek}\p{Script=Cyrillic}\p{N}\p{M}\p{P}\p{Zs}]+$/u;
+
+/**
+ * A pattern for a term. Terms in spaced scripts such as Latin only match whole words, so "cell"
+ * isn't found in "excellent". Other terms, e.g. in Indic scripts, match anywhere, as `\b`
+ * doesn't understand those scripts and their words take suffixes.
+ */
+function termPattern(term: string): string {
+    const escaped = escapeRegExp(term);
+    return SPACED_SCRIPT_TERM.test(term) ? `(?<![\\p{L}\\p{N}\\p{M}])${escaped}(?![\\p{L}\\p{N}\\p{M}])` : escaped;
+}
+
+/**
+ * Splits text into runs, marking every occurrence of the given terms, ignoring case. Longer
+ * terms win over terms they contain.
+ */
+export function markTerms(text: string, terms: string[]): TextRun[] {
+    const ordered = terms
+        .map((term, termIndex) => ({ term, termIndex }))
+        .filter(({ term }) => term.length > 1)
+        .sort((a, b) => b.term.length - a.term.length);
+    if (ordered.length === 0 || !text) return [{ text }];
+
+    const pattern = new RegExp(ordered.map(({ term }) => termPattern(term)).join('|'), 'giu');
+    const runs: TextRun[] = [];
+    let position = 0;
+    for (const match of text.matchAll(pattern)) {
+        if (match.index! > position) runs.push({ text: text.slice(position, match.index) });
+        const found = ordered.find(({ term }) => term.toLowerCase() === match[0].toLowerCase());
+        runs.push({ text: match[0], termIndex: found?.termIndex });
+        position = match.index! + match[0].length;
+    }
+    if (position < text.length) runs.push({ text: text.slice(position) });
+    return runs;
+}
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { buildExportDocument, exportFilename, ExportLayout, ExportSource } from './exportDocument';
+import { renderHtmlPage, printDocument } from './htmlExporter';
+import { createDocx } from './docxExporter';
+import { createEpub } from './epubExporter';
+import { embedImages } from './imageData';
+import { diagramToDataUrl } from './diagramRenderer';
+
+/**
+ * Exports teaching packs and simplified content as printable handouts. Every format gets the same
+ * sections, images, diagrams and links, laid out with the chosen accessibility options.
+ */
+
+export type ExportFormat = 'pdf' | 'docx' | 'html' | 'epub';
+
+export const exportFormats: Record<ExportFormat, { label: string; description: string }> = {
+    pdf: { label: 'PDF', description: 'Opens the print dialog; choose "Save as PDF".' },
+    docx: { label: 'Word (DOCX)', description: 'Editable in Word, Google Docs or LibreOffice.' },
+    html: { label: 'Web page (HTML)', description: 'A single file with the images inside, opens in any browser.' },
+    epub: { label: 'E-book (EPUB)', description: 'For e-readers and reading apps.' },
+};
+
+const mimeTypes: Record<Exclude<ExportFormat, 'pdf'>, string> = {
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    html: 'text/html;charset=utf-8',
+    epub: 'application/epub+zip',
+};
+
+function downloadFile(data: BlobPart, mimeType: string, filename: string): void {
+    const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
+
+/** Exports the content and downloads the file, or opens the print dialog for PDF. */
+export async function exportContent(source: ExportSource, format: ExportFormat, layout: ExportLayout): Promise<void> {
+    // Web images are copied in where the browser allows, so the file works offline
+    const embedded: ExportSource = source.kind === 'expanded'
+        ? {
+            ...source,
+            content: { ...source.content, images: await embedImages(source.content.images) },
+            diagramImages: await Promise.all((source.content.diagrams ?? []).map(diagram => diagramToDataUrl(diagram.source))),
+        }
+        : source;
+    const doc = buildExportDocument(embedded, layout);
+
+    switch (format) {
+        case 'pdf':
+            return printDocument(doc, layout);
+        case 'html':
+            return downloadFile(renderHtmlPage(doc, layout), mimeTypes.html, exportFilename(doc.title, 'html'));
+        case 'docx':
+            return downloadFile(await createDocx(doc, layout), mimeTypes.docx, exportFilename(doc.title, 'docx'));
+        case 'epub':
+            return downloadFile(await createEpub(doc, layout), mimeTypes.epub, exportFilename(doc.title, 'epub'));
+    }
+}
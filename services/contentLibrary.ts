@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { SimplifiedContent, ExpandedContent, ContentLevel } from '../types';
+import { getSessionUser } from './sessionContext';
+import { embedImages } from './imageData';
+import { isIndexedDBAvailable, openDatabase, requestToPromise, transactionDone } from './idbStore';
+
+/**
+ * The user's library of saved NeuroLearn content: simplifications (with their translation, if
+ * any) and teaching packs. Items are stored whole in IndexedDB, images included, so they can be
+ * reopened later without calling the AI again.
+ */
+
+const DB_NAME = 'content-library';
+const DB_VERSION = 1;
+const ITEMS_STORE = 'items';
+const USER_INDEX = 'userId';
+
+/** The details the user can edit when saving an item. */
+export interface LibraryItemDetails {
+    title: string;
+    subject: string;
+    tags: string[];
+}
+
+interface LibraryItemBase extends LibraryItemDetails {
+    id: string;
+    userId: string;
+    createdAt: number;
+}
+
+export interface SimplifiedLibraryItem extends LibraryItemBase {
+    kind: 'simplified';
+    content: SimplifiedContent;
+    sourceFilename?: string;
+    /** The translation shown when the item was saved. */
+    translation?: {
+        language: string;
+        level: 'beginner' | 'intermediate' | 'advancedSimplified';
+        /** The section of a long document that was translated, or missing for the whole document. */
+        sectionIndex?: number;
+        content: ContentLevel;
+    };
+}
+
+export interface ExpandedLibraryItem extends LibraryItemBase {
+    kind: 'expanded';
+    topic: string;
+    content: ExpandedContent;
+}
+
+export type LibraryItem = SimplifiedLibraryItem | ExpandedLibraryItem;
+
+/** An item as the caller provides it; the id, owner and creation date are filled in on save. */
+export type NewLibraryItem = Omit<SimplifiedLibraryItem, keyof LibraryItemBase> & LibraryItemDetails
+    | Omit<ExpandedLibraryItem, keyof LibraryItemBase> & LibraryItemDetails;
+
+export type LibrarySortOrder = 'newest' | 'oldest' | 'title' | 'subject';
+
+export const librarySortLabels: Record<LibrarySortOrder, string> = {
+    newest: 'Newest first',
+    oldest: 'Oldest first',
+    title: 'Title (A–Z)',
+    subject: 'Subject (A–Z)',
+};
+
+export function isLibraryAvailable(): boolean {
+    return isIndexedDBAvailable();
+}
+
+function openLibrary(): Promise<IDBDatabase> {
+    return openDatabase(DB_NAME, DB_VERSION, db => {
+        if (!db.objectStoreNames.contains(ITEMS_STORE)) {
+            const store = db.createObjectStore(ITEMS_STORE, { keyPath: 'id' });
+            store.createIndex(USER_INDEX, 'userId');
+        }
+    });
+}
+
+/** Splits comma-separated tags as typed by the user, dropping blanks and duplicates. */
+export function parseTags(text: string): string[] {
+    const tags = text.split(',').map(tag => tag.trim()).filter(Boolean);
+    return tags.filter((tag, index) => tags.findIndex(other => other.toLowerCase() === tag.toLowerCase()) === index);
+}
+
+/** Saves an item to the signed-in user's library and returns it as stored. */
+export async function saveLibraryItem(item: NewLibraryItem): Promise<LibraryItem> {
+    const user = getSessionUser();
+    if (!user) {
+        throw new Error('Sign in to save content to your library.');
+    }
+    if (!isLibraryAvailable()) {
+        throw new Error('Your browser does not support saving content for offline use.');
+    }
+    const base = { id: `lib_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`, userId: user.id, createdAt: Date.now() };
+    const stored: LibraryItem = item.kind === 'expanded'
+        ? { ...item, ...base, content: { ...item.content, images: await embedImages(item.content.images) } }
+        : { ...item, ...base };
+
+    const db = await openLibrary();
+    const transaction = db.transaction(ITEMS_STORE, 'readwrite');
+    transaction.objectStore(ITEMS_STORE).put(stored);
+    await transactionDone(transaction);
+    return stored;
+}
+
+/** Changes an item's title, subject or tags. */
+export async function updateLibraryItem(id: string, details: Partial<LibraryItemDetails>): Promise<LibraryItem | null> {
+    const db = await openLibrary();
+    const transaction = db.transaction(ITEMS_STORE, 'readwrite');
+    const store = transaction.objectStore(ITEMS_STORE);
+    const item = await requestToPromise<LibraryItem | undefined>(store.get(id));
+    if (!item) return null;
+    const updated = { ...item, ...details };
+    store.put(updated);
+    await transactionDone(transaction);
+    return updated;
+}
+
+export async function listLibraryItems(userId = getSessionUser()?.id): Promise<LibraryItem[]> {
+    if (!userId || !isLibraryAvailable()) return [];
+    const db = await openLibrary();
+    const index = db.transaction(ITEMS_STORE, 'readonly').objectStore(ITEMS_STORE).index(USER_INDEX);
+    return requestToPromise<LibraryItem[]>(index.getAll(userId));
+}
+
+export async function getLibraryItem(id: string): Promise<LibraryItem | null> {
+    const db = await openLibrary();
+    const item = await requestToPromise<LibraryItem | undefined>(db.transaction(ITEMS_STORE, 'readonly').objectStore(ITEMS_STORE).get(id));
+    return item ?? null;
+}
+
+export async function deleteLibraryItem(id: string): Promise<void> {
+    const db = await openLibrary();
+    const transaction = db.transaction(ITEMS_STORE, 'readwrite');
+    transaction.objectStore(ITEMS_STORE).delete(id);
+    await transactionDone(transaction);
+}
+
+/**
+ * Items whose title, subject, tags, topic or source file contain every word of the query,
+ * ignoring case.
+ */
+export function searchLibraryItems(items: LibraryItem[], query: string): LibraryItem[] {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return items;
+    return items.filter(item => {
+        const text = [
+            item.title,
+            item.subject,
+            ...item.tags,
+            item.kind === 'expanded' ? item.topic : item.sourceFilename ?? '',
+        ].join(' ').toLowerCase();
+        return words.every(word => text.includes(word));
+    });
+}
+
+export function sortLibraryItems(items: LibraryItem[], order: LibrarySortOrder): LibraryItem[] {
+    const byTitle = (a: LibraryItem, b: LibraryItem) => a.title.localeCompare(b.title);
+    const compare: Record<LibrarySortOrder, (a: LibraryItem, b: LibraryItem) => number> = {
+        newest: (a, b) => b.createdAt - a.createdAt,
+        oldest: (a, b) => a.createdAt - b.createdAt,
+        title: byTitle,
+        // Items without a subject go last
+        subject: (a, b) => (!a.subject ? 1 : 0) - (!b.subject ? 1 : 0) || a.subject.localeCompare(b.subject) || byTitle(a, b),
+    };
+    return [...items].sort(compare[order]);
+}
+
+/** The subjects used so far, for suggestions and filtering. */
+export function librarySubjects(items: LibraryItem[]): string[] {
+    return [...new Set(items.map(item => item.subject).filter(Boolean))].sort((a, b) => a.localeCompare(b));
+}
@@ -0,0 +1,314 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AIOperation } from './llmProvider';
+import { getSessionUser } from './sessionContext';
+import { ContentModeratedError } from './aiErrors';
+
+/**
+ * Local moderation of what learners type and what the AI answers. A keyword and pattern filter
+ * sorts matches into categories, and the signed-in user's safety settings decide per category
+ * whether to let the text through, rewrite the matches out of it, or block it. Rewritten and
+ * blocked text is logged for teachers to review.
+ */
+
+export type AgeBand = 'under8' | '8to12' | '13to17' | 'adult';
+
+export type ModerationCategory = 'profanity' | 'violence' | 'weapons' | 'selfHarm' | 'sexual' | 'drugs' | 'hate';
+
+export type ModerationAction = 'allow' | 'rewrite' | 'block';
+
+/** How strictly the model's own safety filters are set: 'strict' also blocks low-probability harm. */
+export type ModelSafetyLevel = 'strict' | 'standard';
+
+export interface ModerationConfig {
+    /**
+     * Whether the local filter runs. The proxy server turns it off because it can't see the
+     * learner's settings; the app moderates what it sends and receives itself.
+     */
+    enabled: boolean;
+}
+
+let moderationConfig: ModerationConfig = {
+    enabled: true,
+};
+
+export function configureModeration(overrides: Partial<ModerationConfig>): void {
+    moderationConfig = { ...moderationConfig, ...overrides };
+}
+
+export interface SafetySettings {
+    ageBand: AgeBand;
+    actions: Record<ModerationCategory, ModerationAction>;
+    modelSafety: ModelSafetyLevel;
+}
+
+export const ageBandLabels: Record<AgeBand, string> = {
+    under8: 'Under 8',
+    '8to12': '8 to 12',
+    '13to17': '13 to 17',
+    adult: 'Adult',
+};
+
+export const categoryLabels: Record<ModerationCategory, string> = {
+    profanity: 'Swearing',
+    violence: 'Graphic violence',
+    weapons: 'Weapons and explosives',
+    selfHarm: 'Self-harm',
+    sexual: 'Sexual content',
+    drugs: 'Drugs',
+    hate: 'Hate',
+};
+
+const ageBandDefaults: Record<AgeBand, SafetySettings> = {
+    under8: {
+        ageBand: 'under8',
+        actions: { profanity: 'rewrite', violence: 'block', weapons: 'block', selfHarm: 'block', sexual: 'block', drugs: 'block', hate: 'block' },
+        modelSafety: 'strict',
+    },
+    '8to12': {
+        ageBand: '8to12',
+        actions: { profanity: 'rewrite', violence: 'rewrite', weapons: 'block', selfHarm: 'block', sexual: 'block', drugs: 'rewrite', hate: 'block' },
+        modelSafety: 'strict',
+    },
+    '13to17': {
+        ageBand: '13to17',
+        actions: { profanity: 'rewrite', violence: 'allow', weapons: 'block', selfHarm: 'block', sexual: 'block', drugs: 'allow', hate: 'rewrite' },
+        modelSafety: 'standard',
+    },
+    adult: {
+        ageBand: 'adult',
+        actions: { profanity: 'allow', violence: 'allow', weapons: 'block', selfHarm: 'block', sexual: 'allow', drugs: 'allow', hate: 'rewrite' },
+        modelSafety: 'standard',
+    },
+};
+
+/** The recommended settings for an age band. */
+export function getAgeBandDefaults(ageBand: AgeBand): SafetySettings {
+    const defaults = ageBandDefaults[ageBand];
+    return { ...defaults, actions: { ...defaults.actions } };
+}
+
+/** Settings used when nobody is signed in or the user hasn't chosen any: the strictest band's. */
+export const DEFAULT_SAFETY_SETTINGS: SafetySettings = getAgeBandDefaults('under8');
+
+/**
+ * The filter's patterns. They aim at unambiguous terms, so that ordinary lessons ("bacteria are
+ * killed by heat", "boiling kills all bacteria", "sexual reproduction", "seen with the naked eye")
+ * pass untouched.
+ */
+const categoryPatterns: Record<ModerationCategory, RegExp[]> = {
+    profanity: [/\bf+u+c+k\w*/gi, /\bsh[i1]t\w*/gi, /\bbitch\w*/gi, /\basshole\w*/gi, /\bbastard\w*/gi, /\bdamn\w*/gi, /\bcrap\b/gi, /\bwtf\b/gi],
+    violence: [/\bgor(e|y)\b/gi, /\bdecapitat\w*/gi, /\bdismember\w*/gi, /\bmutilat\w*/gi, /\btortur\w*/gi, /\bbloodbath\b/gi, /\bmassacr\w*/gi, /\bmurder\w*/gi, /\bbehead\w*/gi],
+    weapons: [/\b(make|build|making|building)\s+(a\s+)?(bomb|pipe bomb|explosive|gun|weapon)s?\b/gi, /\bhomemade\s+(bomb|explosive|gun)s?\b/gi, /\bschool\s+shoot\w*/gi],
+    selfHarm: [/\bkill(ing)?\s+myself\b/gi, /\bsuicid\w*/gi, /\bself[-\s]?harm\w*/gi, /\bcut(ting)?\s+myself\b/gi, /\bwant\s+to\s+die\b/gi, /\bend\s+my\s+life\b/gi],
+    sexual: [/\bporn\w*/gi, /\bnudes?\b/gi, /\bxxx\b/gi, /\berotic\w*/gi, /\bhaving\s+sex\b/gi, /\bsex\s+(video|tape|chat)s?\b/gi, /\bnsfw\b/gi, /\bhentai\b/gi],
+    drugs: [/\bcocaine\b/gi, /\bheroin\b/gi, /\bmeth(amphetamine)?\b/gi, /\bsmok(e|ing)\s+weed\b/gi, /\bmarijuana\b/gi, /\bget(ting)?\s+high\b/gi, /\bvap(e|ing)\b/gi, /\blsd\b/gi],
+    hate: [/\bwhite\s+power\b/gi, /\bheil\s+hitler\b/gi, /\bsubhumans?\b/gi, /\bgo\s+back\s+to\s+your\s+country\b/gi, /\b(kill|exterminate)\s+(all|every)\s+(the\s+)?(jews|muslims|christians|hindus|sikhs|blacks|whites|asians|arabs|gays|immigrants|refugees|foreigners|women|men|people)\b/gi, /\bethnic\s+cleansing\s+is\s+good\b/gi],
+};
+
+/** What replaces a rewritten match. */
+const REDACTION = '•••';
+
+export interface ModerationMatch {
+    category: ModerationCategory;
+    term: string;
+}
+
+export interface ModerationResult {
+    /** The strictest action any match called for, or 'allow' when nothing matched. */
+    action: ModerationAction;
+    matches: ModerationMatch[];
+    /** The text with rewritten matches replaced. Equal to the input unless the action is 'rewrite'. */
+    text: string;
+}
+
+const actionRank: Record<ModerationAction, number> = { allow: 0, rewrite: 1, block: 2 };
+
+/** Checks text against the filter and decides what to do with it under `settings`. */
+export function moderateText(text: string, settings: SafetySettings = getSafetySettings()): ModerationResult {
+    const matches: ModerationMatch[] = [];
+    if (!moderationConfig.enabled) return { action: 'allow', matches, text };
+    let action: ModerationAction = 'allow';
+    let rewritten = text;
+
+    for (const category of Object.keys(categoryPatterns) as ModerationCategory[]) {
+        const categoryAction = settings.actions[category];
+        if (categoryAction === 'allow') continue;
+        for (const pattern of categoryPatterns[category]) {
+            const found = text.match(pattern);
+            if (!found) continue;
+            found.forEach(term => matches.push({ category, term }));
+            if (actionRank[categoryAction] > actionRank[action]) action = categoryAction;
+            if (categoryAction === 'rewrite') rewritten = rewritten.replace(pattern, REDACTION);
+        }
+    }
+    return { action, matches, text: action === 'rewrite' ? rewritten : text };
+}
+
+/** The distinct categories of a set of matches. */
+export function matchedCategories(matches: ModerationMatch[]): ModerationCategory[] {
+    return [...new Set(matches.map(match => match.category))];
+}
+
+/**
+ * A friendly message for learners when their input or an AI answer is blocked, pointing them
+ * somewhere better. Self-harm always points to a trusted adult.
+ */
+export function getRedirectMessage(direction: 'input' | 'output', categories: ModerationCategory[]): string {
+    if (categories.includes('selfHarm')) {
+        return "It sounds like things might be hard right now. Please talk to a teacher, a parent or another adult you trust. If you are in danger, call your local emergency number.";
+    }
+    return direction === 'input'
+        ? "Let's choose a different topic. That one isn't available here, but there's lots more to explore, like space, animals, inventions or how things work!"
+        : "The AI's answer included something that isn't suitable here, so we've hidden it. Try again, or pick a different topic.";
+}
+
+/**
+ * Moderates text on its way to or from the model. Flagged text is logged; blocked text throws a
+ * ContentModeratedError carrying the redirect message, and rewritten text is returned rewritten.
+ */
+export function enforceModeration(operation: AIOperation, direction: ModerationEvent['direction'], text: string): string {
+    const result = moderateText(text);
+    if (result.action === 'allow') return text;
+    logModerationEvent(operation, direction, text, result);
+    if (result.action === 'block') {
+        throw new ContentModeratedError(getRedirectMessage(direction, matchedCategories(result.matches)));
+    }
+    return result.text;
+}
+
+/** Whether a string is worth moderating: data URLs hold base64 that matches patterns by chance. */
+function isModeratedString(value: string): boolean {
+    return !value.startsWith('data:');
+}
+
+function collectStrings(value: unknown, into: string[]): void {
+    if (typeof value === 'string') {
+        if (isModeratedString(value)) into.push(value);
+    } else if (Array.isArray(value)) {
+        value.forEach(item => collectStrings(item, into));
+    } else if (value && typeof value === 'object') {
+        Object.values(value).forEach(item => collectStrings(item, into));
+    }
+}
+
+function rewriteStrings<T>(value: T, settings: SafetySettings): T {
+    if (typeof value === 'string') {
+        return (isModeratedString(value) ? moderateText(value, settings).text : value) as T;
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => rewriteStrings(item, settings)) as T;
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, rewriteStrings(item, settings)])) as T;
+    }
+    return value;
+}
+
+/**
+ * Moderates a structured result, such as one returned by the proxy server or the response cache,
+ * as a whole: one log entry for everything flagged, and every text field rewritten or the whole
+ * result blocked.
+ */
+export function moderateValue<T>(operation: AIOperation, direction: ModerationEvent['direction'], value: T): T {
+    const texts: string[] = [];
+    collectStrings(value, texts);
+    const combined = texts.join('\n');
+    const settings = getSafetySettings();
+    const result = moderateText(combined, settings);
+    if (result.action === 'allow') return value;
+    enforceModeration(operation, direction, combined);
+    return rewriteStrings(value, settings);
+}
+
+// --- Settings ---
+
+const settingsKey = (userId: string) => `safetySettings_${userId}`;
+const logKey = (userId: string) => `moderationLog_${userId}`;
+
+function readJson<T>(key: string): T | null {
+    if (typeof localStorage === 'undefined') return null;
+    try {
+        const stored = localStorage.getItem(key);
+        return stored ? JSON.parse(stored) as T : null;
+    } catch (e) {
+        console.error(`Failed to parse ${key} from localStorage`, e);
+        return null;
+    }
+}
+
+/** The safety settings of `userId`, or of the signed-in user when omitted. */
+export function getSafetySettings(userId = getSessionUser()?.id): SafetySettings {
+    const stored = userId ? readJson<SafetySettings>(settingsKey(userId)) : null;
+    if (!stored) return DEFAULT_SAFETY_SETTINGS;
+    const defaults = getAgeBandDefaults(stored.ageBand);
+    return { ...defaults, ...stored, actions: { ...defaults.actions, ...stored.actions } };
+}
+
+export function saveSafetySettings(userId: string, settings: SafetySettings): void {
+    localStorage.setItem(settingsKey(userId), JSON.stringify(settings));
+}
+
+// --- Flagged events ---
+
+export interface ModerationEvent {
+    id: string;
+    /** ISO timestamp. */
+    timestamp: string;
+    operation: AIOperation;
+    /** Whether the learner's input or the AI's answer was flagged. */
+    direction: 'input' | 'output';
+    action: Exclude<ModerationAction, 'allow'>;
+    categories: ModerationCategory[];
+    /** The flagged terms, so a teacher can judge the event without reading the whole text. */
+    terms: string[];
+    /** The text around the first flagged term. */
+    excerpt: string;
+}
+
+const MAX_EVENTS = 200;
+
+function excerptAround(text: string, term: string): string {
+    const index = Math.max(0, text.indexOf(term));
+    const start = Math.max(0, index - 60);
+    const end = Math.min(text.length, index + term.length + 60);
+    return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`;
+}
+
+export function getModerationLog(userId: string): ModerationEvent[] {
+    return readJson<ModerationEvent[]>(logKey(userId)) ?? [];
+}
+
+export function clearModerationLog(userId: string): void {
+    localStorage.removeItem(logKey(userId));
+}
+
+/**
+ * Adds a flagged event to the signed-in user's log, newest first. Events without a signed-in user
+ * are only reported to the console.
+ */
+export function logModerationEvent(operation: AIOperation, direction: ModerationEvent['direction'], text: string, result: ModerationResult): void {
+    if (result.action === 'allow') return;
+    const event: ModerationEvent = {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        timestamp: new Date().toISOString(),
+        operation,
+        direction,
+        action: result.action,
+        categories: matchedCategories(result.matches),
+        terms: [...new Set(result.matches.map(match => match.term.toLowerCase()))],
+        excerpt: excerptAround(text, result.matches[0]?.term ?? ''),
+    };
+    console.warn(`Moderation ${event.action} ${direction} of ${operation}:`, event.categories);
+
+    const user = getSessionUser();
+    if (!user || typeof localStorage === 'undefined') return;
+    try {
+        localStorage.setItem(logKey(user.id), JSON.stringify([event, ...getModerationLog(user.id)].slice(0, MAX_EVENTS)));
+    } catch (e) {
+        console.warn("Could not save the moderation event:", e);
+    }
+}
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AIOperation, LLMPart } from './llmProvider';
+import type { RedactionSummary } from './piiRedaction';
+import { getSessionUser } from './sessionContext';
+
+/**
+ * A record, kept on this device, of every document and text that was uploaded to the AI: what
+ * was sent, where to, by whom, and which personal details were masked or left in beforehand.
+ * Every model call and proxy request is recorded as it is sent; cached answers send nothing.
+ */
+
+export type UploadedData =
+    | { type: 'text'; characters: number; /** The start of the text as sent. */ preview: string; /** Set when the text was extracted from a file. */ filename?: string }
+    | { type: 'file'; filename: string; mimeType: string; bytes: number };
+
+export interface DataAuditEntry {
+    id: string;
+    /** ISO timestamp. */
+    timestamp: string;
+    /** The signed-in user who sent the data, if any. */
+    userName?: string;
+    operation: AIOperation;
+    /** Where the data went, e.g. "gemini/gemini-2.5-flash" or "AI proxy server". */
+    destination: string;
+    data: UploadedData;
+    /** Missing when the data wasn't reviewed for personal details, e.g. files sent as they are. */
+    redactions?: RedactionSummary;
+}
+
+/** What a request's data came from, when the caller knows more than the request itself shows. */
+export interface UploadSource {
+    /** The uploaded file, or the file text was extracted from. */
+    filename?: string;
+    /** The personal details masked in or left in the text before it was sent. */
+    redactions?: RedactionSummary;
+}
+
+const AUDIT_KEY = 'aiDataAuditLog';
+const MAX_ENTRIES = 500;
+const PREVIEW_CHARS = 300;
+
+export function getDataAuditLog(): DataAuditEntry[] {
+    if (typeof localStorage === 'undefined') return [];
+    try {
+        const stored = localStorage.getItem(AUDIT_KEY);
+        return stored ? JSON.parse(stored) as DataAuditEntry[] : [];
+    } catch (e) {
+        console.error(`Failed to parse ${AUDIT_KEY} from localStorage`, e);
+        return [];
+    }
+}
+
+export function clearDataAuditLog(): void {
+    localStorage.removeItem(AUDIT_KEY);
+}
+
+/** The text or file as it appears in the log. Files sent as base64 are logged by their decoded size. */
+export function describeUploadedData(source: string | { mimeType: string; data: string; filename: string }, filename?: string): UploadedData {
+    if (typeof source === 'string') {
+        return { type: 'text', characters: source.length, preview: source.slice(0, PREVIEW_CHARS), ...(filename && { filename }) };
+    }
+    return { type: 'file', filename: source.filename, mimeType: source.mimeType, bytes: Math.round((source.data.length * 3) / 4) };
+}
+
+/**
+ * The data a request sends, as it appears in the log: its attached file if it has one, as that is
+ * what the user uploaded, otherwise all of its text.
+ */
+export function describeRequestData(contents: string | LLMPart[], filename?: string): UploadedData {
+    if (typeof contents === 'string') return describeUploadedData(contents, filename);
+    const file = contents.find(part => 'inlineData' in part);
+    if (file && 'inlineData' in file) {
+        return describeUploadedData({ ...file.inlineData, filename: filename ?? 'Attached file' });
+    }
+    return describeUploadedData(contents.map(part => ('text' in part ? part.text : '')).join('\n\n'), filename);
+}
+
+/** Adds an entry to the log, newest first. Does nothing where there is no localStorage, e.g. on the proxy server. */
+export function recordDataUpload(entry: Omit<DataAuditEntry, 'id' | 'timestamp' | 'userName'>): void {
+    if (typeof localStorage === 'undefined') return;
+    const user = getSessionUser();
+    const full: DataAuditEntry = {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        timestamp: new Date().toISOString(),
+        ...(user && { userName: user.name ?? user.username }),
+        ...entry,
+    };
+    try {
+        localStorage.setItem(AUDIT_KEY, JSON.stringify([full, ...getDataAuditLog()].slice(0, MAX_ENTRIES)));
+    } catch (e) {
+        console.warn("Could not save the data audit entry:", e);
+    }
+}
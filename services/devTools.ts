@@ -0,0 +1,12 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * True in development builds (`vite` dev server), where developer-only tools such as the
+ * prompt editor are available. Always false in production builds and on the proxy server.
+ */
+export function isDevToolsEnabled(): boolean {
+    return process.env.DEV_TOOLS === 'true';
+}
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Mermaid } from 'mermaid';
+
+/**
+ * Draws teaching pack diagrams with Mermaid. Mermaid is loaded the first time a diagram is shown,
+ * and drawn diagrams are kept so re-renders and exports don't draw them again.
+ */
+
+let mermaidLoader: Promise<Mermaid> | null = null;
+const drawnDiagrams = new Map<string, Promise<string>>();
+let nextDiagramId = 0;
+
+function loadMermaid(): Promise<Mermaid> {
+    mermaidLoader ??= import('mermaid').then(({ default: mermaid }) => {
+        mermaid.initialize({
+            startOnLoad: false,
+            // AI-written labels must not be able to inject scripts or links
+            securityLevel: 'strict',
+            // Plain SVG text rather than HTML labels, so diagrams can be converted to images for exports
+            htmlLabels: false,
+            theme: 'base',
+            themeVariables: { primaryColor: '#fce7f3', primaryBorderColor: '#ec4899', lineColor: '#db2777', fontFamily: 'Inter, sans-serif' },
+        });
+        return mermaid;
+    });
+    mermaidLoader.catch(() => { mermaidLoader = null; });
+    return mermaidLoader;
+}
+
+/** Removes the code fences models sometimes wrap Mermaid source in. */
+export function cleanDiagramSource(source: string): string {
+    return source.trim().replace(/^```(?:mermaid)?\s*\n?/i, '').replace(/\n?```$/, '').trim();
+}
+
+/**
+ * Draws a diagram and returns its SVG markup. Rejects with Mermaid's own error message when the
+ * source is invalid.
+ */
+export function renderDiagram(source: string): Promise<string> {
+    const cleaned = cleanDiagramSource(source);
+    let drawn = drawnDiagrams.get(cleaned);
+    if (!drawn) {
+        drawn = loadMermaid().then(async mermaid => {
+            await mermaid.parse(cleaned);
+            const { svg } = await mermaid.render(`diagram-${nextDiagramId++}`, cleaned);
+            return svg;
+        });
+        // Let invalid source be retried, e.g. after Mermaid failed to load
+        drawn.catch(() => drawnDiagrams.delete(cleaned));
+        drawnDiagrams.set(cleaned, drawn);
+    }
+    return drawn;
+}
+
+/**
+ * Mermaid sizes its SVG to fill the page (width="100%"), which gives it no size of its own as an
+ * image. Sets the width and height from the viewBox so exporters can scale and rasterize it.
+ */
+function withIntrinsicSize(svg: string): string {
+    const viewBox = /viewBox="[-\d.]+ [-\d.]+ ([\d.]+) ([\d.]+)"/.exec(svg);
+    if (!viewBox) return svg;
+    const [, width, height] = viewBox;
+    return svg.replace(/<svg\b([^>]*?)\swidth="[^"]*"/, '<svg$1').replace(/<svg\b/, `<svg width="${Math.ceil(+width)}" height="${Math.ceil(+height)}"`);
+}
+
+/** A diagram as an SVG data URL for exports, or null when it can't be drawn. */
+export async function diagramToDataUrl(source: string): Promise<string | null> {
+    try {
+        const svg = withIntrinsicSize(await renderDiagram(source));
+        return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+    } catch {
+        return null;
+    }
+}
+
+/** The first line of a Mermaid error, which is the part worth showing to a teacher. */
+export function describeDiagramError(error: unknown): string {
+    const message = error instanceof Error ? error.message : String(error);
+    return message.split('\n')[0].slice(0, 200) || 'The diagram could not be drawn.';
+}
@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Splits long documents into sections that can be simplified one at a time, so a textbook
+ * chapter neither overflows the model's context nor gets squeezed into a shallow summary.
+ */
+
+export interface DocumentSection {
+    title: string;
+    text: string;
+}
+
+export interface ChunkingConfig {
+    /** Text longer than this is simplified section by section. */
+    maxChunkChars: number;
+    /** Sections shorter than this are merged into their neighbour. */
+    minChunkChars: number;
+    /**
+     * Sections are merged down to this many, to keep the number of model calls in check. A
+     * document too long to fit in this many sections of `maxChunkChars` gets more.
+     */
+    maxSections: number;
+    /** Uploaded files larger than this (base64 characters) are simplified section by section. */
+    maxFileChars: number;
+}
+
+let chunkingConfig: ChunkingConfig = {
+    maxChunkChars: 12000,
+    minChunkChars: 1500,
+    maxSections: 12,
+    maxFileChars: 400000,
+};
+
+export function configureChunking(overrides: Partial<ChunkingConfig>): void {
+    chunkingConfig = { ...chunkingConfig, ...overrides };
+}
+
+export function getChunkingConfig(): ChunkingConfig {
+    return chunkingConfig;
+}
+
+/** Whether text is long enough to be simplified section by section. */
+export function needsChunking(text: string): boolean {
+    return text.length > chunkingConfig.maxChunkChars;
+}
+
+/** Whether an uploaded file (as base64) is large enough to be simplified section by section. */
+export function needsFileChunking(base64Data: string): boolean {
+    return base64Data.length > chunkingConfig.maxFileChars;
+}
+
+/**
+ * Recognises heading lines in extracted text: Markdown headings, numbered headings ("2.1 Cell
+ * structure"), "Chapter"/"Section"/"Unit" lines and short lines in capitals.
+ */
+function headingOf(line: string): string | null {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.length > 80) return null;
+    const markdown = trimmed.match(/^#{1,4}\s+(.+)$/);
+    if (markdown) return markdown[1].trim();
+    if (/^(chapter|section|unit|part|lesson)\s+[\dIVXLC]+\b/i.test(trimmed)) return trimmed;
+    if (/^\d+(\.\d+)*\.?\s+[A-Z]/.test(trimmed) && !/[.?!:;,]$/.test(trimmed) && trimmed.split(/\s+/).length <= 10) return trimmed;
+    if (/^[A-Z0-9][A-Z0-9 ,&:'-]{3,}$/.test(trimmed) && /[A-Z]{3}/.test(trimmed)) return trimmed;
+    return null;
+}
+
+/** Splits text at its headings. Text before the first heading becomes an "Introduction" section. */
+function splitAtHeadings(text: string): DocumentSection[] {
+    const sections: DocumentSection[] = [];
+    let current: DocumentSection = { title: 'Introduction', text: '' };
+    for (const line of text.split('\n')) {
+        const heading = headingOf(line);
+        if (heading) {
+            if (current.text.trim()) sections.push(current);
+            current = { title: heading, text: '' };
+        } else {
+            current.text += `${line}\n`;
+        }
+    }
+    if (current.text.trim()) sections.push(current);
+    return sections.map(section => ({ ...section, text: section.text.trim() }));
+}
+
+/** Breaks an oversized section into parts of at most `maxChars`, at paragraph (or, failing that, sentence) boundaries. */
+function splitBySize(section: DocumentSection, maxChars: number): DocumentSection[] {
+    if (section.text.length <= maxChars) return [section];
+
+    const pieces = section.text.split(/\n\s*\n/).flatMap(paragraph =>
+        paragraph.length <= maxChars ? [paragraph] : paragraph.match(/[^.!?]+[.!?]+\s*|[^.!?]+$/g) ?? [paragraph]
+    );
+    const parts: string[] = [];
+    let current = '';
+    for (const piece of pieces) {
+        if (current && current.length + piece.length + 2 > maxChars) {
+            parts.push(current);
+            current = '';
+        }
+        current = current ? `${current}\n\n${piece}` : piece;
+    }
+    if (current) parts.push(current);
+    return parts.map((text, i) => ({ title: `${section.title} (part ${i + 1} of ${parts.length})`, text: text.trim() }));
+}
+
+/** Joins two adjacent sections under the title of the one supplying more of the text. */
+function joinSections(first: DocumentSection, second: DocumentSection): DocumentSection {
+    return {
+        title: second.text.length > first.text.length ? second.title : first.title,
+        text: `${first.text}\n\n${second.title}\n${second.text}`,
+    };
+}
+
+/** Folds sections shorter than `minChars` into the section after them (or before, for the last one). */
+function mergeShortSections(sections: DocumentSection[], minChars: number): DocumentSection[] {
+    const merged: DocumentSection[] = [];
+    for (const section of sections) {
+        const previous = merged[merged.length - 1];
+        if (previous && previous.text.length < minChars) {
+            merged[merged.length - 1] = joinSections(previous, section);
+        } else {
+            merged.push(section);
+        }
+    }
+    if (merged.length > 1 && merged[merged.length - 1].text.length < minChars) {
+        merged.splice(-2, 2, joinSections(merged[merged.length - 2], merged[merged.length - 1]));
+    }
+    return merged;
+}
+
+/**
+ * Merges the adjacent pair with the least text until there are at most `maxSections`, or until
+ * no pair would fit within `maxChars`.
+ */
+function limitSectionCount(sections: DocumentSection[], maxSections: number, maxChars: number): DocumentSection[] {
+    const limited = [...sections];
+    const mergedLength = (i: number) => limited[i].text.length + limited[i + 1].title.length + limited[i + 1].text.length + 3;
+    while (limited.length > maxSections) {
+        let smallest = 0;
+        for (let i = 1; i < limited.length - 1; i++) {
+            if (mergedLength(i) < mergedLength(smallest)) smallest = i;
+        }
+        if (mergedLength(smallest) > maxChars) break;
+        const [first, second] = limited.slice(smallest, smallest + 2);
+        limited.splice(smallest, 2, { title: `${first.title} / ${second.title}`, text: `${first.text}\n\n${second.title}\n${second.text}` });
+    }
+    return limited;
+}
+
+/**
+ * Splits a document into sections by heading, then by size, so that each fits comfortably in one
+ * request. Returns a single section for text that doesn't need chunking.
+ */
+export function splitIntoSections(text: string): DocumentSection[] {
+    const { maxChunkChars, minChunkChars, maxSections } = chunkingConfig;
+    const normalized = text.replace(/\r\n?/g, '\n').trim();
+    if (!needsChunking(normalized)) {
+        return [{ title: 'Whole document', text: normalized }];
+    }
+    // Short sections are merged before oversized ones are split, so each part is named after the section it comes from
+    const sections = mergeShortSections(splitAtHeadings(normalized), minChunkChars).flatMap(section => splitBySize(section, maxChunkChars));
+    return limitSectionCount(sections, maxSections, maxChunkChars);
+}
@@ -0,0 +1,198 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Block, documentImageUrls, Inline, ExportDocument, ExportLayout, layoutTypography } from './exportDocument';
+import { escapeXml } from './htmlExporter';
+import { rasterizeImage, RasterImage } from './imageData';
+import { createZip, ZipEntry } from './zipWriter';
+
+/**
+ * Writes export documents as Word (.docx) files: the smallest WordprocessingML package that Word,
+ * LibreOffice and Google Docs open, with styles carrying the layout options.
+ */
+
+const EMU_PER_INCH = 914400;
+/** The widest an image is drawn, in inches: the page width inside normal margins. */
+const MAX_IMAGE_WIDTH_IN = 6;
+
+const NAMESPACES = [
+    'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"',
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"',
+    'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"',
+    'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+    'xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"',
+].join(' ');
+
+interface Relationship {
+    id: string;
+    type: 'hyperlink' | 'image';
+    target: string;
+}
+
+/** Collects the relationships (links and images) the document body refers to. */
+function createRelationships() {
+    const relationships: Relationship[] = [];
+    return {
+        relationships,
+        add(type: Relationship['type'], target: string): string {
+            const id = `rId${relationships.length + 10}`; // rId1-9 are left for fixed parts
+            relationships.push({ id, type, target });
+            return id;
+        },
+    };
+}
+
+type Relationships = ReturnType<typeof createRelationships>;
+
+function run(text: string, properties = ''): string {
+    return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function renderRuns(runs: Inline[], rels: Relationships): string {
+    return runs.map(inline => {
+        const properties = `${inline.link ? '<w:rStyle w:val="Hyperlink"/>' : ''}${inline.bold ? '<w:b/>' : ''}${inline.italic ? '<w:i/>' : ''}`;
+        const xml = run(inline.text, properties);
+        return inline.link ? `<w:hyperlink r:id="${rels.add('hyperlink', inline.link)}">${xml}</w:hyperlink>` : xml;
+    }).join('');
+}
+
+function paragraph(content: string, style?: string, extraProperties = ''): string {
+    const properties = `${style ? `<w:pStyle w:val="${style}"/>` : ''}${extraProperties}`;
+    return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${content}</w:p>`;
+}
+
+function drawing(image: RasterImage, relId: string, index: number, caption: string): string {
+    const widthIn = Math.min(MAX_IMAGE_WIDTH_IN, image.width / 96);
+    const cx = Math.round(widthIn * EMU_PER_INCH);
+    const cy = Math.round(cx * image.height / image.width);
+    const name = escapeXml(caption);
+    return `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">`
+        + `<wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${index}" name="Image ${index}" descr="${name}"/>`
+        + `<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">`
+        + `<pic:pic><pic:nvPicPr><pic:cNvPr id="${index}" name="Image ${index}"/><pic:cNvPicPr/></pic:nvPicPr>`
+        + `<pic:blipFill><a:blip r:embed="${relId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`
+        + `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>`
+        + `</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+}
+
+interface RenderContext {
+    rels: Relationships;
+    images: Map<string, RasterImage | null>;
+    media: ZipEntry[];
+}
+
+function renderBlocks(blocks: Block[], context: RenderContext): string {
+    return blocks.map(block => {
+        switch (block.type) {
+            case 'heading':
+                return paragraph(run(block.text), `Heading${block.level}`);
+            case 'paragraph':
+                return paragraph(renderRuns(block.runs, context.rels));
+            case 'list':
+                // Markers are written as text, so lists need no numbering definitions
+                return block.items.map((item, index) => paragraph(
+                    run(block.ordered ? `${index + 1}.\t` : '•\t') + renderRuns(item, context.rels),
+                    'ListParagraph',
+                )).join('');
+            case 'image': {
+                const image = context.images.get(block.url);
+                let picture = '';
+                if (image) {
+                    const number = context.media.length + 1;
+                    const path = `media/image${number}.${image.mimeType === 'image/png' ? 'png' : 'jpeg'}`;
+                    context.media.push({ path: `word/${path}`, data: image.bytes });
+                    picture = paragraph(drawing(image, context.rels.add('image', path), number, block.caption), undefined, '<w:keepNext/>');
+                }
+                const description = block.description ? paragraph(run(block.description), 'Caption') : '';
+                return `${picture}${paragraph(run(block.caption, '<w:b/>'), 'Caption')}${description}`;
+            }
+            case 'columns': {
+                const width = Math.floor(5000 / block.columns.length);
+                const headings = block.columns.map(column => `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="pct"/></w:tcPr>${paragraph(run(column.heading), 'Heading2')}</w:tc>`).join('');
+                const cells = block.columns.map(column => `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="pct"/></w:tcPr>${renderBlocks(column.blocks, context) || paragraph('')}</w:tc>`).join('');
+                return `<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/><w:tblLayout w:type="fixed"/>`
+                    + `<w:tblCellMar><w:left w:w="120" w:type="dxa"/><w:right w:w="120" w:type="dxa"/></w:tblCellMar></w:tblPr>`
+                    + `<w:tr><w:trPr><w:tblHeader/></w:trPr>${headings}</w:tr><w:tr>${cells}</w:tr></w:tbl>${paragraph('')}`;
+            }
+        }
+    }).join('');
+}
+
+function stylesXml(layout: ExportLayout): string {
+    const type = layoutTypography(layout);
+    const size = type.fontSizePt * 2; // half-points
+    const line = Math.round(type.lineHeight * 240);
+    const spacing = Math.round(type.letterSpacingEm * type.fontSizePt * 20); // twentieths of a point
+    const heading = (id: string, name: string, scale: number, color: string) =>
+        `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>`
+        + `<w:pPr><w:keepNext/><w:spacing w:before="${Math.round(size * 10)}" w:after="${Math.round(size * 3)}"/></w:pPr>`
+        + `<w:rPr><w:b/><w:color w:val="${color}"/><w:sz w:val="${Math.round(size * scale)}"/></w:rPr></w:style>`;
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">`
+        + `<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="${type.primaryFont}" w:hAnsi="${type.primaryFont}" w:cs="${type.primaryFont}"/>`
+        + `${spacing ? `<w:spacing w:val="${spacing}"/>` : ''}<w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:rPrDefault>`
+        + `<w:pPrDefault><w:pPr><w:spacing w:after="${Math.round(size * 5)}" w:line="${line}" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>`
+        + `<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>`
+        + `<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:qFormat/><w:rPr><w:b/><w:color w:val="DB2777"/><w:sz w:val="${size * 2}"/></w:rPr></w:style>`
+        + `<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:qFormat/><w:rPr><w:color w:val="666666"/></w:rPr></w:style>`
+        + heading('Heading1', 'heading 1', 1.6, 'DB2777')
+        + heading('Heading2', 'heading 2', 1.35, 'DB2777')
+        + heading('Heading3', 'heading 3', 1.15, '333333')
+        + `<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:pPr><w:tabs><w:tab w:val="left" w:pos="360"/></w:tabs><w:spacing w:after="${Math.round(size * 2)}"/><w:ind w:left="360" w:hanging="360"/></w:pPr></w:style>`
+        + `<w:style w:type="paragraph" w:styleId="Caption"><w:name w:val="caption"/><w:basedOn w:val="Normal"/><w:rPr><w:color w:val="444444"/><w:sz w:val="${Math.round(size * 0.9)}"/></w:rPr></w:style>`
+        + `<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="2563EB"/><w:u w:val="single"/></w:rPr></w:style>`
+        + `</w:styles>`;
+}
+
+export async function createDocx(doc: ExportDocument, layout: ExportLayout): Promise<Uint8Array> {
+    const urls = documentImageUrls(doc.blocks);
+    const images = new Map(await Promise.all(urls.map(async url => [url, await rasterizeImage(url)] as const)));
+    const context: RenderContext = { rels: createRelationships(), images, media: [] };
+
+    const title = paragraph(run(doc.title), 'Title') + (doc.subtitle ? paragraph(run(doc.subtitle), 'Subtitle') : '');
+    const body = renderBlocks(doc.blocks, context);
+    const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document ${NAMESPACES}><w:body>${title}${body}`
+        + `<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="709" w:footer="709" w:gutter="0"/></w:sectPr>`
+        + `</w:body></w:document>`;
+
+    const relationshipTypes = {
+        hyperlink: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink',
+        image: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image',
+    };
+    const documentRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+        + `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`
+        + context.rels.relationships.map(rel =>
+            `<Relationship Id="${rel.id}" Type="${relationshipTypes[rel.type]}" Target="${escapeXml(rel.target)}"${rel.type === 'hyperlink' ? ' TargetMode="External"' : ''}/>`
+        ).join('')
+        + `</Relationships>`;
+
+    return createZip([
+        {
+            path: '[Content_Types].xml',
+            data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+                + `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>`
+                + `<Default Extension="xml" ContentType="application/xml"/>`
+                + `<Default Extension="png" ContentType="image/png"/>`
+                + `<Default Extension="jpeg" ContentType="image/jpeg"/>`
+                + `<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>`
+                + `<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>`
+                + `</Types>`,
+        },
+        {
+            path: '_rels/.rels',
+            data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+                + `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>`
+                + `</Relationships>`,
+        },
+        { path: 'word/document.xml', data: documentXml },
+        { path: 'word/styles.xml', data: stylesXml(layout) },
+        { path: 'word/_rels/document.xml.rels', data: documentRels },
+        ...context.media,
+    ]);
+}
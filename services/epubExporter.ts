@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Block, documentImageUrls, ExportDocument, ExportLayout } from './exportDocument';
+import { escapeXml, exportStyles, renderBlocks, renderTitle } from './htmlExporter';
+import { rasterizeImage } from './imageData';
+import { createZip, ZipEntry } from './zipWriter';
+
+/**
+ * Writes export documents as EPUB 3 books for e-readers: one chapter with the whole handout,
+ * a table of contents built from its sections, and the images stored inside the book.
+ */
+
+function xhtmlPage(title: string, body: string, head = ''): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="en" xml:lang="en">
+<head>
+<meta charset="utf-8"/>
+<title>${escapeXml(title)}</title>
+${head}
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+export async function createEpub(doc: ExportDocument, layout: ExportLayout): Promise<Uint8Array> {
+    // E-readers can't fetch web images, so every image is stored in the book or left out
+    const images: ZipEntry[] = [];
+    const imagePaths = new Map<string, string>();
+    for (const url of documentImageUrls(doc.blocks)) {
+        const image = await rasterizeImage(url);
+        if (!image) continue;
+        const path = `images/image${images.length + 1}.${image.mimeType === 'image/png' ? 'png' : 'jpg'}`;
+        images.push({ path: `OEBPS/${path}`, data: image.bytes });
+        imagePaths.set(url, path);
+    }
+
+    // Give each section heading an anchor for the table of contents
+    const sections = doc.blocks.filter(block => block.type === 'heading' && block.level === 2).map(block => (block as { text: string }).text);
+    let sectionIndex = 0;
+    const body = renderBlocks(doc.blocks, url => imagePaths.get(url) ?? null)
+        .replace(/<h2>/g, () => `<h2 id="section-${++sectionIndex}">`);
+
+    const content = xhtmlPage(doc.title, `${renderTitle(doc)}\n${body}`, '<link rel="stylesheet" type="text/css" href="style.css"/>');
+    const navItems = sections.length > 0
+        ? sections.map((text, index) => `<li><a href="content.xhtml#section-${index + 1}">${escapeXml(text)}</a></li>`).join('\n')
+        : `<li><a href="content.xhtml">${escapeXml(doc.title)}</a></li>`;
+    const nav = xhtmlPage('Contents', `<nav epub:type="toc" id="toc"><h1>Contents</h1><ol>\n${navItems}\n</ol></nav>`);
+
+    const identifier = `urn:uuid:${crypto.randomUUID()}`;
+    const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const imageItems = images.map((image, index) =>
+        `<item id="image${index + 1}" href="${image.path.replace('OEBPS/', '')}" media-type="${image.path.endsWith('.png') ? 'image/png' : 'image/jpeg'}"/>`
+    ).join('\n');
+    const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">${identifier}</dc:identifier>
+<dc:title>${escapeXml(doc.title)}</dc:title>
+<dc:language>en</dc:language>
+<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="content" href="content.xhtml" media-type="application/xhtml+xml"/>
+<item id="style" href="style.css" media-type="text/css"/>
+${imageItems}
+</manifest>
+<spine>
+<itemref idref="content"/>
+</spine>
+</package>`;
+
+    return createZip([
+        // The mimetype file must come first, uncompressed
+        { path: 'mimetype', data: 'application/epub+zip' },
+        {
+            path: 'META-INF/container.xml',
+            data: `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>`,
+        },
+        { path: 'OEBPS/content.opf', data: opf },
+        { path: 'OEBPS/nav.xhtml', data: nav },
+        { path: 'OEBPS/content.xhtml', data: content },
+        { path: 'OEBPS/style.css', data: exportStyles(layout) },
+        ...images,
+    ]);
+}
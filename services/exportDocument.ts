@@ -0,0 +1,234 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ExpandedContent, ContentLevel, DiagramKind } from '../types';
+
+/**
+ * A format-neutral outline of a handout, built from a teaching pack or simplified content.
+ * Each exporter (HTML/PDF, DOCX, EPUB) renders the same outline, so they all contain the same
+ * sections, images and links.
+ */
+
+export interface Inline {
+    text: string;
+    bold?: boolean;
+    italic?: boolean;
+    link?: string;
+}
+
+export type Block =
+    | { type: 'heading'; level: 1 | 2 | 3; text: string }
+    | { type: 'paragraph'; runs: Inline[] }
+    | { type: 'list'; ordered: boolean; items: Inline[][] }
+    | { type: 'image'; url: string; caption: string; description?: string }
+    /** Side-by-side columns, e.g. English next to its translation. */
+    | { type: 'columns'; columns: { heading: string; lang?: string; blocks: Block[] }[] };
+
+export interface ExportDocument {
+    title: string;
+    subtitle?: string;
+    blocks: Block[];
+}
+
+export interface ExportLayout {
+    /** A dyslexia-friendly font with wider letter and line spacing. */
+    dyslexiaFont: boolean;
+    /** Larger text for readers with low vision. */
+    largePrint: boolean;
+    /** English and the translation in two columns, when there is a translation. */
+    bilingual: boolean;
+}
+
+export const DEFAULT_EXPORT_LAYOUT: ExportLayout = {
+    dyslexiaFont: false,
+    largePrint: false,
+    bilingual: false,
+};
+
+export interface Typography {
+    /** A CSS font stack. */
+    fontFamily: string;
+    /** A single font for formats without fallbacks (DOCX). */
+    primaryFont: string;
+    fontSizePt: number;
+    lineHeight: number;
+    letterSpacingEm: number;
+}
+
+export function layoutTypography(layout: ExportLayout): Typography {
+    return {
+        fontFamily: layout.dyslexiaFont ? "'OpenDyslexic', 'Lexend', Verdana, sans-serif" : "'Inter', Arial, sans-serif",
+        primaryFont: layout.dyslexiaFont ? 'Verdana' : 'Arial',
+        fontSizePt: layout.largePrint ? 18 : 12,
+        lineHeight: layout.dyslexiaFont ? 1.8 : 1.5,
+        letterSpacingEm: layout.dyslexiaFont ? 0.05 : 0,
+    };
+}
+
+/** What can be exported: a teaching pack, or one level of a simplification with its translation. */
+export type ExportSource =
+    | {
+        kind: 'expanded';
+        topic: string;
+        content: ExpandedContent;
+        /** Drawn diagrams as image URLs, in the order of content.diagrams; null where one couldn't be drawn. */
+        diagramImages?: (string | null)[];
+    }
+    | {
+        kind: 'simplified';
+        title: string;
+        levelLabel: string;
+        content: ContentLevel;
+        sourceFilename?: string;
+        translation?: { language: string; lang?: string; content: ContentLevel };
+    };
+
+const INLINE_PATTERN = /\*\*(.+?)\*\*|__(.+?)__|\[([^\]]+)\]\(([^)\s]+)\)|\*(.+?)\*|(?<!\w)_(.+?)_(?!\w)/g;
+
+/** Bold, italic and link markup within a line of Markdown. */
+export function parseInline(text: string): Inline[] {
+    const runs: Inline[] = [];
+    let position = 0;
+    for (const match of text.matchAll(INLINE_PATTERN)) {
+        if (match.index! > position) runs.push({ text: text.slice(position, match.index) });
+        const [, bold, boldAlt, linkText, link, italic, italicAlt] = match;
+        if (bold ?? boldAlt) runs.push({ text: (bold ?? boldAlt)!, bold: true });
+        else if (linkText) runs.push({ text: linkText, link });
+        else runs.push({ text: (italic ?? italicAlt)!, italic: true });
+        position = match.index! + match[0].length;
+    }
+    if (position < text.length) runs.push({ text: text.slice(position) });
+    return runs;
+}
+
+/** The subset of Markdown the AI writes: paragraphs, headings, bulleted and numbered lists. */
+export function parseMarkdown(markdown: string): Block[] {
+    const blocks: Block[] = [];
+    let paragraph: string[] = [];
+    let list: { ordered: boolean; items: Inline[][] } | null = null;
+
+    const flush = () => {
+        if (paragraph.length > 0) blocks.push({ type: 'paragraph', runs: parseInline(paragraph.join(' ')) });
+        if (list) blocks.push({ type: 'list', ...list });
+        paragraph = [];
+        list = null;
+    };
+
+    for (const line of markdown.split('\n')) {
+        const heading = /^#{1,6}\s+(.*)$/.exec(line.trim());
+        const bullet = /^\s*[-*+]\s+(.*)$/.exec(line);
+        const numbered = /^\s*\d+[.)]\s+(.*)$/.exec(line);
+        if (!line.trim()) {
+            flush();
+        } else if (heading) {
+            flush();
+            blocks.push({ type: 'heading', level: 3, text: heading[1].replace(/\*\*/g, '') });
+        } else if (bullet || numbered) {
+            const ordered = !bullet;
+            if (paragraph.length > 0 || (list && list.ordered !== ordered)) flush();
+            list ??= { ordered, items: [] };
+            list.items.push(parseInline((bullet ?? numbered)![1]));
+        } else if (list) {
+            // A wrapped line continues the last list item
+            list.items[list.items.length - 1].push({ text: ` ${line.trim()}` });
+        } else {
+            paragraph.push(line.trim());
+        }
+    }
+    flush();
+    return blocks;
+}
+
+function section(heading: string, markdown: string): Block[] {
+    return [{ type: 'heading', level: 2, text: heading }, ...parseMarkdown(markdown)];
+}
+
+function listSection(heading: string, items: Inline[][]): Block[] {
+    return items.length > 0 ? [{ type: 'heading', level: 2, text: heading }, { type: 'list', ordered: false, items }] : [];
+}
+
+function expandedBlocks(content: ExpandedContent, diagramImages: (string | null)[]): Block[] {
+    const images = content.images.filter(image => image.url);
+    // Each diagram follows the section it illustrates; one that couldn't be drawn keeps its description
+    const diagrams = (kind: DiagramKind): Block[] => (content.diagrams ?? []).flatMap((diagram, index): Block[] => {
+        if (diagram.kind !== kind) return [];
+        const url = diagramImages[index];
+        return url
+            ? [{ type: 'image', url, caption: diagram.title, description: diagram.description }]
+            : [{ type: 'paragraph', runs: [{ text: `${diagram.title}: `, bold: true }, ...parseInline(diagram.description)] }];
+    });
+    return [
+        ...section('Definition & Introduction', content.definitionAndIntroduction),
+        ...diagrams('mindmap'),
+        ...section('Purpose / Importance', content.purposeOrImportance),
+        ...section('Detailed Workflow or Architecture', content.detailedWorkflowOrArchitecture),
+        ...diagrams('flowchart'),
+        ...section('Step-by-step Explanation', content.stepByStepExplanation),
+        ...diagrams('sequence'),
+        ...listSection('Real-life and Industry Examples', content.realLifeAndIndustryExamples.map(e => [{ text: `${e.example}: `, bold: true }, ...parseInline(e.explanation)])),
+        ...listSection('Applications & Use Cases', content.applicationsAndUseCases.map(parseInline)),
+        ...listSection('Merits', content.merits.map(parseInline)),
+        ...listSection('Demerits', content.demerits.map(parseInline)),
+        ...(images.length > 0 ? [
+            { type: 'heading', level: 2, text: 'Visual Aids' } as Block,
+            ...images.map((image): Block => ({ type: 'image', url: image.url, caption: image.caption, description: image.explanation })),
+        ] : []),
+        ...listSection('YouTube Sources', content.youtubeSources.map(s => [{ text: s.title, link: s.link }, { text: ` – ${s.relevance}` }])),
+        ...listSection('Web Sources', content.webSources.map(s => [{ text: s.title, link: s.link }])),
+        ...section('Summary / Key Takeaways', content.summaryOrKeyTakeaways),
+    ];
+}
+
+function contentLevelBlocks(content: ContentLevel, sourceFilename?: string): Block[] {
+    const media: Inline[][] = [
+        [{ text: 'Web: ' }, { text: content.media.webResource.title, link: content.media.webResource.link }],
+        [{ text: 'YouTube: ' }, { text: content.media.youtubeVideo.title, link: content.media.youtubeVideo.link }],
+    ];
+    if (sourceFilename) media.unshift([{ text: 'Source file: ' }, { text: sourceFilename, italic: true }]);
+    return [
+        ...section('Definition', content.definition),
+        ...section('Example', content.example),
+        ...section('Use Case', content.useCase),
+        ...section('Summary', content.summary),
+        ...listSection('Key Terms', content.keyTerms.map(item => [{ text: `${item.term}: `, bold: true }, ...parseInline(item.definition)])),
+        ...listSection('Related Media', media),
+    ];
+}
+
+export function buildExportDocument(source: ExportSource, layout: ExportLayout): ExportDocument {
+    if (source.kind === 'expanded') {
+        return { title: source.topic, subtitle: 'Teaching pack', blocks: expandedBlocks(source.content, source.diagramImages ?? []) };
+    }
+    const english = contentLevelBlocks(source.content, source.sourceFilename);
+    const { translation } = source;
+    return {
+        title: source.title,
+        subtitle: `${source.levelLabel} level`,
+        blocks: translation && layout.bilingual
+            ? [{
+                type: 'columns',
+                columns: [
+                    { heading: 'English', lang: 'en', blocks: english },
+                    { heading: translation.language, lang: translation.lang, blocks: contentLevelBlocks(translation.content) },
+                ],
+            }]
+            : english,
+    };
+}
+
+/** The URLs of every image in the blocks, including those inside columns. */
+export function documentImageUrls(blocks: Block[]): string[] {
+    return [...new Set(blocks.flatMap(block => {
+        if (block.type === 'image') return [block.url];
+        if (block.type === 'columns') return block.columns.flatMap(column => documentImageUrls(column.blocks));
+        return [];
+    }))];
+}
+
+/** A file name for an export, from the document title. */
+export function exportFilename(title: string, extension: string): string {
+    const base = title.replace(/[^\p{L}\p{N}\- ]+/gu, '').trim().replace(/\s+/g, '_').slice(0, 80);
+    return `${base || 'notes'}.${extension}`;
+}
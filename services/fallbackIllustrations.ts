@@ -0,0 +1,205 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageDetail } from '../types';
+
+/**
+ * Offline substitutes for teaching pack images that could not be generated. Everything is drawn
+ * locally as SVG from the image's prompt and caption, so fallbacks work without a network connection.
+ */
+
+export interface FallbackImage {
+    url: string;
+    source: string;
+}
+
+interface LibraryIcon {
+    name: string;
+    /**
+     * Words that suggest this icon, matched against whole words (and plurals) in the prompt and
+     * caption. A trailing `*` marks a stem, matched against the start of words instead.
+     */
+    keywords: string[];
+    /** Path data for a 24×24 stroked icon. */
+    path: string;
+}
+
+/** The bundled icon library, matched to images by keyword. The last entry is the generic default. */
+const iconLibrary: LibraryIcon[] = [
+    { name: 'leaf', keywords: ['plant', 'leaf', 'leaves', 'tree', 'forest', 'photosynth*', 'chlorophyll', 'garden', 'nature', 'ecosystem', 'biology', 'flower', 'crop', 'farm*'], path: 'M5 19c8 0 14-6 14-14-8 0-14 6-14 14zm0 0l7-7' },
+    { name: 'sun', keywords: ['sun', 'solar', 'light', 'star', 'day', 'summer', 'heat', 'radiation'], path: 'M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707M16 12a4 4 0 11-8 0 4 4 0 018 0z' },
+    { name: 'water', keywords: ['water', 'rain', 'ocean', 'sea', 'river', 'liquid', 'drop', 'hydro*', 'wet', 'fluid'], path: 'M12 3s-6 7-6 11a6 6 0 0012 0c0-4-6-11-6-11z' },
+    { name: 'cloud', keywords: ['cloud', 'weather', 'climate', 'sky', 'atmosphere', 'air', 'storage'], path: 'M3 15a4 4 0 004 4h9a5 5 0 10-.1-9.999 5.002 5.002 0 10-9.78 2.096A4.001 4.001 0 003 15z' },
+    { name: 'lightning', keywords: ['energy', 'electric*', 'power', 'battery', 'voltage', 'current', 'lightning', 'charge', 'fast'], path: 'M13 10V3L4 14h7v7l9-11h-7z' },
+    { name: 'beaker', keywords: ['chemi*', 'experiment*', 'lab', 'reaction', 'molecule', 'atom', 'science', 'acid', 'compound', 'element'], path: 'M19.428 15.428a2 2 0 00-1.022-.547l-2.387-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z' },
+    { name: 'heart', keywords: ['heart', 'health*', 'medic*', 'body', 'blood', 'care', 'emotion*', 'love', 'disease', 'cell'], path: 'M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z' },
+    { name: 'lightbulb', keywords: ['idea', 'brain', 'think*', 'mind', 'learn*', 'concept', 'innovat*', 'creativ*', 'invent*'], path: 'M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z' },
+    { name: 'chip', keywords: ['comput*', 'chip', 'processor', 'algorithm', 'data', 'ai', 'machine', 'robot*', 'software', 'code', 'digital', 'network', 'internet'], path: 'M9 3v2m6-2v2M9 19v2m6-2v2M5 9H3m2 6H3m18-6h-2m2 6h-2M7 19h10a2 2 0 002-2V7a2 2 0 00-2-2H7a2 2 0 00-2 2v10a2 2 0 002 2zM9 9h6v6H9V9z' },
+    { name: 'screen', keywords: ['screen', 'display', 'app', 'website', 'interface', 'dashboard', 'monitor', 'device'], path: 'M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z' },
+    { name: 'gear', keywords: ['engine*', 'gear', 'mechan*', 'process', 'system', 'industr*', 'factory', 'manufactur*', 'workflow', 'tool'], path: 'M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065zM15 12a3 3 0 11-6 0 3 3 0 016 0z' },
+    { name: 'globe', keywords: ['earth', 'world', 'global', 'planet', 'geograph*', 'country', 'countries', 'international', 'environment*'], path: 'M3.055 11H5a2 2 0 012 2v1a2 2 0 002 2 2 2 0 012 2v2.945M8 3.935V5.5A2.5 2.5 0 0010.5 8h.5a2 2 0 012 2 2 2 0 104 0 2 2 0 012-2h1.064M15 20.488V18a2 2 0 012-2h3.064M21 12a9 9 0 11-18 0 9 9 0 0118 0z' },
+    { name: 'map', keywords: ['map', 'route', 'travel*', 'journey', 'location', 'navigat*', 'histor*', 'region*'], path: 'M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7' },
+    { name: 'building', keywords: ['city', 'cities', 'building', 'urban', 'architect*', 'company', 'companies', 'business', 'office', 'bank', 'school', 'government'], path: 'M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4' },
+    { name: 'money', keywords: ['money', 'econom*', 'cost', 'price', 'financ*', 'market', 'trade', 'profit', 'invest*', 'budget'], path: 'M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z' },
+    { name: 'chart', keywords: ['chart', 'graph', 'statistic*', 'growth', 'compar*', 'trend', 'result', 'measure*', 'analys*'], path: 'M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z' },
+    { name: 'people', keywords: ['people', 'person', 'student', 'teacher', 'team', 'society', 'societies', 'communit*', 'human', 'user', 'family', 'social'], path: 'M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z' },
+    { name: 'book', keywords: ['book', 'read', 'reading', 'story', 'literature', 'language', 'write', 'writing', 'education', 'study', 'library', 'definition'], path: 'M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253' },
+    { name: 'music*', keywords: ['music*', 'sound', 'audio', 'song', 'wave', 'vibration', 'frequency', 'listen*'], path: 'M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3' },
+    { name: 'shield', keywords: ['security', 'safe', 'safety', 'protect*', 'defen*', 'privacy', 'immun*', 'risk', 'law'], path: 'M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z' },
+    { name: 'puzzle', keywords: ['puzzle', 'problem', 'solution', 'game', 'logic', 'connect*', 'part', 'component', 'structure'], path: 'M11 4a2 2 0 114 0v1a1 1 0 001 1h3a1 1 0 011 1v3a1 1 0 01-1 1h-1a2 2 0 100 4h1a1 1 0 011 1v3a1 1 0 01-1 1h-3a1 1 0 01-1-1v-1a2 2 0 10-4 0v1a1 1 0 01-1 1H7a1 1 0 01-1-1v-3a1 1 0 00-1-1H4a2 2 0 110-4h1a1 1 0 001-1V7a1 1 0 011-1h3a1 1 0 001-1V4z' },
+    { name: 'picture', keywords: [], path: 'M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z' },
+];
+
+/** Colour themes in the app's palette; each image gets one based on its caption. */
+const themes = [
+    { from: '#fdf2f8', to: '#fce7f3', accent: '#db2777', ink: '#831843' },
+    { from: '#f5f3ff', to: '#ede9fe', accent: '#7c3aed', ink: '#4c1d95' },
+    { from: '#ecfeff', to: '#cffafe', accent: '#0891b2', ink: '#164e63' },
+    { from: '#f0fdf4', to: '#dcfce7', accent: '#16a34a', ink: '#14532d' },
+    { from: '#fffbeb', to: '#fef3c7', accent: '#d97706', ink: '#78350f' },
+];
+
+const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'showing', 'shows', 'show', 'image', 'illustration',
+    'diagram', 'picture', 'photo', 'realistic', 'detailed', 'style', 'high', 'quality', 'quot', 'their', 'its', 'are',
+    'how', 'what', 'which', 'where', 'while', 'about', 'over', 'under', 'between', 'each', 'other', 'using', 'used',
+]);
+
+const WIDTH = 1280;
+const HEIGHT = 720;
+
+function hashText(text: string): number {
+    let hash = 0;
+    for (const char of text) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    return hash;
+}
+
+function escapeXml(value: string): string {
+    return value.replace(/[<>&'"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[char]!));
+}
+
+function words(text: string): string[] {
+    return text.toLowerCase().match(/[a-z][a-z-]+/g) ?? [];
+}
+
+/** Distinct content words of the prompt, in order, for the diagram's labels. */
+function extractKeywords(text: string, count: number): string[] {
+    const seen = new Set<string>();
+    for (const word of words(text)) {
+        if (word.length > 3 && !STOP_WORDS.has(word)) seen.add(word);
+        if (seen.size === count) break;
+    }
+    return [...seen];
+}
+
+/** Breaks text into at most `maxLines` lines of about `lineLength` characters, with an ellipsis if cut. */
+function wrapText(text: string, lineLength: number, maxLines: number): string[] {
+    const lines: string[] = [];
+    let current = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        if (current && (current + ' ' + word).length > lineLength) {
+            lines.push(current);
+            current = word;
+        } else {
+            current = current ? `${current} ${word}` : word;
+        }
+    }
+    if (current) lines.push(current);
+    if (lines.length > maxLines) {
+        lines.length = maxLines;
+        lines[maxLines - 1] = `${lines[maxLines - 1].replace(/[.,;:]?$/, '')}…`;
+    }
+    return lines;
+}
+
+function matchesKeyword(word: string, keyword: string): boolean {
+    if (keyword.endsWith('*')) return word.startsWith(keyword.slice(0, -1));
+    return word === keyword || word === `${keyword}s` || word === `${keyword}es`;
+}
+
+/** Library icons ordered by how many of their keywords appear in the text; the generic icon comes last. */
+function rankIcons(text: string): LibraryIcon[] {
+    const textWords = words(text);
+    const scored = iconLibrary
+        .map(icon => ({ icon, score: icon.keywords.filter(keyword => textWords.some(word => matchesKeyword(word, keyword))).length }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score);
+    return [...scored.map(({ icon }) => icon), iconLibrary[iconLibrary.length - 1]];
+}
+
+function toDataUrl(svg: string): string {
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+function renderCaption(lines: string[], y: number, ink: string): string {
+    return lines.map((line, i) =>
+        `<text x="${WIDTH / 2}" y="${y + i * 48}" font-family="Inter, Arial, sans-serif" font-size="38" font-weight="600" text-anchor="middle" fill="${ink}">${escapeXml(line)}</text>`
+    ).join('');
+}
+
+/** A themed card with a library icon and the image's caption. */
+function renderIllustrationCard(caption: string, icon: LibraryIcon, themeIndex: number): string {
+    const theme = themes[themeIndex % themes.length];
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}">
+<defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${theme.from}"/><stop offset="1" stop-color="${theme.to}"/></linearGradient></defs>
+<rect width="${WIDTH}" height="${HEIGHT}" fill="url(#bg)"/>
+<circle cx="${WIDTH / 2}" cy="260" r="170" fill="#ffffff" opacity="0.8"/>
+<g transform="translate(${WIDTH / 2 - 120} 140) scale(10)" fill="none" stroke="${theme.accent}" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"><path d="${icon.path}"/></g>
+${renderCaption(wrapText(caption, 48, 3), 520, theme.ink)}
+</svg>`;
+}
+
+/** A concept diagram: the caption in the middle, linked to the prompt's key words. */
+function renderDiagramCard(caption: string, keywords: string[], themeIndex: number): string {
+    const theme = themes[themeIndex % themes.length];
+    const center = { x: WIDTH / 2, y: 300 };
+    const nodes = keywords.map((keyword, i) => {
+        const angle = (Math.PI * 2 * i) / keywords.length - Math.PI / 2;
+        return { keyword, x: center.x + Math.cos(angle) * 420, y: center.y + Math.sin(angle) * 190 };
+    });
+    const title = wrapText(caption, 26, 3);
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}">
+<rect width="${WIDTH}" height="${HEIGHT}" fill="${theme.from}"/>
+${nodes.map(node => `<line x1="${center.x}" y1="${center.y}" x2="${node.x}" y2="${node.y}" stroke="${theme.accent}" stroke-width="4" stroke-dasharray="12 8" opacity="0.6"/>`).join('')}
+${nodes.map(node => `<g><rect x="${node.x - 130}" y="${node.y - 36}" width="260" height="72" rx="36" fill="#ffffff" stroke="${theme.accent}" stroke-width="3"/><text x="${node.x}" y="${node.y + 11}" font-family="Inter, Arial, sans-serif" font-size="30" text-anchor="middle" fill="${theme.ink}">${escapeXml(node.keyword)}</text></g>`).join('')}
+<rect x="${center.x - 250}" y="${center.y - 90}" width="500" height="180" rx="28" fill="${theme.accent}"/>
+${title.map((line, i) => `<text x="${center.x}" y="${center.y - (title.length - 1) * 21 + i * 42 + 12}" font-family="Inter, Arial, sans-serif" font-size="34" font-weight="700" text-anchor="middle" fill="#ffffff">${escapeXml(line)}</text>`).join('')}
+<text x="${WIDTH / 2}" y="${HEIGHT - 40}" font-family="Inter, Arial, sans-serif" font-size="24" text-anchor="middle" fill="${theme.ink}" opacity="0.7">Concept diagram</text>
+</svg>`;
+}
+
+/**
+ * Every offline substitute for an image, best first: an illustration with the best-matching library
+ * icon, a concept diagram, then illustrations with the other matching icons. Always non-empty.
+ */
+export function getFallbackImages(image: Pick<ImageDetail, 'prompt' | 'caption'>): FallbackImage[] {
+    const caption = image.caption || image.prompt;
+    const themeIndex = hashText(caption);
+    const [bestIcon, ...otherIcons] = rankIcons(`${image.prompt} ${image.caption}`);
+    const keywords = extractKeywords(image.prompt || image.caption, 4);
+
+    const options: FallbackImage[] = [
+        { url: toDataUrl(renderIllustrationCard(caption, bestIcon, themeIndex)), source: `Illustration (${bestIcon.name} icon)` },
+    ];
+    if (keywords.length >= 2) {
+        options.push({ url: toDataUrl(renderDiagramCard(caption, keywords, themeIndex)), source: 'Concept diagram' });
+    }
+    otherIcons.slice(0, 3).forEach((icon, i) => {
+        options.push({ url: toDataUrl(renderIllustrationCard(caption, icon, themeIndex + i + 1)), source: `Illustration (${icon.name} icon)` });
+    });
+    return options;
+}
+
+/** The preferred offline substitute for an image. */
+export function createFallbackImage(image: Pick<ImageDetail, 'prompt' | 'caption'>): FallbackImage {
+    return getFallbackImages(image)[0];
+}
+
+/** The substitute after `currentUrl` in the list of options, wrapping around; the first one if it isn't in the list. */
+export function nextFallbackImage(image: Pick<ImageDetail, 'prompt' | 'caption'>, currentUrl: string): FallbackImage {
+    const options = getFallbackImages(image);
+    const currentIndex = options.findIndex(option => option.url === currentUrl);
+    return options[(currentIndex + 1) % options.length];
+}
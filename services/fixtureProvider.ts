@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type {
+    LLMProvider,
+    TextGenerationRequest,
+    TextGenerationResult,
+    ImageGenerationRequest,
+    ImageGenerationResult,
+} from './llmProvider';
+import { fixtureResponses, fixturePromptResponses } from './fixtureResponses';
+import { AICancelledError } from './aiErrors';
+
+interface FixtureProviderOptions {
+    /** Artificial delay per call, and per chunk when streaming, so loading states can be demoed. */
+    latencyMs?: number;
+}
+
+/**
+ * Base64-encodes a UTF-8 string. Works in browsers and in Node.
+ */
+function toBase64(value: string): string {
+    const bytes = new TextEncoder().encode(value);
+    let binary = '';
+    bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+    return btoa(binary);
+}
+
+function escapeXml(value: string): string {
+    return value.replace(/[<>&'"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[char]!));
+}
+
+/**
+ * A deterministic placeholder illustration: the same prompt always yields the same image.
+ */
+function renderPlaceholderSvg(prompt: string): string {
+    let hash = 0;
+    for (const char of prompt) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    const hue = hash % 360;
+    const label = prompt.length > 60 ? `${prompt.slice(0, 57)}...` : prompt;
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="1280" height="720" viewBox="0 0 1280 720">
+<rect width="1280" height="720" fill="hsl(${hue}, 70%, 92%)"/>
+<circle cx="640" cy="300" r="140" fill="hsl(${hue}, 60%, 70%)"/>
+<text x="640" y="560" font-family="Inter, sans-serif" font-size="36" text-anchor="middle" fill="hsl(${hue}, 50%, 25%)">${escapeXml(label)}</text>
+</svg>`;
+}
+
+/** Characters per streamed chunk, roughly what Gemini sends per chunk. */
+const STREAM_CHUNK_SIZE = 200;
+
+function fixtureText(request: TextGenerationRequest): string {
+    const promptFixture = request.prompts?.map(ref => fixturePromptResponses[ref.id]).find(Boolean);
+    const fixture = promptFixture ?? fixtureResponses[request.operation];
+    return typeof fixture === 'string' ? fixture : JSON.stringify(fixture);
+}
+
+/**
+ * Creates an offline provider that answers every operation with canned, schema-valid fixtures.
+ * Used for demos and end-to-end testing without a network connection or API key.
+ */
+export function createFixtureProvider({ latencyMs = 0 }: FixtureProviderOptions = {}): LLMProvider {
+    const delay = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new AICancelledError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, latencyMs);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    return {
+        name: 'fixture',
+        model: 'fixture',
+
+        async generateText(request: TextGenerationRequest): Promise<TextGenerationResult> {
+            await delay(request.signal);
+            return { text: fixtureText(request), usage: { promptTokens: 0, outputTokens: 0, totalTokens: 0 } };
+        },
+
+        async *streamText(request: TextGenerationRequest): AsyncIterable<TextGenerationResult> {
+            await delay(request.signal);
+            const text = fixtureText(request);
+            for (let start = 0; start < text.length; start += STREAM_CHUNK_SIZE) {
+                yield { text: text.slice(start, start + STREAM_CHUNK_SIZE) };
+                await delay(request.signal);
+            }
+        },
+
+        async generateImage(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+            await delay(request.signal);
+            return {
+                mimeType: 'image/svg+xml',
+                data: toBase64(renderPlaceholderSvg(request.prompt)),
+                usage: { promptTokens: 0, outputTokens: 0, totalTokens: 0 },
+            };
+        },
+    };
+}
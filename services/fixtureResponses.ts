@@ -0,0 +1,191 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AIOperation } from './llmProvider';
+import type { PromptId } from './promptRegistry';
+import {
+    ContentLevel,
+    SimplifiedContent,
+    ExpandedContent,
+    ComprehensionQuestion,
+    TestResult,
+    QuizQuestion,
+} from '../types';
+
+/**
+ * Canned, schema-valid responses used by the fixture provider.
+ * Structured operations return the JSON the model would produce; free-text operations return Markdown.
+ */
+
+const photosynthesisLevel = (tone: string): ContentLevel => ({
+    definition: `${tone} Photosynthesis is how green plants make their own food using sunlight, water and carbon dioxide.`,
+    example: "A sunflower in a garden turns sunlight into sugar in its leaves, then uses that sugar to grow taller.",
+    useCase: "Farmers plan greenhouse lighting and watering so crops can photosynthesise as much as possible.",
+    summary: "Plants capture light energy and store it as chemical energy in sugar, releasing oxygen as a by-product.",
+    keyTerms: [
+        { term: "Chlorophyll", definition: "The green pigment in leaves that absorbs sunlight." },
+        { term: "Glucose", definition: "The sugar a plant makes and uses for energy." },
+        { term: "Stomata", definition: "Tiny pores on leaves that let gases in and out." },
+    ],
+    media: {
+        webResource: { title: "Photosynthesis - Khan Academy", link: "https://www.khanacademy.org/science/biology/photosynthesis-in-plants" },
+        youtubeVideo: { title: "Photosynthesis for Kids", link: "https://www.youtube.com/watch?v=D1Ymc311XS8" },
+    },
+});
+
+const simplifiedContent: SimplifiedContent = {
+    suggestedLevel: 'beginner',
+    beginner: photosynthesisLevel("Imagine a leaf as a tiny kitchen."),
+    intermediate: photosynthesisLevel("In simple terms,"),
+    advancedSimplified: photosynthesisLevel("Technically,"),
+};
+
+const translatedLevel: ContentLevel = {
+    definition: "प्रकाश संश्लेषण वह प्रक्रिया है जिससे हरे पौधे सूर्य के प्रकाश, पानी और कार्बन डाइऑक्साइड से अपना भोजन बनाते हैं।",
+    example: "बगीचे में एक सूरजमुखी अपनी पत्तियों में सूर्य के प्रकाश को शर्करा में बदलता है।",
+    useCase: "किसान ग्रीनहाउस में रोशनी और पानी की योजना बनाते हैं ताकि फसलें अधिक प्रकाश संश्लेषण कर सकें।",
+    summary: "पौधे प्रकाश ऊर्जा को शर्करा में रासायनिक ऊर्जा के रूप में संग्रहित करते हैं और ऑक्सीजन छोड़ते हैं।",
+    keyTerms: [
+        { term: "क्लोरोफिल (Chlorophyll)", definition: "पत्तियों का हरा वर्णक जो सूर्य का प्रकाश सोखता है।" },
+        { term: "ग्लूकोज़ (Glucose)", definition: "वह शर्करा जिसे पौधा ऊर्जा के लिए बनाता है।" },
+    ],
+    media: {
+        webResource: { title: "Photosynthesis - Khan Academy", link: "https://www.khanacademy.org/science/biology/photosynthesis-in-plants" },
+        youtubeVideo: { title: "Photosynthesis for Kids", link: "https://www.youtube.com/watch?v=D1Ymc311XS8" },
+    },
+};
+
+const expandedImageSubjects = [
+    "a sunlit green leaf", "a cross-section of a chloroplast", "stomata on a leaf surface", "roots absorbing water",
+    "a greenhouse full of crops", "the light-dependent reactions", "the Calvin cycle", "oxygen bubbles from pond weed",
+    "a forest canopy from above", "a farmer inspecting wheat",
+];
+
+const expandedContent: Omit<ExpandedContent, 'images'> & { images: Omit<ExpandedContent['images'][number], 'url'>[] } = {
+    definitionAndIntroduction: "**Photosynthesis** is the process by which plants, algae and some bacteria convert light energy into chemical energy stored in glucose.",
+    purposeOrImportance: "It produces the oxygen we breathe and forms the base of almost every food chain on Earth.",
+    detailedWorkflowOrArchitecture: "Photosynthesis happens in the **chloroplast** in two linked stages:\n\n1. **Light-dependent reactions** in the thylakoid membranes capture light and split water.\n2. **The Calvin cycle** in the stroma uses that energy to fix carbon dioxide into sugar.",
+    stepByStepExplanation: "1. Light hits chlorophyll.\n2. Water is split, releasing oxygen.\n3. Energy carriers (ATP and NADPH) are made.\n4. Carbon dioxide enters through the stomata.\n5. The Calvin cycle builds glucose.",
+    realLifeAndIndustryExamples: [
+        { example: "Greenhouse farming", explanation: "Growers tune light and CO₂ levels to boost crop yields." },
+        { example: "Algae biofuels", explanation: "Engineers grow algae that store sunlight as oils for fuel." },
+    ],
+    applicationsAndUseCases: ["Food production", "Carbon capture", "Biofuel research"],
+    merits: ["Produces oxygen", "Stores solar energy as food", "Removes carbon dioxide from the air"],
+    demerits: ["Depends on light availability", "Slows down in extreme temperatures"],
+    images: expandedImageSubjects.map((subject, index) => ({
+        prompt: `A clear, labelled educational illustration of ${subject}`,
+        caption: `Figure ${index + 1}: ${subject.charAt(0).toUpperCase()}${subject.slice(1)}`,
+        explanation: `This picture shows ${subject} and how it relates to photosynthesis.`,
+        relevance: "Helps learners connect the diagram to the written explanation.",
+    })),
+    diagrams: [
+        {
+            kind: 'flowchart',
+            title: "The two stages of photosynthesis",
+            description: "Light and water feed the light-dependent reactions, whose energy drives the Calvin cycle to turn carbon dioxide into glucose.",
+            source: 'flowchart TD\n    L[Sunlight] --> T["Light-dependent reactions (thylakoid)"]\n    W[Water] --> T\n    T --> O[Oxygen released]\n    T -->|ATP and NADPH| C["Calvin cycle (stroma)"]\n    CO2[Carbon dioxide] --> C\n    C --> G[Glucose]',
+        },
+        {
+            kind: 'sequence',
+            title: "Step by step through a leaf",
+            description: "Chlorophyll captures light, water is split, and the energy carriers power the Calvin cycle.",
+            source: 'sequenceDiagram\n    participant Sun\n    participant Chlorophyll\n    participant Calvin as Calvin cycle\n    Sun->>Chlorophyll: Light energy\n    Chlorophyll->>Chlorophyll: Split water, release oxygen\n    Chlorophyll->>Calvin: ATP and NADPH\n    Calvin->>Calvin: Fix carbon dioxide into glucose',
+        },
+        {
+            kind: 'mindmap',
+            title: "Photosynthesis at a glance",
+            description: "The inputs, stages and outputs of photosynthesis.",
+            source: 'mindmap\n  root((Photosynthesis))\n    Inputs\n      Light\n      Water\n      Carbon dioxide\n    Stages\n      Light-dependent reactions\n      Calvin cycle\n    Outputs\n      Glucose\n      Oxygen',
+        },
+    ],
+    youtubeSources: [
+        { title: "Photosynthesis: Crash Course Biology", link: "https://www.youtube.com/watch?v=sQK3Yr4Sc_k", relevance: "A fast-paced overview of both stages." },
+    ],
+    webSources: [
+        { title: "Photosynthesis - National Geographic", link: "https://education.nationalgeographic.org/resource/photosynthesis/" },
+    ],
+    summaryOrKeyTakeaways: "Plants turn light, water and carbon dioxide into glucose and oxygen, powering life on Earth.",
+};
+
+const comprehensionTest: ComprehensionQuestion[] = [
+    { question: "What is photosynthesis?", type: 'multiple-choice', options: ["Making food from light", "Breathing in oxygen", "Absorbing minerals", "Releasing heat"], reference: "Definition" },
+    { question: "Name the two stages of photosynthesis.", type: 'short-answer', reference: "Workflow" },
+    { question: "Why is photosynthesis important for animals?", type: 'short-answer', reference: "Importance" },
+    { question: "A greenhouse owner wants bigger tomatoes. What two things could they adjust, and why?", type: 'scenario', reference: "Real-world application" },
+];
+
+const testResult: TestResult = {
+    overallFeedback: "Great effort! You clearly understand what photosynthesis is and why it matters.",
+    understandingLevel: 'moderate',
+    areasToRevisit: ["The Calvin cycle"],
+};
+
+const quiz: QuizQuestion[] = [
+    { question: "Which gas do plants absorb for photosynthesis?", options: ["Oxygen", "Carbon dioxide", "Nitrogen", "Helium"], correctAnswerIndex: 1 },
+    { question: "Where does photosynthesis mainly take place?", options: ["Roots", "Stem", "Leaves", "Flowers"], correctAnswerIndex: 2 },
+    { question: "What pigment makes leaves green?", options: ["Chlorophyll", "Melanin", "Carotene", "Keratin"], correctAnswerIndex: 0 },
+    { question: "Which sugar is produced by photosynthesis?", options: ["Lactose", "Sucrose", "Fructose", "Glucose"], correctAnswerIndex: 3 },
+    { question: "What is released as a by-product?", options: ["Oxygen", "Carbon dioxide", "Water vapour only", "Methane"], correctAnswerIndex: 0 },
+];
+
+export const fixtureResponses: Record<AIOperation, string | object> = {
+    generateSimplifiedContent: simplifiedContent,
+    translateContent: translatedLevel,
+    generateExpandedContent: expandedContent,
+    generateDiagram: {
+        kind: 'flowchart',
+        title: "The two stages of photosynthesis",
+        description: "Light and water feed the light-dependent reactions, whose energy drives the Calvin cycle to turn carbon dioxide into glucose.",
+        source: 'flowchart TD\n    L[Sunlight] --> T[Light-dependent reactions]\n    T --> C[Calvin cycle]\n    C --> G[Glucose]',
+    },
+    generateComprehensionTest: comprehensionTest,
+    evaluateComprehensionTest: testResult,
+    generateAnalyticsInsights: [
+        "You're on a roll with quizzes — keep that streak going!",
+        "Your puzzle-solving shows strong logical thinking. Try a Hard puzzle next.",
+        "Give a Debate challenge a go to stretch your argumentation skills.",
+    ],
+    getThinkBotChallenge: {
+        title: "The Bridge of Seven Planks",
+        description: "A rickety bridge has seven planks, and only some can hold weight.",
+        task: "Using three clues, work out which planks are safe and explain your reasoning.",
+        suggestedTime: 10,
+    },
+    generateCustomThinkBotChallenge: {
+        title: "Design for a Tiny World",
+        description: "Imagine you have shrunk to the size of an ant.",
+        task: "Design a tool that helps you cross a garden safely and explain each feature.",
+        suggestedTime: 10,
+    },
+    getOddOneOutChallenge: {
+        title: "Which one doesn't belong?",
+        task: "From the list below, identify the item that is the odd one out and be prepared to justify your answer.",
+        items: ["Mercury", "Venus", "Mars", "Moon"],
+        suggestedTime: 2,
+    },
+    getImagePuzzleChallenge: "Concept: A clock with wings flying over a city. Solution: 'Time flies'.",
+    getListeningPracticeChallenge: {
+        title: "The Lost Kite",
+        story: "On a windy Saturday, Meera flew her red kite in the park near the old library. A sudden gust snapped the string, and the kite drifted over the pond. Her brother Arjun spotted it stuck in a mango tree beside the ice-cream stall. Together they borrowed a ladder from the gardener, Mr. Das, and rescued it just before the rain began. To say thank you, they bought Mr. Das a cup of masala chai.",
+        questions: [
+            { question: "What colour was the kite?", options: ["Blue", "Red", "Green", "Yellow"], correctAnswerIndex: 1 },
+            { question: "Where did the kite get stuck?", options: ["A mango tree", "The library roof", "The pond", "A lamp post"], correctAnswerIndex: 0 },
+            { question: "What did they buy for Mr. Das?", options: ["Ice cream", "A new ladder", "Masala chai", "Samosas"], correctAnswerIndex: 2 },
+        ],
+    },
+    evaluateSolution: "**Nice work!** Your answer shows clear, step-by-step thinking.\n\nTo make it even stronger, explain *why* you ruled out the other options and give one concrete example.",
+    generateQuiz: quiz,
+    getQuizFeedback: "Well done on finishing the quiz! Review the questions you missed, then try exploring **plant respiration** next.",
+    getListeningPracticeFeedback: "Good listening! You caught most of the key details. Try replaying the story and focusing on names and places.",
+};
+
+/**
+ * Responses for prompts whose output differs from the rest of their operation, e.g. the text
+ * of a long document written out before it is simplified section by section.
+ */
+export const fixturePromptResponses: Partial<Record<PromptId, string | object>> = {
+    'simplify.extractText': "# Light-dependent reactions\n\nIn the thylakoid membranes, chlorophyll absorbs light and splits water, releasing oxygen and storing energy in ATP and NADPH.\n\n# The Calvin cycle\n\nIn the stroma, the cell uses ATP and NADPH to fix carbon dioxide into sugar.",
+};
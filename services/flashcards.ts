@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { SimplifiedContent } from '../types';
+import { getSessionUser } from './sessionContext';
+import { isIndexedDBAvailable, openDatabase, requestToPromise, transactionDone } from './idbStore';
+
+/**
+ * Flashcards made from the key terms of simplified content, one deck per topic, reviewed on an
+ * SM-2 schedule: cards the learner remembers come back after longer and longer gaps, and cards
+ * they forget start again the next day. Decks and schedules are stored per user in IndexedDB.
+ */
+
+const DB_NAME = 'flashcards';
+const DB_VERSION = 1;
+const DECKS_STORE = 'decks';
+const CARDS_STORE = 'cards';
+const USER_INDEX = 'userId';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE_FACTOR = 1.3;
+
+export interface FlashcardDeck {
+    id: string;
+    userId: string;
+    title: string;
+    createdAt: number;
+}
+
+export interface Flashcard {
+    id: string;
+    deckId: string;
+    userId: string;
+    term: string;
+    definition: string;
+    /** Reviews in a row the learner remembered the card. */
+    repetitions: number;
+    intervalDays: number;
+    easeFactor: number;
+    dueAt: number;
+    lastReviewedAt?: number;
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+/** The grades offered after a card is flipped, with their SM-2 quality (0–5). */
+export const reviewGrades: Record<ReviewGrade, { label: string; quality: number }> = {
+    again: { label: 'Again', quality: 1 },
+    hard: { label: 'Hard', quality: 3 },
+    good: { label: 'Good', quality: 4 },
+    easy: { label: 'Easy', quality: 5 },
+};
+
+export function isFlashcardsAvailable(): boolean {
+    return isIndexedDBAvailable();
+}
+
+function openFlashcards(): Promise<IDBDatabase> {
+    return openDatabase(DB_NAME, DB_VERSION, db => {
+        if (!db.objectStoreNames.contains(DECKS_STORE)) {
+            db.createObjectStore(DECKS_STORE, { keyPath: 'id' }).createIndex(USER_INDEX, 'userId');
+        }
+        if (!db.objectStoreNames.contains(CARDS_STORE)) {
+            db.createObjectStore(CARDS_STORE, { keyPath: 'id' }).createIndex(USER_INDEX, 'userId');
+        }
+    });
+}
+
+function newId(prefix: string): string {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** The card's schedule after a review, following SM-2. */
+export function scheduleReview(card: Flashcard, grade: ReviewGrade, now = Date.now()): Flashcard {
+    const quality = reviewGrades[grade].quality;
+    const easeFactor = Math.max(MIN_EASE_FACTOR, card.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+    if (quality < 3) {
+        return { ...card, repetitions: 0, intervalDays: 1, easeFactor, dueAt: now + DAY_MS, lastReviewedAt: now };
+    }
+    const repetitions = card.repetitions + 1;
+    const intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.intervalDays * card.easeFactor);
+    return { ...card, repetitions, intervalDays, easeFactor, dueAt: now + intervalDays * DAY_MS, lastReviewedAt: now };
+}
+
+/** A review interval as the learner reads it, e.g. "1 day" or "3 months". */
+export function describeInterval(days: number): string {
+    const [amount, unit] = days >= 365 ? [Math.round(days / 365), 'year']
+        : days >= 30 ? [Math.round(days / 30), 'month']
+        : [days, 'day'];
+    return `${amount} ${unit}${amount === 1 ? '' : 's'}`;
+}
+
+export function isDue(card: Flashcard, now = Date.now()): boolean {
+    return card.dueAt <= now;
+}
+
+/**
+ * The key terms of all three levels, without duplicates. Definitions come from the suggested
+ * level first, as that is the one written for the learner.
+ */
+export function collectKeyTerms(content: SimplifiedContent): { term: string; definition: string }[] {
+    const levels = [content.suggestedLevel, 'beginner', 'intermediate', 'advancedSimplified'] as const;
+    const terms = new Map<string, { term: string; definition: string }>();
+    for (const level of levels) {
+        for (const { term, definition } of content[level].keyTerms) {
+            const key = term.trim().toLowerCase();
+            if (key && definition.trim() && !terms.has(key)) terms.set(key, { term: term.trim(), definition: definition.trim() });
+        }
+    }
+    return [...terms.values()];
+}
+
+/**
+ * Creates or updates the deck for a simplified topic from its key terms. Cards that already exist
+ * keep their review schedule; new terms are due straight away. Returns null when there is no
+ * signed-in user, no storage or no key terms.
+ */
+export async function syncFlashcardDeck(title: string, content: SimplifiedContent, userId = getSessionUser()?.id): Promise<FlashcardDeck | null> {
+    const terms = collectKeyTerms(content);
+    if (!userId || !isFlashcardsAvailable() || terms.length === 0 || !title.trim()) return null;
+
+    const db = await openFlashcards();
+    const transaction = db.transaction([DECKS_STORE, CARDS_STORE], 'readwrite');
+    const decks = transaction.objectStore(DECKS_STORE);
+    const cards = transaction.objectStore(CARDS_STORE);
+
+    const userDecks = await requestToPromise<FlashcardDeck[]>(decks.index(USER_INDEX).getAll(userId));
+    let deck = userDecks.find(other => other.title.toLowerCase() === title.trim().toLowerCase());
+    if (!deck) {
+        deck = { id: newId('deck'), userId, title: title.trim(), createdAt: Date.now() };
+        decks.put(deck);
+    }
+    const deckId = deck.id;
+    const existing = (await requestToPromise<Flashcard[]>(cards.index(USER_INDEX).getAll(userId))).filter(card => card.deckId === deckId);
+    for (const { term, definition } of terms) {
+        const card = existing.find(other => other.term.toLowerCase() === term.toLowerCase());
+        cards.put(card
+            ? { ...card, definition }
+            : { id: newId('card'), deckId, userId, term, definition, repetitions: 0, intervalDays: 0, easeFactor: 2.5, dueAt: Date.now() });
+    }
+    await transactionDone(transaction);
+    return deck;
+}
+
+export async function listFlashcardDecks(userId = getSessionUser()?.id): Promise<FlashcardDeck[]> {
+    if (!userId || !isFlashcardsAvailable()) return [];
+    const db = await openFlashcards();
+    return requestToPromise<FlashcardDeck[]>(db.transaction(DECKS_STORE, 'readonly').objectStore(DECKS_STORE).index(USER_INDEX).getAll(userId));
+}
+
+export async function listFlashcards(userId = getSessionUser()?.id): Promise<Flashcard[]> {
+    if (!userId || !isFlashcardsAvailable()) return [];
+    const db = await openFlashcards();
+    return requestToPromise<Flashcard[]>(db.transaction(CARDS_STORE, 'readonly').objectStore(CARDS_STORE).index(USER_INDEX).getAll(userId));
+}
+
+/** Stores a card's new schedule after a review. */
+export async function saveFlashcard(card: Flashcard): Promise<void> {
+    const db = await openFlashcards();
+    const transaction = db.transaction(CARDS_STORE, 'readwrite');
+    transaction.objectStore(CARDS_STORE).put(card);
+    await transactionDone(transaction);
+}
+
+/** Deletes a deck and its cards. */
+export async function deleteFlashcardDeck(deck: FlashcardDeck): Promise<void> {
+    const db = await openFlashcards();
+    const transaction = db.transaction([DECKS_STORE, CARDS_STORE], 'readwrite');
+    const cards = transaction.objectStore(CARDS_STORE);
+    const userCards = await requestToPromise<Flashcard[]>(cards.index(USER_INDEX).getAll(deck.userId));
+    userCards.filter(card => card.deckId === deck.id).forEach(card => cards.delete(card.id));
+    transaction.objectStore(DECKS_STORE).delete(deck.id);
+    await transactionDone(transaction);
+}
+
+/** How many of the user's cards are due now, and how many they have in total. */
+export async function countFlashcards(userId = getSessionUser()?.id, now = Date.now()): Promise<{ due: number; total: number }> {
+    const cards = await listFlashcards(userId);
+    return { due: cards.filter(card => isDue(card, now)).length, total: cards.length };
+}
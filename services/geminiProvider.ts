@@ -0,0 +1,209 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GoogleGenAI, GenerateContentResponse, ApiError, FinishReason, HarmCategory, HarmBlockThreshold, SafetySetting } from "@google/genai";
+import type {
+    LLMProvider,
+    TextGenerationRequest,
+    TextGenerationResult,
+    ImageGenerationRequest,
+    ImageGenerationResult,
+    TokenUsage,
+} from './llmProvider';
+import {
+    AIServiceError,
+    AINotConfiguredError,
+    QuotaExceededError,
+    RateLimitError,
+    SafetyBlockedError,
+    NetworkError,
+} from './aiErrors';
+import type { ModelSafetyLevel } from './contentModeration';
+
+const moderatedHarmCategories = [
+    HarmCategory.HARM_CATEGORY_HARASSMENT,
+    HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+    HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+    HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+];
+
+/** Gemini's safety settings for a level: 'strict' blocks at low probability of harm, 'standard' at medium. */
+function toSafetySettings(level: ModelSafetyLevel | undefined): SafetySetting[] | undefined {
+    if (!level) return undefined;
+    const threshold = level === 'strict' ? HarmBlockThreshold.BLOCK_LOW_AND_ABOVE : HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE;
+    return moderatedHarmCategories.map(category => ({ category, threshold }));
+}
+
+interface GeminiProviderOptions {
+    /** Called on every request so a key entered at runtime is picked up without a reload. */
+    resolveApiKey: () => string | null;
+    textModel?: string;
+    imageModel?: string;
+}
+
+const DEFAULT_TEXT_MODEL = 'gemini-2.5-flash';
+const DEFAULT_IMAGE_MODEL = 'gemini-2.5-flash-image';
+
+function toTokenUsage(response: GenerateContentResponse): TokenUsage | undefined {
+    const metadata = response.usageMetadata;
+    if (!metadata) return undefined;
+    return {
+        promptTokens: metadata.promptTokenCount ?? 0,
+        outputTokens: metadata.candidatesTokenCount ?? 0,
+        totalTokens: metadata.totalTokenCount ?? 0,
+    };
+}
+
+const SAFETY_FINISH_REASONS: string[] = [
+    FinishReason.SAFETY,
+    FinishReason.BLOCKLIST,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.SPII,
+    FinishReason.IMAGE_SAFETY,
+    FinishReason.IMAGE_PROHIBITED_CONTENT,
+];
+
+/**
+ * Throws a SafetyBlockedError if the prompt or the answer was blocked by Gemini's safety filters.
+ */
+function assertNotBlocked(response: GenerateContentResponse): void {
+    if (response.promptFeedback?.blockReason) {
+        throw new SafetyBlockedError();
+    }
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && SAFETY_FINISH_REASONS.includes(finishReason)) {
+        throw new SafetyBlockedError();
+    }
+}
+
+/**
+ * Maps a Gemini SDK or fetch failure onto the shared error taxonomy. Gemini reports both
+ * per-minute and daily limits as HTTP 429, so the message is used to tell a spent quota apart.
+ */
+function toAIError(error: unknown): unknown {
+    if (error instanceof AIServiceError) {
+        return error;
+    }
+    if (error instanceof ApiError) {
+        if (error.status === 429) {
+            return /quota/i.test(error.message) && /per day|daily|billing|plan/i.test(error.message)
+                ? new QuotaExceededError()
+                : new RateLimitError();
+        }
+        if ((error.status === 400 || error.status === 401 || error.status === 403) && /api key/i.test(error.message)) {
+            return new AINotConfiguredError("The saved Gemini API key was rejected. Update it in Settings.");
+        }
+        if (error.status >= 500) {
+            return new NetworkError("The AI service is temporarily unavailable.");
+        }
+        return error;
+    }
+    if (error instanceof TypeError) {
+        return new NetworkError();
+    }
+    return error;
+}
+
+/**
+ * Checks that a key is accepted by the Gemini API by looking up the default text model.
+ * Resolves if the key works; rejects with a user-readable message otherwise.
+ */
+export async function validateGeminiApiKey(apiKey: string): Promise<void> {
+    if (!apiKey.trim()) {
+        throw new Error("Please enter an API key.");
+    }
+    try {
+        await new GoogleGenAI({ apiKey: apiKey.trim() }).models.get({ model: DEFAULT_TEXT_MODEL });
+    } catch (error) {
+        console.error("API key validation failed:", error);
+        throw new Error("This API key was rejected by Gemini. Please check it and try again.");
+    }
+}
+
+/**
+ * Creates a provider backed by the Google Gemini API.
+ * The API key is resolved lazily on the first call rather than when the provider is created.
+ */
+export function createGeminiProvider({
+    resolveApiKey,
+    textModel = DEFAULT_TEXT_MODEL,
+    imageModel = DEFAULT_IMAGE_MODEL,
+}: GeminiProviderOptions): LLMProvider {
+    let client: { apiKey: string; ai: GoogleGenAI } | null = null;
+
+    const getClient = (): GoogleGenAI => {
+        const apiKey = resolveApiKey();
+        if (!apiKey) {
+            throw new AINotConfiguredError();
+        }
+        if (!client || client.apiKey !== apiKey) {
+            client = { apiKey, ai: new GoogleGenAI({ apiKey }) };
+        }
+        return client.ai;
+    };
+
+    const toTextParameters = (request: TextGenerationRequest) => ({
+        model: request.model ?? textModel,
+        contents: typeof request.contents === 'string' ? request.contents : { parts: request.contents },
+        config: {
+            abortSignal: request.signal,
+            safetySettings: toSafetySettings(request.safetyLevel),
+            temperature: request.temperature,
+            maxOutputTokens: request.maxOutputTokens,
+            ...(request.systemInstruction && { systemInstruction: request.systemInstruction }),
+            ...(request.responseSchema && {
+                responseMimeType: "application/json",
+                responseSchema: request.responseSchema,
+            }),
+        },
+    });
+
+    return {
+        name: 'gemini',
+        model: textModel,
+        imageModel,
+
+        async generateText(request: TextGenerationRequest): Promise<TextGenerationResult> {
+            const response = await getClient().models.generateContent(toTextParameters(request))
+                .catch(error => { throw toAIError(error); });
+            assertNotBlocked(response);
+            return { text: response.text ?? '', usage: toTokenUsage(response) };
+        },
+
+        async *streamText(request: TextGenerationRequest): AsyncIterable<TextGenerationResult> {
+            try {
+                const stream = await getClient().models.generateContentStream(toTextParameters(request));
+                for await (const chunk of stream) {
+                    assertNotBlocked(chunk);
+                    yield { text: chunk.text ?? '', usage: toTokenUsage(chunk) };
+                }
+            } catch (error) {
+                throw toAIError(error);
+            }
+        },
+
+        async generateImage(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+            const response = await getClient().models.generateContent({
+                model: request.model ?? imageModel,
+                contents: { parts: [{ text: request.prompt }] },
+                config: {
+                    abortSignal: request.signal,
+                    safetySettings: toSafetySettings(request.safetyLevel),
+                    responseModalities: ['IMAGE'],
+                },
+            }).catch(error => { throw toAIError(error); });
+            assertNotBlocked(response);
+            const imagePart = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+            if (!imagePart?.inlineData?.data) {
+                throw new Error("No image data found in response.");
+            }
+            return {
+                mimeType: imagePart.inlineData.mimeType ?? 'image/png',
+                data: imagePart.inlineData.data,
+                usage: toTokenUsage(response),
+            };
+        },
+    };
+}
@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, Type } from "@google/genai";
+import { Type, Schema } from "@google/genai";
 import { 
     ThinkBotChallenge, 
     QuizQuestion, 
@@ -12,333 +12,253 @@ import {
     ComprehensionQuestion,
     TestResult,
     ImageDetail,
+    DiagramDetail,
     Difficulty,
     ContentLevel,
+    SimplifiedSection,
 } from '../types';
-
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable is not set");
+import { getProvider, AIOperation, LLMPart, TextGenerationRequest, ImageGenerationRequest, TokenUsage } from './llmProvider';
+import { AIServiceError, InvalidResponseError, BudgetExceededError } from './aiErrors';
+import { withRetry, RetryPolicy } from './aiRetry';
+import { parseAndValidate, parsePartialJson, formatIssues } from './responseValidator';
+import { isProxyEnabled, callProxy } from './proxyClient';
+import { isCacheable, createCacheKey, readCache, writeCache, normalizeText } from './responseCache';
+import { checkBudget, recordUsage } from './usageTracker';
+import { renderPrompt, getActivePromptVersion, getPromptDefaults, formatPromptRef, PromptId } from './promptRegistry';
+import { trackAICall, AICallRecord } from './aiCallLog';
+import { getSessionMode } from './sessionRecorder';
+import { getSafetySettings, moderateText, enforceModeration, moderateValue } from './contentModeration';
+import { recordDataUpload, describeRequestData, UploadSource } from './dataAuditLog';
+import { getGenerationSettings } from './generationSettings';
+import type { RedactionSummary } from './piiRedaction';
+import { runImageQueue, getImageRetryPolicy, ImageQueueProgress } from './imageQueue';
+import { createFallbackImage } from './fallbackIllustrations';
+import { splitIntoSections, needsChunking, needsFileChunking } from './documentChunker';
+
+export interface AICallOptions {
+    /** Aborts the request, including any retries and follow-up calls. The call then rejects with an AICancelledError. */
+    signal?: AbortSignal;
+    /** Ignore any cached answer and generate a fresh one, which then replaces the cached copy. */
+    bypassCache?: boolean;
+    /** Called when the answer is served from the local cache, with the time it was originally generated. */
+    onCacheHit?: (cachedAt: number) => void;
 }
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-const textModel = 'gemini-2.5-flash';
-const imageModel = 'gemini-2.5-flash-image';
-
-const NEUROLEARN_SYSTEM_PROMPT = `🎯 System Role
-You are TuRNext NeuroLearn, an inclusive, adaptive AI educator built to make learning accessible, personalized, and emotionally supportive.
-You must always preserve the existing tuRNext UI — do not change fonts, colors, layout, navigation, or visual background.
-
-Your task is to generate structured, modular educational content divided into well-defined sections, as described below.
-Each section should function as an independent block, visually separated with pink headings, accessibility tools, and voice options.
-
-You are to simplify, expand, and adapt any uploaded or entered educational content (text, document, audio, or video) into a form that every learner — from beginner to advanced — can understand easily.
-
-🧩 Overall Working Logic
-When the user enters any input — whether a topic name, text passage, uploaded video/audio/document, or YouTube link —
-NeuroLearn should:
-
-Identify the input type and complexity.
-
-Analyze user preferences (learning speed, accessibility mode).
-
-Automatically build all core sections of adaptive learning content (listed below).
-
-Integrate accessibility, voice, and emotional support across every section.
-
-🔢 The Core Sections of NeuroLearn
-1️⃣ Simplify Text (Adaptive Multilevel Learning)
-Purpose:
-To break complex text or topic content into three progressively simplified levels so every learner — including slow or neurodiverse students — can understand clearly.
-
-Working:
-AI auto-detects input difficulty (linguistic and conceptual).
-
-Generates 3 adaptive versions:
-
-🟢 Beginner: Extremely simplified, storytelling tone, everyday examples.
-
-🟠 Intermediate: Balanced detail, real-world context, moderate vocabulary.
-
-🔵 Advanced Simplified: Concise, technical but clear.
-
-Highlights key terms in color and provides inline definitions.
-
-Uses visual analogies (“Imagine…”, “Let’s take an example…”) and simple structure (Definition → Example → Use Case → Summary).
-
-Includes a “🔊 Read Aloud” option.
-
-2️⃣ Expand a Topic (In-Depth Professor-Level Explanation)
-Purpose:
-To give a comprehensive, research-oriented, yet beginner-friendly explanation of any topic (minimum 1000 lines).
-
-Working:
-Takes topic input (text, document, video, or link).
-
-Outputs a full-length breakdown including:
-
-Definition and Introduction
-
-Purpose and Importance
-
-Detailed Workflow / Architecture
-
-Real-Life and Industry Examples
-
-Applications and Use Cases
-
-Merits and Demerits
-
-Images Section (min. 10) with captions and explanations
-
-Media Sources (YouTube + web references)
-
-Summary and Key Takeaways
-
-Voice Narration option
-
-Output tone: like a friendly professor teaching step-by-step.
-
-Each subtopic should include color-coded titles, short paragraphs, and diagrams.
-
-3️⃣ Cognitive-Friendly Simplification Engine
-Purpose: To automatically detect content complexity and generate personalized versions suitable for different cognitive levels.
-
-Working Instructions:
-
-Analyze Content Complexity:
-
-Evaluate sentence structure (length, clauses, punctuation complexity).
-
-Measure jargon density (technical terms, uncommon words).
-
-Assess conceptual load (abstract ideas, multiple-step reasoning).
-
-Determine Optimal Learning Level:
-
-Suggest Beginner / Intermediate / Advanced based on the learner’s cognitive profile and the analyzed complexity.
-
-Generate Simplified Content:
-
-Beginner Level: Use short sentences, common vocabulary, clear examples.
-
-Intermediate Level: Moderate sentence length, mild technical terms, examples with context.
-
-Advanced Level: Preserve full technical depth, but include inline explanations for key terms.
-
-Enhance Understanding with Visual & Story-Based Aids:
-
-Incorporate story-based examples for abstract concepts.
-
-Highlight important terms in color for visual memory (e.g., red = critical, blue = supporting).
-
-Include inline notes: "This term means..." or "In other words...".
-
-Adapt for Neurodiverse Learners:
-
-Dyslexia-Friendly: Use simpler fonts, larger spacing, syllable-friendly vocabulary.
-
-ADHD-Friendly: Add bullet points, short paragraphs, and visual cues.
-
-Slow Learners: Gradually increase content complexity with stepwise examples.
-
-4️⃣ Smart Voice Interaction (Listen or Talk to Learn)
-Purpose:
-To allow hands-free learning through voice controls, reading assistance, and conversational learning support.
-
-Working:
-Every section has a “Read Aloud” button.
-
-Users can speak voice commands such as:
-
-“Explain slower”
-
-“Simplify this”
-
-“Give me another example”
-
-Converts spoken input → text → immediate response.
-
-Provides adjustable reading speed, pitch, and tone.
-
-Displays captions for hearing-impaired users.
-
-5️⃣ Adaptive Learning Pace (LearnFlow AI Tutor)
-Purpose:
-To adjust content depth, speed, and complexity dynamically based on learner performance.
-
-Working:
-Tracks reading time, scrolling behavior, and prior responses.
-
-If the learner seems stuck → simplify and add analogies.
-
-If the learner progresses quickly → expand deeper sections automatically.
-
-Suggests next action:
-
-“Try simpler version”
-
-“Explore deeper section”
-
-Maintains continuous learning flow and avoids repetition.
-
-Acts as a real-time personalized tutor.
-
-6️⃣ Accessibility Options (Universal Mode)
-Purpose:
-To ensure that all learners — including those with visual, reading, or motor impairments — can learn comfortably.
-
-Working:
-Provides toggles for:
-
-Dyslexia-friendly fonts (e.g., OpenDyslexic)
-
-High Contrast Mode
-
-Font Size Increase
-
-Extra Line Spacing
-
-Adds closed captions for audio/video.
-
-Enables keyboard navigation and voice-activated controls.
-
-Ensures color-blind-safe highlighting for important terms.
-
-All accessibility preferences are saved locally for persistent experience.
-
-7️⃣ Media Simplification & Emotional Support (Smart Media + Empathy Engine)
-Purpose:
-To simplify multimedia content while motivating learners emotionally during their study journey.
-
-Working:
-When a video or audio file is uploaded:
-
-Auto-extracts key points, transcripts, and visual descriptions.
-
-Converts audio into structured educational text.
-
-Generates 10+ image placeholders or illustrations with captions.
-
-Integrates summaries into Simplify Text and Expand Topic sections.
-
-Adds an Empathy Layer:
-
-Respond warmly to user hesitation (“No worries, let’s go step by step!”).
-
-Offer motivation (“You’re learning wonderfully!”, “Take a short break.”).
-
-Display positive progress cues and gentle encouragement.
-
-Supports Offline/Low-Bandwidth Mode:
-
-Creates compressed text summary with essential visuals.
-
-Allows download or print-friendly format.
-
-Multilingual Translation Module
-Purpose: Break language barriers by translating educational content into the learner’s preferred language while preserving formatting and highlights.
-
-Working Instructions:
-
-Automatic Language Detection: Detect the input language automatically.
-
-Translation Output:
-
-Produce a side-by-side bilingual view: English + user’s selected regional language.
-
-Support major Indian languages: Hindi, Tamil, Telugu, Kannada, Bengali, etc.
-
-Maintain the same formatting, highlights, and visual cues as the original.
-
-Audio Narration:
-
-Generate TTS audio for both languages.
-
-Ensure synchronized highlighting with the text for reading along.
-
-View Options:
-
-Toggle between Single Language View and Bilingual Comparison View.
-
-Highlight Preservation:
-
-Retain all color-coded term highlights and inline notes from the simplification engine.
-
-✅ Example Combined Workflow for NeuroLearn:
-
-Input raw educational content.
+/**
+ * Throws a BudgetExceededError when the signed-in user's budget doesn't allow this call.
+ */
+function assertWithinBudget(operation: AIOperation, kind: 'text' | 'image'): void {
+    const status = checkBudget(operation);
+    const allowed = kind === 'text' ? status.allowText : status.allowImages;
+    if (!allowed) {
+        throw new BudgetExceededError(`You have reached your ${status.reason} for AI features.`);
+    }
+}
 
-Run Cognitive-Friendly Simplification Engine: detect complexity → suggest learning level → generate simplified, color-coded content with inline notes.
+/** The provider and model serving a call, as shown in the call log. `model` is the one the request asks for, if any. */
+function modelName(kind: 'text' | 'image', model?: string): string {
+    const provider = getProvider();
+    return `${provider.name}/${model ?? (kind === 'image' ? provider.imageModel ?? provider.model : provider.model)}`;
+}
 
-Feed output to Multilingual Translation Module: detect source language → translate → generate side-by-side bilingual text + TTS → preserve formatting and highlights.
+/** Logs what a request is about to send, and where to, in the data audit log. */
+function recordUpload(operation: AIOperation, destination: string, contents: string | LLMPart[], upload?: UploadSource): void {
+    recordDataUpload({ operation, destination, data: describeRequestData(contents, upload?.filename), redactions: upload?.redactions });
+}
 
-Deliver final NeuroLearn-ready content suitable for diverse learners, neurodiverse-friendly, with optional bilingual audio narration.
-`;
+/**
+ * Sends a text request to the active LLM provider and returns the raw response text.
+ * Transient failures are retried according to the shared retry policy.
+ */
+async function generateText(request: TextGenerationRequest): Promise<string> {
+    assertWithinBudget(request.operation, 'text');
+    const prepared = withCallSettings(request);
+    recordUpload(request.operation, modelName('text', prepared.model), prepared.contents, prepared.upload);
+    const result = await trackAICall('text', prepared, modelName('text', prepared.model), () =>
+        withRetry(signal => getProvider().generateText({ ...prepared, signal }), { signal: request.signal }));
+    recordUsage(request.operation, result.usage);
+    return enforceModeration(request.operation, 'output', result.text);
+}
 
+/**
+ * Sends an image request to the active LLM provider and returns the image as a data URL.
+ * `policy` overrides the shared retry policy, e.g. for jobs run by the image queue.
+ */
+async function generateImage(request: ImageGenerationRequest, policy?: RetryPolicy): Promise<string> {
+    assertWithinBudget(request.operation, 'image');
+    const prepared = withCallSettings(request);
+    recordUpload(request.operation, modelName('image', prepared.model), prepared.prompt, prepared.upload);
+    const result = await trackAICall('image', prepared, modelName('image', prepared.model), () =>
+        withRetry(signal => getProvider().generateImage({ ...prepared, signal }), { signal: request.signal, policy }));
+    recordUsage(request.operation, result.usage, 1);
+    return `data:${result.mimeType};base64,${result.data}`;
+}
 
 /**
- * Fetches a high-quality fallback image from Unsplash.
- * This function is called when the primary AI image generation fails. It constructs a URL to a random
- * image from Unsplash based on keywords from the prompt. It does not use `fetch` client-side, as that
- * can be blocked by CORS policies. Instead, it returns the URL for the `<img>` tag to resolve directly.
- * @param prompt The original image prompt, used to derive search keywords.
- * @returns An object containing the direct URL to the Unsplash image and the source name.
+ * Streams a text request, reporting the text accumulated so far after every chunk, and returns
+ * the complete text. Providers without streaming support report everything in one go.
+ * Partial text is moderated as it arrives, so flagged words are never shown and a blocked answer
+ * stops the stream.
  */
-export function findHighQualityWebImage(prompt: string): { url: string; source: string; } {
-    const keywords = encodeURIComponent(
-        prompt.replace(/[^a-zA-Z0-9 ]/g, "").split(' ').slice(0, 5).join(',')
-    );
-    // Use Unsplash's source URL to get a random image matching the keywords.
-    // We can't reliably verify the image client-side via fetch due to potential CORS issues.
-    // Instead, we return the dynamic Unsplash URL and let the <img> tag resolve it directly.
-    // This is more robust and aligns with how source.unsplash.com is intended to be used.
-    const imageUrl = `https://source.unsplash.com/1280x720/?${keywords}&sig=${Math.random()}`;
+async function streamText(request: TextGenerationRequest, onText: (textSoFar: string) => void): Promise<string> {
+    const provider = getProvider();
+    if (!provider.streamText) {
+        const text = await generateText(request);
+        onText(text);
+        return text;
+    }
+    assertWithinBudget(request.operation, 'text');
+    const prepared = withCallSettings(request);
+    recordUpload(request.operation, modelName('text', prepared.model), prepared.contents, prepared.upload);
+    const result = await trackAICall('text', prepared, modelName('text', prepared.model), () => withRetry(async signal => {
+        let text = '';
+        let usage: TokenUsage | undefined;
+        for await (const chunk of provider.streamText!({ ...prepared, signal })) {
+            text += chunk.text;
+            usage = chunk.usage ?? usage;
+            const moderated = moderateText(text);
+            if (moderated.action === 'block') enforceModeration(request.operation, 'output', text);
+            onText(moderated.text);
+        }
+        return { text, usage };
+    }, { signal: request.signal }));
+    recordUsage(request.operation, result.usage);
+    return enforceModeration(request.operation, 'output', result.text);
+}
 
+/**
+ * Fills in what a request is made with: the operation's model and generation settings, and the
+ * model's own safety filters at the level in the signed-in user's safety settings. Anything the
+ * request already sets is kept, so replayed calls are re-sent exactly as logged.
+ */
+function withCallSettings<T extends TextGenerationRequest | ImageGenerationRequest>(request: T): T {
+    const settings = getGenerationSettings(request.operation);
+    const safetyLevel = request.safetyLevel ?? getSafetySettings().modelSafety;
+    if ('prompt' in request) {
+        return { model: settings.imageModel, ...request, safetyLevel };
+    }
     return {
-        url: imageUrl,
-        source: 'Unsplash'
+        model: settings.model,
+        temperature: settings.temperature ?? undefined,
+        maxOutputTokens: settings.maxOutputTokens ?? undefined,
+        ...request,
+        safetyLevel,
     };
 }
 
+/** Whether a proxy argument is an uploaded file rather than text or structured data. */
+function isFileArg(arg: unknown): arg is { mimeType: string; data: string } {
+    return typeof arg === 'object' && arg !== null && 'mimeType' in arg && 'data' in arg;
+}
 
 /**
- * A robust JSON parser that extracts the first valid JSON object or array from a string.
- * This is useful for cleaning up AI responses that might include markdown fences or other text.
- * @param jsonString The raw string response from the AI.
- * @returns The parsed JSON object.
+ * Runs an operation on the proxy server. The server can't see the learner's safety settings, so
+ * its answer is moderated here.
  */
-function robustJsonParse<T>(jsonString: string): T {
-    // Find the first '{' or '[' to start the JSON content
-    const firstBrace = jsonString.indexOf('{');
-    const firstBracket = jsonString.indexOf('[');
-    
-    let startIndex;
-    if (firstBrace === -1 && firstBracket === -1) {
-        throw new Error('No JSON object or array found in the response.');
+async function callModeratedProxy<T>(operation: AIOperation, args: unknown[], signal?: AbortSignal, upload?: UploadSource): Promise<T> {
+    const sent = args.map((arg): LLMPart => isFileArg(arg)
+        ? { inlineData: { mimeType: arg.mimeType, data: arg.data } }
+        : { text: typeof arg === 'string' ? arg : JSON.stringify(arg) });
+    recordUpload(operation, 'AI proxy server', sent, upload);
+    const { value } = await trackAICall('proxy', { operation, contents: sent }, 'AI proxy server', async () => {
+        const value = await callProxy<T>(operation, args, signal);
+        return { value, text: JSON.stringify(value) };
+    });
+    return moderateValue(operation, 'output', value);
+}
+
+/**
+ * Re-sends a logged call to the active provider, as a new call marked as its replay. Used by the
+ * call inspector to check whether a bad response reproduces; the replay skips the cache and any
+ * repair, so the log shows exactly what the model returned.
+ */
+export async function replayAICall(record: AICallRecord): Promise<void> {
+    if (record.kind === 'proxy') {
+        throw new AIServiceError('unknown', "Calls made through the AI proxy server can't be replayed.");
+    }
+    if ('prompt' in record.request) {
+        await generateImage({ ...record.request, replayOf: record.id });
+    } else {
+        await generateText({ ...record.request, replayOf: record.id });
     }
-    if (firstBrace === -1) startIndex = firstBracket;
-    else if (firstBracket === -1) startIndex = firstBrace;
-    else startIndex = Math.min(firstBrace, firstBracket);
+}
 
-    // Find the last '}' or ']' to end the JSON content
-    const lastBrace = jsonString.lastIndexOf('}');
-    const lastBracket = jsonString.lastIndexOf(']');
-    const endIndex = Math.max(lastBrace, lastBracket);
+/**
+ * Requests structured output and validates it against the response schema. If any fields are
+ * invalid, the model is asked once to repair only those fields before giving up with a typed error.
+ */
+async function generateJson<T>(request: TextGenerationRequest & { responseSchema: Schema }): Promise<T> {
+    const responseText = await generateText(request);
+    return validateOrRepair<T>(request, responseText);
+}
 
-    if (endIndex === -1) {
-        throw new Error('Could not find a valid end for the JSON content.');
+/**
+ * Validates a structured response that has already been generated, asking the model once to
+ * repair any invalid fields.
+ */
+async function validateOrRepair<T>(request: TextGenerationRequest & { responseSchema: Schema }, responseText: string): Promise<T> {
+    const firstAttempt = parseAndValidate(responseText, request.responseSchema);
+    if (firstAttempt.issues.length === 0) {
+        return firstAttempt.value as T;
     }
 
-    const jsonSubString = jsonString.substring(startIndex, endIndex + 1);
+    console.warn(`Invalid ${request.operation} response, requesting a repair:`, firstAttempt.issues);
+    const prompt = renderPrompt('json.repair', { issues: formatIssues(firstAttempt.issues), json: responseText });
+    const repairedText = await generateText({
+        operation: request.operation,
+        signal: request.signal,
+        contents: prompt.text,
+        prompts: [prompt.ref],
+        responseSchema: request.responseSchema,
+    });
+    const repairAttempt = parseAndValidate(repairedText, request.responseSchema);
+    if (repairAttempt.issues.length === 0) {
+        return repairAttempt.value as T;
+    }
 
-    try {
-        return JSON.parse(jsonSubString) as T;
-    } catch (error) {
-        console.error("Failed to parse JSON substring:", error);
-        console.error("Original string:", jsonString);
-        console.error("Extracted substring:", jsonSubString);
-        throw new Error("The AI returned a response that could not be parsed as JSON.");
+    console.error(`Repair of ${request.operation} response failed:`, repairAttempt.issues);
+    throw new InvalidResponseError(request.operation, repairAttempt.issues);
+}
+
+/**
+ * Serves cacheable operations from the local response cache, generating and storing the result on a miss.
+ * `input` identifies the request and should be normalized so equivalent requests share an entry.
+ * `prompts` lists the templates the operation may render: their versions are part of the key, along
+ * with the generation settings, so changing either gets a fresh answer.
+ */
+async function withCache<T>(operation: AIOperation, input: unknown, prompts: PromptId[], options: AICallOptions, generate: () => Promise<T>): Promise<T> {
+    // Recorded and replayed sessions must reach the provider for every call, so the cache is skipped.
+    if (!isCacheable(operation) || getSessionMode() !== null) {
+        return generate();
     }
+    const model = isProxyEnabled() ? 'proxy' : modelName('text', getGenerationSettings(operation).model);
+    const key = await createCacheKey(operation, model, {
+        input,
+        prompts: prompts.map(id => formatPromptRef({ id, version: getActivePromptVersion(id).version })),
+        promptDefaults: getPromptDefaults(),
+        // The proxy server generates with its own settings
+        settings: isProxyEnabled() ? null : getGenerationSettings(operation),
+    });
+    if (!options.bypassCache) {
+        const hit = await readCache<T>(key);
+        if (hit) {
+            // The entry may have been generated for someone with laxer safety settings.
+            const value = moderateValue(operation, 'output', hit.value);
+            options.onCacheHit?.(hit.createdAt);
+            return value;
+        }
+    }
+    const value = await generate();
+    void writeCache(key, operation, value);
+    return value;
+}
+
+/**
+ * Wraps a failure in a user-facing error. Typed errors pass through untouched so screens can
+ * react to them specifically; anything else becomes an 'unknown' error carrying `message`.
+ */
+function toServiceError(error: unknown, message: string): AIServiceError {
+    return error instanceof AIServiceError ? error : new AIServiceError('unknown', message);
 }
 
 // --- New NeuroLearn Services ---
@@ -404,61 +324,190 @@ const simplifiedContentSchema = {
 
 type SimplifiedContentSource = string | { mimeType: string; data: string; filename: string };
 
-export async function generateSimplifiedContent(source: SimplifiedContentSource): Promise<SimplifiedContent> {
-    let prompt;
-    let requestContents;
+/** How far a section-by-section simplification has got. */
+export interface SimplificationProgress {
+    /** Reading a large file's text, simplifying each section, or combining the results. */
+    stage: 'extracting' | 'sections' | 'merging';
+    total: number;
+    completed: number;
+    /** The section being simplified, during the 'sections' stage. */
+    currentSection?: string;
+}
+
+export interface SimplifyOptions extends AICallOptions {
+    /**
+     * Called as a long document moves through its sections. Not called for sources short enough to
+     * be simplified in one request, nor when requests go through the proxy server.
+     */
+    onProgress?: (progress: SimplificationProgress) => void;
+    /** The file text was extracted from, for the data audit log. */
+    filename?: string;
+    /** The personal details masked in or left in text before it was passed in, for the data audit log. */
+    redactions?: RedactionSummary;
+}
 
-    const basePrompt = `First, analyze the input content's complexity and determine the most suitable starting learning level for a student ('beginner', 'intermediate', or 'advancedSimplified'). Return this as 'suggestedLevel'. Then, generate a simplified breakdown with three levels: Beginner, Intermediate, and Advanced Simplified. For each level, provide: a definition, an example, a use case, a summary, a list of 2-3 key terms with definitions, one relevant web resource link, and one relevant YouTube video link.`;
+/** Whether a source is long enough to be simplified section by section. Only text and PDFs can be split. */
+function isLongDocument(source: SimplifiedContentSource): boolean {
+    return typeof source === 'string'
+        ? needsChunking(source)
+        : source.mimeType === 'application/pdf' && needsFileChunking(source.data);
+}
 
+/**
+ * Simplifies a long document one section at a time (map), then asks the model to combine the
+ * sections into one simplification of the whole document (reduce). Text is split locally by
+ * heading and size. A large PDF is sent once to have its text written out, which is then split
+ * the same way, so each section request carries only its own text.
+ */
+async function simplifyBySection(source: SimplifiedContentSource, { signal, onProgress }: SimplifyOptions, upload: UploadSource): Promise<SimplifiedContent> {
+    let text: string;
     if (typeof source === 'string') {
-        prompt = `${basePrompt} Input Text: "${source}"`;
-        requestContents = { parts: [{ text: prompt }] };
+        text = source;
     } else {
-        prompt = `The user has uploaded a media file named "${source.filename}". First, extract the content from this file (e.g., transcribe audio/video, extract text from documents). Based on the extracted content, ${basePrompt.toLowerCase()}`;
-         requestContents = { 
-            parts: [
-                { text: prompt },
-                { inlineData: { mimeType: source.mimeType, data: source.data } }
-            ]
-        };
+        onProgress?.({ stage: 'extracting', total: 0, completed: 0 });
+        const extractPrompt = renderPrompt('simplify.extractText', { filename: source.filename });
+        text = await generateText({
+            operation: 'generateSimplifiedContent',
+            signal,
+            upload,
+            contents: [{ text: extractPrompt.text }, { inlineData: { mimeType: source.mimeType, data: source.data } }],
+            prompts: [extractPrompt.ref],
+        });
     }
 
-    try {
-        const response = await ai.models.generateContent({
-            model: textModel,
-            contents: requestContents,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: simplifiedContentSchema,
-            },
+    const parts = splitIntoSections(text).map(section => {
+        const prompt = renderPrompt('simplify.section', { sectionTitle: section.title, text: section.text });
+        return { title: section.title, contents: [{ text: prompt.text }], prompts: [prompt.ref] };
+    });
+    // A file can turn out to have less text than its size suggested, e.g. a PDF of mostly images
+    if (parts.length === 1) {
+        const prompt = renderPrompt('simplify.text', { text });
+        return generateJson<SimplifiedContent>({
+            operation: 'generateSimplifiedContent',
+            signal,
+            upload,
+            contents: prompt.text,
+            prompts: [prompt.ref],
+            responseSchema: simplifiedContentSchema,
         });
-        return robustJsonParse<SimplifiedContent>(response.text);
-    } catch (error) {
-        console.error("Error simplifying content:", error);
-        throw new Error("Failed to simplify content. The model may not be able to process this file type or the content may be too complex.");
     }
-}
 
-export async function translateContent(content: ContentLevel, targetLanguage: string): Promise<ContentLevel> {
-    try {
-        const response = await ai.models.generateContent({
-            model: textModel,
-            contents: `Translate the following JSON object's string values into ${targetLanguage}. Preserve the JSON structure and any Markdown formatting within the strings (like lists, bolding, etc.). Do not translate technical terms or proper nouns if there is no direct, common equivalent; keep them in English.
-            
-            Input JSON:
-            ${JSON.stringify(content)}`,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: contentLevelSchema,
-            },
+    const sections: SimplifiedSection[] = [];
+    for (const part of parts) {
+        onProgress?.({ stage: 'sections', total: parts.length, completed: sections.length, currentSection: part.title });
+        const content = await generateJson<SimplifiedContent>({
+            operation: 'generateSimplifiedContent',
+            signal,
+            upload,
+            contents: part.contents,
+            prompts: part.prompts,
+            responseSchema: simplifiedContentSchema,
         });
-        return robustJsonParse<ContentLevel>(response.text);
-    } catch (error) {
-        console.error(`Error translating content to ${targetLanguage}:`, error);
-        throw new Error(`Failed to translate content. The AI service may not support this language or encountered an error.`);
+        sections.push({ ...content, title: part.title });
     }
+
+    // Only the parts of each level that describe the section are passed on, to keep the merge request small.
+    onProgress?.({ stage: 'merging', total: parts.length, completed: sections.length });
+    const digest = sections.map(section => ({
+        title: section.title,
+        ...Object.fromEntries((['beginner', 'intermediate', 'advancedSimplified'] as const).map(level => {
+            const { definition, summary, keyTerms } = section[level];
+            return [level, { definition, summary, keyTerms }];
+        })),
+    }));
+    const mergePrompt = renderPrompt('simplify.merge', { content: JSON.stringify(digest) });
+    const merged = await generateJson<SimplifiedContent>({
+        operation: 'generateSimplifiedContent',
+        signal,
+        upload,
+        contents: mergePrompt.text,
+        prompts: [mergePrompt.ref],
+        responseSchema: simplifiedContentSchema,
+    });
+    return { ...merged, sections };
 }
 
+/** Every template a simplification may use, whether the source is short, long, text or a file. */
+const simplifyPrompts: PromptId[] = ['simplify.text', 'simplify.file', 'simplify.extractText', 'simplify.section', 'simplify.merge'];
+
+export async function generateSimplifiedContent(source: SimplifiedContentSource, options: SimplifyOptions = {}): Promise<SimplifiedContent> {
+    if (typeof source === 'string') source = enforceModeration('generateSimplifiedContent', 'input', source);
+    return withCache('generateSimplifiedContent', typeof source === 'string' ? normalizeText(source) : { mimeType: source.mimeType, data: source.data }, simplifyPrompts, options, async () => {
+        const upload: UploadSource = typeof source === 'string'
+            ? { filename: options.filename, redactions: options.redactions }
+            : { filename: source.filename };
+        if (isProxyEnabled()) return callModeratedProxy('generateSimplifiedContent', [source], options.signal, upload);
+
+        if (isLongDocument(source)) {
+            try {
+                return await simplifyBySection(source, options, upload);
+            } catch (error) {
+                console.error("Error simplifying document by section:", error);
+                throw toServiceError(error, "Failed to simplify this document. It may be too long or in a format the model can't split into sections.");
+            }
+        }
+
+        let prompt;
+        let requestContents: LLMPart[];
+
+        if (typeof source === 'string') {
+            prompt = renderPrompt('simplify.text', { text: source });
+            requestContents = [{ text: prompt.text }];
+        } else {
+            prompt = renderPrompt('simplify.file', { filename: source.filename });
+            requestContents = [
+                { text: prompt.text },
+                { inlineData: { mimeType: source.mimeType, data: source.data } }
+            ];
+        }
+
+        try {
+            return await generateJson<SimplifiedContent>({
+                operation: 'generateSimplifiedContent',
+                signal: options.signal,
+                upload,
+                contents: requestContents,
+                prompts: [prompt.ref],
+                responseSchema: simplifiedContentSchema,
+            });
+        } catch (error) {
+            console.error("Error simplifying content:", error);
+            throw toServiceError(error, "Failed to simplify content. The model may not be able to process this file type or the content may be too complex.");
+        }
+    });
+}
+
+export async function translateContent(content: ContentLevel, targetLanguage: string, options: AICallOptions = {}): Promise<ContentLevel> {
+    return withCache('translateContent', { content, targetLanguage: normalizeText(targetLanguage) }, ['translate.contentLevel'], options, async () => {
+        if (isProxyEnabled()) return callModeratedProxy('translateContent', [content, targetLanguage], options.signal);
+
+        try {
+            const prompt = renderPrompt('translate.contentLevel', { language: targetLanguage, content: JSON.stringify(content) });
+            return await generateJson<ContentLevel>({
+                operation: 'translateContent',
+                signal: options.signal,
+                contents: prompt.text,
+                prompts: [prompt.ref],
+                responseSchema: contentLevelSchema,
+            });
+        } catch (error) {
+            console.error(`Error translating content to ${targetLanguage}:`, error);
+            throw toServiceError(error, `Failed to translate content. The AI service may not support this language or encountered an error.`);
+        }
+    });
+}
+
+const diagramSchema = {
+    type: Type.OBJECT,
+    properties: {
+        kind: { type: Type.STRING, enum: ['flowchart', 'sequence', 'mindmap'] },
+        title: { type: Type.STRING },
+        description: { type: Type.STRING, description: "What the diagram shows, in one or two plain sentences." },
+        source: { type: Type.STRING, description: "The Mermaid source, without code fences." },
+    },
+    required: ["kind", "title", "description", "source"]
+};
+
 const expandedContentSchema = {
     type: Type.OBJECT,
     properties: {
@@ -491,6 +540,11 @@ const expandedContentSchema = {
                 required: ["prompt", "caption", "explanation", "relevance"]
             }
         },
+        diagrams: {
+            type: Type.ARRAY,
+            description: "Exactly 3 Mermaid diagrams: a flowchart of the workflow or architecture, a sequence diagram of the steps, and a mind map of the key ideas.",
+            items: diagramSchema,
+        },
         youtubeSources: {
             type: Type.ARRAY,
             items: {
@@ -509,79 +563,151 @@ const expandedContentSchema = {
         },
         summaryOrKeyTakeaways: { type: Type.STRING, description: "A concise summary of the key takeaways from the entire explanation." }
     },
-    required: ["definitionAndIntroduction", "purposeOrImportance", "detailedWorkflowOrArchitecture", "stepByStepExplanation", "realLifeAndIndustryExamples", "applicationsAndUseCases", "merits", "demerits", "images", "youtubeSources", "webSources", "summaryOrKeyTakeaways"]
+    required: ["definitionAndIntroduction", "purposeOrImportance", "detailedWorkflowOrArchitecture", "stepByStepExplanation", "realLifeAndIndustryExamples", "applicationsAndUseCases", "merits", "demerits", "images", "diagrams", "youtubeSources", "webSources", "summaryOrKeyTakeaways"]
 };
 
-export async function generateExpandedContent(topic: string, isRefinement: boolean = false): Promise<ExpandedContent> {
-    const refinementInstruction = isRefinement ? "This is a second attempt because the user did not understand the first explanation. Please make this version significantly simpler, use more analogies, and ensure the examples are very clear and relatable." : "";
+export interface ExpandedContentOptions extends AICallOptions {
+    /**
+     * Called whenever more of the pack is ready: repeatedly while the text streams in, then once per
+     * finished image. Sections not written yet are empty and images not generated yet have an empty
+     * url and a 'pending' status. Not called when requests go through the proxy server.
+     */
+    onProgress?: (content: ExpandedContent) => void;
+    /** Called as each image starts and finishes generating, e.g. to show "image 4 of 10". */
+    onImageProgress?: (progress: ImageQueueProgress) => void;
+}
+
+/**
+ * Fills the gaps in a partially streamed teaching pack so it can be rendered like a finished one.
+ */
+function toPartialExpandedContent(value: unknown): ExpandedContent {
+    const partial: Record<string, any> = value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+    const text = (field: unknown): string => typeof field === 'string' ? field : '';
+    const list = (field: unknown): any[] => Array.isArray(field)
+        ? field.filter(item => item !== null && (typeof item !== 'object' || Object.keys(item).length > 0))
+        : [];
+
+    return {
+        definitionAndIntroduction: text(partial.definitionAndIntroduction),
+        purposeOrImportance: text(partial.purposeOrImportance),
+        detailedWorkflowOrArchitecture: text(partial.detailedWorkflowOrArchitecture),
+        stepByStepExplanation: text(partial.stepByStepExplanation),
+        realLifeAndIndustryExamples: list(partial.realLifeAndIndustryExamples),
+        applicationsAndUseCases: list(partial.applicationsAndUseCases),
+        merits: list(partial.merits),
+        demerits: list(partial.demerits),
+        images: list(partial.images).slice(0, 10).map(image => ({
+            prompt: text(image.prompt),
+            caption: text(image.caption),
+            explanation: text(image.explanation),
+            relevance: text(image.relevance),
+            url: '',
+            status: 'pending' as const,
+        })),
+        diagrams: list(partial.diagrams).map(diagram => ({
+            kind: diagram.kind ?? 'flowchart',
+            title: text(diagram.title),
+            description: text(diagram.description),
+            source: text(diagram.source),
+        })),
+        youtubeSources: list(partial.youtubeSources),
+        webSources: list(partial.webSources),
+        summaryOrKeyTakeaways: text(partial.summaryOrKeyTakeaways),
+    };
+}
+
+export async function generateExpandedContent(topic: string, isRefinement: boolean = false, options: ExpandedContentOptions = {}): Promise<ExpandedContent> {
+    topic = enforceModeration('generateExpandedContent', 'input', topic);
+    return withCache('generateExpandedContent', { topic: normalizeText(topic), isRefinement }, ['neurolearn.system', 'expand.topic', 'expand.refinementNote'], options, async () => {
+        if (isProxyEnabled()) return callModeratedProxy('generateExpandedContent', [topic, isRefinement], options.signal);
+
+        const { signal, onProgress, onImageProgress } = options;
+        const refinementNote = isRefinement ? renderPrompt('expand.refinementNote', {}) : null;
+        const prompt = renderPrompt('expand.topic', { topic, refinementNote: refinementNote?.text ?? '' });
+        const systemPrompt = renderPrompt('neurolearn.system', {});
     
-    try {
-        // Step 1: Generate all textual content and image prompts
-        const textResponse = await ai.models.generateContent({
-            model: textModel,
-            contents: `Act as an expert educator and professor. Create an extremely detailed, professor-level explanation on the following topic: "${topic}". Extract content if the input is a file or link. Generate a comprehensive pack covering all specified parts, including exactly 10 image prompts. The final output must be a single, valid JSON object that strictly adheres to the provided schema. Pay close attention to escaping special characters. Do not add any text or markdown formatting before or after the JSON object. ${refinementInstruction}`,
-            config: {
-                systemInstruction: NEUROLEARN_SYSTEM_PROMPT,
-                responseMimeType: "application/json",
+        try {
+            // Step 1: Stream all textual content and image prompts, reporting sections as they arrive
+            const request = {
+                operation: 'generateExpandedContent' as const,
+                signal,
+                contents: prompt.text,
+                systemInstruction: systemPrompt.text,
                 responseSchema: expandedContentSchema,
-            },
-        });
-        const parsedContent = robustJsonParse<Omit<ExpandedContent, 'images'> & { images: Omit<ImageDetail, 'url'>[] }>(textResponse.text);
-
-        // Step 2: Generate images based on the prompts, with error handling and fallbacks
-        const imagePrompts = parsedContent.images.slice(0, 10).map(img => img.prompt);
-        const imageGenerationPromises = imagePrompts.map(prompt => 
-            ai.models.generateContent({
-                model: imageModel,
-                contents: { parts: [{ text: prompt }] },
-                config: {
-                    responseModalities: ['IMAGE'],
-                },
-            }).then(response => {
-                const imagePart = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
-                if (imagePart && imagePart.inlineData) {
-                    const base64ImageBytes: string = imagePart.inlineData.data;
-                    const mimeType = imagePart.inlineData.mimeType;
-                    return {
-                        url: `data:${mimeType};base64,${base64ImageBytes}`,
-                        source: 'AI Generated'
-                    };
-                }
-                throw new Error("No image data found in response.");
-            }).catch((e) => {
-                console.error(`Image generation failed for prompt: "${prompt}"`, e);
-                // When primary generation fails (due to quota or other errors), use a fallback.
-                console.warn(`Primary image generation failed. Attempting to fetch fallback image for prompt: "${prompt}"`);
-                return findHighQualityWebImage(prompt);
-            })
-        );
-        const generatedImageData = await Promise.all(imageGenerationPromises);
-
-        // Step 3: Combine text content with generated image data
-        const finalImages: ImageDetail[] = parsedContent.images.slice(0, 10).map((imgData, index) => {
-            const imageData = generatedImageData[index];
-            return {
-                ...imgData,
-                url: imageData.url,
-                ...(imageData.source && { source: imageData.source }), // Conditionally add source property
+                prompts: [systemPrompt.ref, prompt.ref, ...(refinementNote ? [refinementNote.ref] : [])],
             };
-        });
+            const responseText = await streamText(request, textSoFar => {
+                const partial = parsePartialJson(textSoFar);
+                if (partial && onProgress) onProgress(toPartialExpandedContent(partial));
+            });
+            const parsedContent = await validateOrRepair<Omit<ExpandedContent, 'images'> & { images: Omit<ImageDetail, 'url'>[] }>(request, responseText);
+
+            // Step 2: Generate images through the image queue, falling back to an offline illustration when generation fails.
+            // Each image is reported as soon as it is ready; the others stay pending until then.
+            const finalImages: ImageDetail[] = parsedContent.images.slice(0, 10).map(imgData => ({ ...imgData, url: '', status: 'pending' }));
+            onProgress?.({ ...parsedContent, images: [...finalImages] });
+
+            await runImageQueue(finalImages.map(({ prompt, caption }) => ({
+                generate: async () => ({
+                    url: await generateImage({ operation: 'generateExpandedContent', prompt, signal }, getImageRetryPolicy()),
+                    source: 'AI Generated',
+                }),
+                fallback: () => createFallbackImage({ prompt, caption }),
+            })), {
+                signal,
+                onJobStart: (_, progress) => onImageProgress?.(progress),
+                onJobDone: ({ index, status, value }, progress) => {
+                    // Step 3: Combine text content with generated image data
+                    finalImages[index] = {
+                        ...finalImages[index],
+                        url: value?.url ?? '',
+                        ...(value?.source && { source: value.source }),
+                        status,
+                    };
+                    onProgress?.({ ...parsedContent, images: [...finalImages] });
+                    onImageProgress?.(progress);
+                },
+            });
 
-        const finalContent: ExpandedContent = {
-            ...parsedContent,
-            images: finalImages
-        };
-        
-        return finalContent;
-    } catch (error) {
-        console.error("Error generating expanded content:", error);
-        throw new Error("Failed to generate the teaching pack.");
-    }
+            return { ...parsedContent, images: finalImages };
+        } catch (error) {
+            console.error("Error generating expanded content:", error);
+            throw toServiceError(error, "Failed to generate the teaching pack.");
+        }
+    });
+}
+
+/**
+ * Rewrites a teaching pack diagram that Mermaid couldn't draw, given the error it reported.
+ * Cached by topic, diagram and error, so redrawing the same broken diagram again reuses the fix.
+ */
+export async function generateDiagram(topic: string, diagram: DiagramDetail, error: string, options: AICallOptions = {}): Promise<DiagramDetail> {
+    return withCache('generateDiagram', { topic: normalizeText(topic), diagram, error }, ['expand.diagram'], options, async () => {
+        if (isProxyEnabled()) return callModeratedProxy('generateDiagram', [topic, diagram, error], options.signal);
+
+        try {
+            const prompt = renderPrompt('expand.diagram', { topic, content: JSON.stringify(diagram), issues: error });
+            const regenerated = await generateJson<DiagramDetail>({
+                operation: 'generateDiagram',
+                signal: options.signal,
+                contents: prompt.text,
+                prompts: [prompt.ref],
+                responseSchema: diagramSchema,
+            });
+            // The diagram stays in the same place in the pack, so it keeps its kind
+            return { ...regenerated, kind: diagram.kind };
+        } catch (error) {
+            console.error("Error regenerating diagram:", error);
+            throw toServiceError(error, "Failed to redraw the diagram.");
+        }
+    });
 }
 
 const comprehensionTestSchema = {
     type: Type.ARRAY,
     description: "An array of exactly 4 comprehension questions.",
+    minItems: '4',
+    maxItems: '4',
     items: {
         type: Type.OBJECT,
         properties: {
@@ -594,23 +720,25 @@ const comprehensionTestSchema = {
     }
 };
 
-export async function generateComprehensionTest(topic: string, content: ExpandedContent): Promise<ComprehensionQuestion[]> {
-    try {
-        const response = await ai.models.generateContent({
-            model: textModel,
-            contents: `Based on the provided teaching pack about "${topic}", generate exactly 4 comprehension questions to test a user's understanding. Include a mix of question types (multiple-choice, short-answer, and an applied scenario). The questions must test the core concepts: definition, workflow, importance, and real-world application. Content: ${JSON.stringify(content)}`,
-            config: {
-                responseMimeType: "application/json",
+export async function generateComprehensionTest(topic: string, content: ExpandedContent, options: AICallOptions = {}): Promise<ComprehensionQuestion[]> {
+    return withCache('generateComprehensionTest', { topic: normalizeText(topic), content }, ['comprehension.generate'], options, async () => {
+        if (isProxyEnabled()) return callModeratedProxy('generateComprehensionTest', [topic, content], options.signal);
+
+        try {
+            const prompt = renderPrompt('comprehension.generate', { topic, content: JSON.stringify(content) });
+            const questions = await generateJson<ComprehensionQuestion[]>({
+                operation: 'generateComprehensionTest',
+                signal: options.signal,
+                contents: prompt.text,
+                prompts: [prompt.ref],
                 responseSchema: comprehensionTestSchema,
-            },
-        });
-        const questions = robustJsonParse<ComprehensionQuestion[]>(response.text);
-        if (questions.length !== 4) throw new Error("AI did not generate exactly 4 questions.");
-        return questions;
-    } catch (error) {
-        console.error("Error generating comprehension test:", error);
-        throw new Error("Failed to generate the comprehension test.");
-    }
+            });
+            return questions;
+        } catch (error) {
+            console.error("Error generating comprehension test:", error);
+            throw toServiceError(error, "Failed to generate the comprehension test.");
+        }
+    });
 }
 
 const testResultSchema = {
@@ -623,24 +751,22 @@ const testResultSchema = {
     required: ["overallFeedback", "understandingLevel", "areasToRevisit"]
 };
 
-export async function evaluateComprehensionTest(questions: ComprehensionQuestion[], answers: string[]): Promise<TestResult> {
+export async function evaluateComprehensionTest(questions: ComprehensionQuestion[], answers: string[], options: AICallOptions = {}): Promise<TestResult> {
+    answers = answers.map(answer => enforceModeration('evaluateComprehensionTest', 'input', answer));
+    if (isProxyEnabled()) return callModeratedProxy('evaluateComprehensionTest', [questions, answers], options.signal);
+
     try {
-        const response = await ai.models.generateContent({
-            model: textModel,
-            contents: `A user has taken a comprehension test. Evaluate their answers and provide feedback.
-            Questions: ${JSON.stringify(questions)}
-            User's Answers: ${JSON.stringify(answers)}
-            
-            Provide an overall feedback summary, assess their understanding level (weak, moderate, or strong), and list specific areas they should revisit based on their incorrect answers.`,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: testResultSchema,
-            },
+        const prompt = renderPrompt('comprehension.evaluate', { questions: JSON.stringify(questions), answers: JSON.stringify(answers) });
+        return await generateJson<TestResult>({
+            operation: 'evaluateComprehensionTest',
+            signal: options.signal,
+            contents: prompt.text,
+            prompts: [prompt.ref],
+            responseSchema: testResultSchema,
         });
-        return robustJsonParse<TestResult>(response.text);
     } catch (error) {
         console.error("Error evaluating comprehension test:", error);
-        throw new Error("Failed to evaluate the test answers.");
+        throw toServiceError(error, "Failed to evaluate the test answers.");
     }
 }
 
@@ -652,20 +778,21 @@ const insightsSchema = {
     items: { type: Type.STRING }
 };
 
-export async function generateAnalyticsInsights(summary: object): Promise<string[]> {
+export async function generateAnalyticsInsights(summary: object, options: AICallOptions = {}): Promise<string[]> {
+    if (isProxyEnabled()) return callModeratedProxy('generateAnalyticsInsights', [summary], options.signal);
+
     try {
-        const response = await ai.models.generateContent({
-            model: textModel,
-            contents: `You are an encouraging AI learning coach named Sparky. Based on the following user performance data (JSON format), generate exactly 3 short, actionable, and positive insights. Help the user understand their strengths and suggest what they could try next. Frame the feedback to be motivating and format it as a simple JSON array of strings. Data: ${JSON.stringify(summary, null, 2)}`,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: insightsSchema,
-            },
+        const prompt = renderPrompt('analytics.insights', { performanceData: JSON.stringify(summary, null, 2) });
+        return await generateJson<string[]>({
+            operation: 'generateAnalyticsInsights',
+            signal: options.signal,
+            contents: prompt.text,
+            prompts: [prompt.ref],
+            responseSchema: insightsSchema,
         });
-        return robustJsonParse<string[]>(response.text);
     } catch (error) {
         console.error("Error generating analytics insights:", error);
-        throw new Error("Failed to generate AI-powered insights.");
+        throw toServiceError(error, "Failed to generate AI-powered insights.");
     }
 }
 
@@ -680,41 +807,42 @@ const thinkBotChallengeSchema = {
     required: ["title", "description", "task", "suggestedTime"]
 };
 
-export async function getThinkBotChallenge(category: 'Puzzle' | 'Debate' | 'Try & Analyze', difficulty: Difficulty): Promise<ThinkBotChallenge> {
+export async function getThinkBotChallenge(category: 'Puzzle' | 'Debate' | 'Try & Analyze', difficulty: Difficulty, options: AICallOptions = {}): Promise<ThinkBotChallenge> {
+    if (isProxyEnabled()) return callModeratedProxy('getThinkBotChallenge', [category, difficulty], options.signal);
+
     try {
-        const response = await ai.models.generateContent({
-            model: textModel,
-            contents: `Generate a short, engaging, and creative thinking challenge for a high school student. The category is "${category}" and the difficulty level should be "${difficulty}". Adjust the complexity of the problem, the required depth of thinking, and the subtlety of the task based on the difficulty. An 'Easy' task should be straightforward. A 'Medium' task should require some lateral thinking. A 'Hard' task should be complex, multi-layered, or require deep critical analysis. The challenge should be unique and not something easily found online. The suggested time to complete should be between 5 and 15 minutes.`,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: thinkBotChallengeSchema,
-            },
+        const prompt = renderPrompt('thinkbot.challenge', { category, difficulty });
+        const parsed = await generateJson<any>({
+            operation: 'getThinkBotChallenge',
+            signal: options.signal,
+            contents: prompt.text,
+            prompts: [prompt.ref],
+            responseSchema: thinkBotChallengeSchema,
         });
-
-        const parsed = robustJsonParse<any>(response.text);
         return { ...parsed, category };
     } catch (error) {
         console.error("Error getting SparkIQ challenge:", error);
-        throw new Error("Failed to generate a new challenge.");
+        throw toServiceError(error, "Failed to generate a new challenge.");
     }
 }
 
-export async function generateCustomThinkBotChallenge(category: 'Jam' | 'Design Task', userPrompt: string): Promise<ThinkBotChallenge> {
+export async function generateCustomThinkBotChallenge(category: 'Jam' | 'Design Task', userPrompt: string, options: AICallOptions = {}): Promise<ThinkBotChallenge> {
+    userPrompt = enforceModeration('generateCustomThinkBotChallenge', 'input', userPrompt);
+    if (isProxyEnabled()) return callModeratedProxy('generateCustomThinkBotChallenge', [category, userPrompt], options.signal);
+
     try {
-        const response = await ai.models.generateContent({
-            model: textModel,
-            contents: `Generate a short, engaging, and creative thinking challenge for a high school student. The category is "${category}". The challenge should be based on the following user-provided topic or scenario: "${userPrompt}". The challenge should be unique and not something easily found online. The suggested time to complete should be between 5 and 15 minutes.`,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: thinkBotChallengeSchema,
-            },
+        const prompt = renderPrompt('thinkbot.customChallenge', { category, userPrompt });
+        const parsed = await generateJson<any>({
+            operation: 'generateCustomThinkBotChallenge',
+            signal: options.signal,
+            contents: prompt.text,
+            prompts: [prompt.ref],
+            responseSchema: thinkBotChallengeSchema,
         });
-
-        const parsed = robustJsonParse<any>(response.text);
         return { ...parsed, category };
     } catch (error) {
         console.error("Error getting custom SparkIQ challenge:", error);
-        throw new Error("Failed to generate a custom challenge based on your prompt.");
+        throw toServiceError(error, "Failed to generate a custom challenge based on your prompt.");
     }
 }
 
@@ -726,62 +854,50 @@ const oddOneOutSchema = {
         items: {
             type: Type.ARRAY,
             description: "An array of 4 strings. Three items should share a subtle, non-obvious connection, while one is the odd one out.",
-            items: { type: Type.STRING }
+            items: { type: Type.STRING },
+            minItems: '4',
+            maxItems: '4'
         },
         suggestedTime: { type: Type.INTEGER, description: "Suggested time in minutes, should be short, like 2-3 minutes." },
     },
     required: ["title", "task", "items", "suggestedTime"]
 };
 
-export async function getOddOneOutChallenge(): Promise<ThinkBotChallenge> {
+export async function getOddOneOutChallenge(options: AICallOptions = {}): Promise<ThinkBotChallenge> {
+    if (isProxyEnabled()) return callModeratedProxy('getOddOneOutChallenge', [], options.signal);
+
     try {
-        const response = await ai.models.generateContent({
-            model: textModel,
-            contents: `Generate an "Odd-One-Out" challenge. Provide 4 items where three are connected in a clever, subtle way, and one is the odd one out. The connection should not be immediately obvious.`,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: oddOneOutSchema,
-            },
+        const prompt = renderPrompt('oddOneOut.challenge', {});
+        const parsed = await generateJson<any>({
+            operation: 'getOddOneOutChallenge',
+            signal: options.signal,
+            contents: prompt.text,
+            prompts: [prompt.ref],
+            responseSchema: oddOneOutSchema,
         });
-
-        const parsed = robustJsonParse<any>(response.text);
-        if (parsed.items?.length !== 4) {
-             throw new Error("AI returned incorrect number of items for Odd-One-Out.");
-        }
         return { ...parsed, category: 'Odd-One-Out' };
 
     } catch (error) {
         console.error("Error getting Odd-One-Out challenge:", error);
-        throw new Error("Failed to generate an Odd-One-Out challenge.");
+        throw toServiceError(error, "Failed to generate an Odd-One-Out challenge.");
     }
 }
 
-export async function getImagePuzzleChallenge(): Promise<ThinkBotChallenge> {
+export async function getImagePuzzleChallenge(options: AICallOptions = {}): Promise<ThinkBotChallenge> {
+    if (isProxyEnabled()) return callModeratedProxy('getImagePuzzleChallenge', [], options.signal);
+
     try {
-        const conceptResponse = await ai.models.generateContent({
-            model: textModel,
-            contents: "Generate a concept for a visual puzzle or rebus that can be represented in a single image. The concept should be clever and challenging. Describe the visual elements needed for the image and the puzzle's solution. For example: 'Concept: An image of a knight chess piece made of metal, shining brightly. Solution: 'Heavy metal'.'",
+        const conceptPrompt = renderPrompt('imagePuzzle.concept', {});
+        const concept = await generateText({
+            operation: 'getImagePuzzleChallenge',
+            signal: options.signal,
+            contents: conceptPrompt.text,
+            prompts: [conceptPrompt.ref],
         });
-        const concept = conceptResponse.text;
 
-        const imageGenPrompt = `Create an image for a visual puzzle based on this concept: ${concept}. The image should be clear and high-quality, focusing on the key elements described. Do not include any text in the image.`;
+        const imagePrompt = renderPrompt('imagePuzzle.image', { concept });
 
-        const imageResponse = await ai.models.generateContent({
-            model: imageModel,
-            contents: { parts: [{ text: imageGenPrompt }] },
-            config: {
-                responseModalities: ['IMAGE'],
-            },
-        });
-
-        const imagePart = imageResponse.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
-        if (!imagePart?.inlineData) {
-            throw new Error("Could not extract image data from the AI response for the puzzle.");
-        }
-        
-        const base64ImageBytes: string = imagePart.inlineData.data;
-        const mimeType = imagePart.inlineData.mimeType;
-        const imageUrl = `data:${mimeType};base64,${base64ImageBytes}`;
+        const imageUrl = await generateImage({ operation: 'getImagePuzzleChallenge', prompt: imagePrompt.text, prompts: [imagePrompt.ref], signal: options.signal });
 
         const challenge: ThinkBotChallenge = {
             category: 'Image Puzzle',
@@ -795,7 +911,7 @@ export async function getImagePuzzleChallenge(): Promise<ThinkBotChallenge> {
 
     } catch (error) {
         console.error("Error getting Image Puzzle challenge:", error);
-        throw new Error("Failed to generate an Image Puzzle challenge. The AI service may be temporarily unavailable.");
+        throw toServiceError(error, "Failed to generate an Image Puzzle challenge. The AI service may be temporarily unavailable.");
     }
 }
 
@@ -807,12 +923,14 @@ const listeningPracticeSchema = {
         questions: {
             type: Type.ARRAY,
             description: "An array of 3 multiple-choice questions about the story.",
+            minItems: '3',
+            maxItems: '3',
             items: {
                 type: Type.OBJECT,
                 properties: {
                     question: { type: Type.STRING },
-                    options: { type: Type.ARRAY, items: { type: Type.STRING } },
-                    correctAnswerIndex: { type: Type.INTEGER }
+                    options: { type: Type.ARRAY, items: { type: Type.STRING }, minItems: '4', maxItems: '4' },
+                    correctAnswerIndex: { type: Type.INTEGER, minimum: 0, maximum: 3 }
                 },
                 required: ["question", "options", "correctAnswerIndex"]
             }
@@ -821,103 +939,118 @@ const listeningPracticeSchema = {
     required: ["title", "story", "questions"]
 };
 
-export async function getListeningPracticeChallenge(): Promise<ThinkBotChallenge> {
+export async function getListeningPracticeChallenge(options: AICallOptions = {}): Promise<ThinkBotChallenge> {
+    if (isProxyEnabled()) return callModeratedProxy('getListeningPracticeChallenge', [], options.signal);
+
      try {
-        const response = await ai.models.generateContent({
-            model: textModel,
-            contents: "Create a short story for a listening comprehension exercise. The story should be engaging and around 150-200 words. After the story, create 3 multiple-choice questions to test understanding. Each question must have 4 options, and one must be correct. Indicate the index of the correct answer.",
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: listeningPracticeSchema,
-            },
+        const prompt = renderPrompt('listening.challenge', {});
+        const parsed = await generateJson<any>({
+            operation: 'getListeningPracticeChallenge',
+            signal: options.signal,
+            contents: prompt.text,
+            prompts: [prompt.ref],
+            responseSchema: listeningPracticeSchema,
         });
-
-        const parsed = robustJsonParse<any>(response.text);
         return { ...parsed, category: 'Listening Practice', suggestedTime: 0, task: "Listen to the story and answer the questions that follow." };
      } catch (error) {
          console.error("Error getting Listening Practice challenge:", error);
-         throw new Error("Failed to generate a Listening Practice challenge.");
+         throw toServiceError(error, "Failed to generate a Listening Practice challenge.");
      }
 }
 
-export async function evaluateSolution(challenge: ThinkBotChallenge, solution: string): Promise<string> {
-    try {
-        const response = await ai.models.generateContent({
-            model: textModel,
-            contents: `A student was given the following challenge:
-            - Category: ${challenge.category}
-            - Title: ${challenge.title}
-            - Task: ${challenge.task}
-
-            The student's solution was:
-            "${solution}"
+export async function evaluateSolution(challenge: ThinkBotChallenge, solution: string, options: AICallOptions = {}): Promise<string> {
+    solution = enforceModeration('evaluateSolution', 'input', solution);
+    if (isProxyEnabled()) return callModeratedProxy('evaluateSolution', [challenge, solution], options.signal);
 
-            Act as an encouraging AI Coach. Provide constructive feedback on the student's solution. Keep the feedback concise (2-3 paragraphs). Start with something positive, then offer specific suggestions for improvement. If it's a puzzle-like challenge (like Odd-One-Out or Image Puzzle), first state what the likely correct answer is and why, then evaluate the student's reasoning. Format the output in Markdown.`,
+    try {
+        const prompt = renderPrompt('solution.feedback', {
+            category: challenge.category,
+            challengeTitle: challenge.title,
+            challengeTask: challenge.task,
+            solution,
+        });
+        const responseText = await generateText({
+            operation: 'evaluateSolution',
+            signal: options.signal,
+            contents: prompt.text,
+            prompts: [prompt.ref],
         });
-        return response.text;
+        return responseText;
     } catch (error) {
         console.error("Error evaluating solution:", error);
-        throw new Error("Failed to get feedback from the AI coach.");
+        throw toServiceError(error, "Failed to get feedback from the AI coach.");
     }
 }
 
 const quizSchema = {
     type: Type.ARRAY,
+    minItems: '5',
+    maxItems: '5',
     items: {
         type: Type.OBJECT,
         properties: {
             question: { type: Type.STRING },
-            options: { type: Type.ARRAY, items: { type: Type.STRING } },
-            correctAnswerIndex: { type: Type.INTEGER, description: "The 0-based index of the correct answer in the options array." }
+            options: { type: Type.ARRAY, items: { type: Type.STRING }, minItems: '4', maxItems: '4' },
+            correctAnswerIndex: { type: Type.INTEGER, description: "The 0-based index of the correct answer in the options array.", minimum: 0, maximum: 3 }
         },
         required: ["question", "options", "correctAnswerIndex"]
     }
 };
 
-export async function generateQuiz(topic: string): Promise<QuizQuestion[]> {
-    try {
-        const response = await ai.models.generateContent({
-            model: textModel,
-            contents: `Generate a 5-question multiple-choice quiz on the topic of "${topic}". Each question should have 4 options. Indicate the correct answer for each question.`,
-            config: {
-                responseMimeType: "application/json",
+export async function generateQuiz(topic: string, options: AICallOptions = {}): Promise<QuizQuestion[]> {
+    topic = enforceModeration('generateQuiz', 'input', topic);
+    return withCache('generateQuiz', normalizeText(topic), ['quiz.generate'], options, async () => {
+        if (isProxyEnabled()) return callModeratedProxy('generateQuiz', [topic], options.signal);
+
+        try {
+            const prompt = renderPrompt('quiz.generate', { topic });
+            const questions = await generateJson<QuizQuestion[]>({
+                operation: 'generateQuiz',
+                signal: options.signal,
+                contents: prompt.text,
+                prompts: [prompt.ref],
                 responseSchema: quizSchema,
-            },
-        });
-
-        const questions = robustJsonParse<QuizQuestion[]>(response.text);
-        if (questions.length !== 5 || questions.some(q => q.options.length !== 4)) {
-            throw new Error("AI returned quiz in an unexpected format.");
+            });
+            return questions;
+        } catch (error) {
+            console.error("Error generating quiz:", error);
+            throw toServiceError(error, "Failed to generate the quiz.");
         }
-        return questions;
-    } catch (error) {
-        console.error("Error generating quiz:", error);
-        throw new Error("Failed to generate the quiz.");
-    }
+    });
 }
 
-export async function getQuizFeedback(score: number, totalQuestions: number, topic: string): Promise<string> {
+export async function getQuizFeedback(score: number, totalQuestions: number, topic: string, options: AICallOptions = {}): Promise<string> {
+    if (isProxyEnabled()) return callModeratedProxy('getQuizFeedback', [score, totalQuestions, topic], options.signal);
+
     try {
-        const response = await ai.models.generateContent({
-            model: textModel,
-            contents: `A student scored ${score} out of ${totalQuestions} on a quiz about "${topic}". Provide some brief, encouraging feedback and suggest one related topic they might be interested in exploring next.`,
+        const prompt = renderPrompt('quiz.feedback', { score, totalQuestions, topic });
+        const responseText = await generateText({
+            operation: 'getQuizFeedback',
+            signal: options.signal,
+            contents: prompt.text,
+            prompts: [prompt.ref],
         });
-        return response.text;
+        return responseText;
     } catch (error) {
         console.error("Error getting quiz feedback:", error);
-        throw new Error("Failed to get quiz feedback.");
+        throw toServiceError(error, "Failed to get quiz feedback.");
     }
 }
 
-export async function getListeningPracticeFeedback(score: number, totalQuestions: number, storyTitle: string): Promise<string> {
+export async function getListeningPracticeFeedback(score: number, totalQuestions: number, storyTitle: string, options: AICallOptions = {}): Promise<string> {
+    if (isProxyEnabled()) return callModeratedProxy('getListeningPracticeFeedback', [score, totalQuestions, storyTitle], options.signal);
+
     try {
-        const response = await ai.models.generateContent({
-            model: textModel,
-            contents: `A student scored ${score} out of ${totalQuestions} on a listening comprehension quiz for the story titled "${storyTitle}". Provide some brief, encouraging feedback. If they did well, praise their attention to detail. If they struggled, suggest listening again or focusing on key details next time.`,
+        const prompt = renderPrompt('listening.feedback', { score, totalQuestions, storyTitle });
+        const responseText = await generateText({
+            operation: 'getListeningPracticeFeedback',
+            signal: options.signal,
+            contents: prompt.text,
+            prompts: [prompt.ref],
         });
-        return response.text;
+        return responseText;
     } catch (error) {
         console.error("Error getting listening practice feedback:", error);
-        throw new Error("Failed to get listening practice feedback.");
+        throw toServiceError(error, "Failed to get listening practice feedback.");
     }
 }
\ No newline at end of file
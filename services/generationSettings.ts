@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AIOperation } from './llmProvider';
+
+/**
+ * Which model each operation uses and how it generates: temperature and output length. Light,
+ * frequent calls such as quiz feedback use a cheaper model; teaching packs use a stronger one.
+ * Defaults can be changed with configureGenerationSettings (e.g. on the server) and adjusted per
+ * device in Settings. Choices made in the browser don't reach the proxy server, which uses its own.
+ */
+
+export interface KnownModel {
+    id: string;
+    label: string;
+    kind: 'text' | 'image';
+    /** The most output tokens the model can produce in one response. */
+    maxOutputTokens: number;
+}
+
+export const KNOWN_MODELS: KnownModel[] = [
+    { id: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash-Lite (fastest, cheapest)', kind: 'text', maxOutputTokens: 65536 },
+    { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash (balanced)', kind: 'text', maxOutputTokens: 65536 },
+    { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro (strongest, slowest)', kind: 'text', maxOutputTokens: 65536 },
+    { id: 'gemini-2.5-flash-image', label: 'Gemini 2.5 Flash Image', kind: 'image', maxOutputTokens: 32768 },
+];
+
+export interface GenerationSettings {
+    model: string;
+    /** 0 to 2. Missing or null means the model's default; null overrides a default set here. */
+    temperature?: number | null;
+    /** Missing or null means the model's limit; null overrides a default set here. */
+    maxOutputTokens?: number | null;
+    /** The model for the operation's images, for operations that generate any. */
+    imageModel?: string;
+}
+
+export type GenerationSettingsOverrides = Partial<Record<AIOperation, Partial<GenerationSettings>>>;
+
+const TEXT_MODEL = 'gemini-2.5-flash';
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+
+export const DEFAULT_GENERATION_SETTINGS: Record<AIOperation, GenerationSettings> = {
+    generateSimplifiedContent: { model: TEXT_MODEL, temperature: 0.4 },
+    translateContent: { model: TEXT_MODEL, temperature: 0.2 },
+    generateExpandedContent: { model: 'gemini-2.5-pro', temperature: 0.7, imageModel: IMAGE_MODEL },
+    generateDiagram: { model: TEXT_MODEL, temperature: 0.3 },
+    generateComprehensionTest: { model: TEXT_MODEL, temperature: 0.5 },
+    evaluateComprehensionTest: { model: TEXT_MODEL, temperature: 0.3 },
+    generateAnalyticsInsights: { model: TEXT_MODEL, temperature: 0.5, maxOutputTokens: 2048 },
+    getThinkBotChallenge: { model: TEXT_MODEL, temperature: 1.0 },
+    generateCustomThinkBotChallenge: { model: TEXT_MODEL, temperature: 0.9 },
+    getOddOneOutChallenge: { model: 'gemini-2.5-flash-lite', temperature: 1.0 },
+    getImagePuzzleChallenge: { model: TEXT_MODEL, temperature: 1.0, imageModel: IMAGE_MODEL },
+    getListeningPracticeChallenge: { model: TEXT_MODEL, temperature: 0.9 },
+    evaluateSolution: { model: TEXT_MODEL, temperature: 0.5, maxOutputTokens: 4096 },
+    generateQuiz: { model: TEXT_MODEL, temperature: 0.6 },
+    getQuizFeedback: { model: 'gemini-2.5-flash-lite', temperature: 0.8, maxOutputTokens: 1024 },
+    getListeningPracticeFeedback: { model: 'gemini-2.5-flash-lite', temperature: 0.8, maxOutputTokens: 1024 },
+};
+
+const STORAGE_KEY = 'generationSettings';
+
+let configuredOverrides: GenerationSettingsOverrides = {};
+
+/** Changes the defaults, e.g. from environment variables on the server. Device settings still apply on top. */
+export function configureGenerationSettings(overrides: GenerationSettingsOverrides): void {
+    configuredOverrides = { ...configuredOverrides, ...overrides };
+}
+
+/** The settings saved on this device, as changes from the defaults. */
+export function getStoredGenerationSettings(): GenerationSettingsOverrides {
+    if (typeof localStorage === 'undefined') return {};
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored ? JSON.parse(stored) as GenerationSettingsOverrides : {};
+    } catch (e) {
+        console.error(`Failed to parse ${STORAGE_KEY} from localStorage`, e);
+        return {};
+    }
+}
+
+/** The defaults for an operation, before anything saved on this device. */
+export function getDefaultGenerationSettings(operation: AIOperation): GenerationSettings {
+    return { ...DEFAULT_GENERATION_SETTINGS[operation], ...configuredOverrides[operation] };
+}
+
+/**
+ * The settings an operation's calls are made with. Saved settings that are no longer valid,
+ * e.g. for a model that was removed from the list, are ignored.
+ */
+export function getGenerationSettings(operation: AIOperation): GenerationSettings {
+    const defaults = getDefaultGenerationSettings(operation);
+    const settings = { ...defaults, ...getStoredGenerationSettings()[operation] };
+    return validateGenerationSettings(operation, settings).length === 0 ? settings : defaults;
+}
+
+export function findKnownModel(id: string): KnownModel | undefined {
+    return KNOWN_MODELS.find(model => model.id === id);
+}
+
+/** Problems with an operation's settings, as messages for the settings screen. Empty when valid. */
+export function validateGenerationSettings(operation: AIOperation, settings: GenerationSettings): string[] {
+    const errors: string[] = [];
+    const model = findKnownModel(settings.model);
+    if (!model || model.kind !== 'text') {
+        errors.push(`"${settings.model}" is not a known text model.`);
+    }
+    if (settings.temperature != null && !(settings.temperature >= 0 && settings.temperature <= 2)) {
+        errors.push('Temperature must be between 0 and 2.');
+    }
+    if (settings.maxOutputTokens != null) {
+        const limit = model?.maxOutputTokens ?? Infinity;
+        if (!Number.isInteger(settings.maxOutputTokens) || settings.maxOutputTokens < 1 || settings.maxOutputTokens > limit) {
+            errors.push(`Max output must be a whole number from 1 to ${limit === Infinity ? 'the model limit' : limit.toLocaleString()}.`);
+        }
+    }
+    if (DEFAULT_GENERATION_SETTINGS[operation].imageModel !== undefined) {
+        const imageModel = settings.imageModel ? findKnownModel(settings.imageModel) : undefined;
+        if (!imageModel || imageModel.kind !== 'image') {
+            errors.push(`"${settings.imageModel ?? ''}" is not a known image model.`);
+        }
+    }
+    return errors;
+}
+
+/**
+ * Validates and saves settings for this device. Only differences from the defaults are stored,
+ * so later changes to the defaults still reach operations the user hasn't touched. A cleared
+ * temperature or output limit is stored as null, so the model's own default replaces the one
+ * set here. Returns the problems per operation; nothing is saved when there are any.
+ */
+export function saveGenerationSettings(settings: Record<AIOperation, GenerationSettings>): Partial<Record<AIOperation, string[]>> {
+    const problems: Partial<Record<AIOperation, string[]>> = {};
+    const overrides: GenerationSettingsOverrides = {};
+    for (const operation of Object.keys(settings) as AIOperation[]) {
+        const errors = validateGenerationSettings(operation, settings[operation]);
+        if (errors.length > 0) {
+            problems[operation] = errors;
+            continue;
+        }
+        const defaults = getDefaultGenerationSettings(operation);
+        // A cleared field may come through as undefined; both it and null mean the model's default
+        const keys = [...new Set([...Object.keys(defaults), ...Object.keys(settings[operation])])] as (keyof GenerationSettings)[];
+        const changes = keys.filter(key => (settings[operation][key] ?? null) !== (defaults[key] ?? null));
+        if (changes.length > 0) {
+            overrides[operation] = Object.fromEntries(changes.map(key => [key, settings[operation][key] ?? null]));
+        }
+    }
+    if (Object.keys(problems).length === 0) {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+    }
+    return problems;
+}
+
+export function resetGenerationSettings(): void {
+    localStorage.removeItem(STORAGE_KEY);
+}
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Block, Inline, ExportDocument, ExportLayout, layoutTypography } from './exportDocument';
+
+/**
+ * Renders export documents as HTML: a self-contained page, the pages printed to PDF, and the
+ * XHTML inside EPUBs. Output is well-formed XML so the EPUB exporter can reuse it as is.
+ */
+
+export function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Maps an image URL to the src written into the page, or null to leave the image out (its
+ * caption is still shown). Defaults to the URL itself.
+ */
+export type ImageResolver = (url: string) => string | null;
+
+function renderInline(runs: Inline[]): string {
+    return runs.map(run => {
+        let html = escapeXml(run.text);
+        if (run.bold) html = `<strong>${html}</strong>`;
+        if (run.italic) html = `<em>${html}</em>`;
+        if (run.link) html = `<a href="${escapeXml(run.link)}">${html}</a>`;
+        return html;
+    }).join('');
+}
+
+export function renderBlocks(blocks: Block[], resolveImage: ImageResolver = url => url): string {
+    return blocks.map(block => {
+        switch (block.type) {
+            case 'heading':
+                return `<h${block.level}>${escapeXml(block.text)}</h${block.level}>`;
+            case 'paragraph':
+                return `<p>${renderInline(block.runs)}</p>`;
+            case 'list': {
+                const tag = block.ordered ? 'ol' : 'ul';
+                return `<${tag}>${block.items.map(item => `<li>${renderInline(item)}</li>`).join('')}</${tag}>`;
+            }
+            case 'image': {
+                const src = resolveImage(block.url);
+                const description = block.description ? `<br/><span class="description">${escapeXml(block.description)}</span>` : '';
+                return `<figure>${src ? `<img src="${escapeXml(src)}" alt="${escapeXml(block.caption)}"/>` : ''}<figcaption><strong>${escapeXml(block.caption)}</strong>${description}</figcaption></figure>`;
+            }
+            case 'columns': {
+                const headings = block.columns.map(column => `<th${column.lang ? ` lang="${escapeXml(column.lang)}"` : ''}>${escapeXml(column.heading)}</th>`).join('');
+                const cells = block.columns.map(column => `<td${column.lang ? ` lang="${escapeXml(column.lang)}"` : ''}>${renderBlocks(column.blocks, resolveImage)}</td>`).join('');
+                return `<table class="bilingual"><tr>${headings}</tr><tr>${cells}</tr></table>`;
+            }
+        }
+    }).join('\n');
+}
+
+/** The title block at the top of every export. */
+export function renderTitle(doc: ExportDocument): string {
+    return `<header><h1>${escapeXml(doc.title)}</h1>${doc.subtitle ? `<p class="subtitle">${escapeXml(doc.subtitle)}</p>` : ''}</header>`;
+}
+
+export function exportStyles(layout: ExportLayout): string {
+    const type = layoutTypography(layout);
+    return `
+body { font-family: ${type.fontFamily}; font-size: ${type.fontSizePt}pt; line-height: ${type.lineHeight}; letter-spacing: ${type.letterSpacingEm}em; word-spacing: ${type.letterSpacingEm * 2}em; color: #222; max-width: 48em; margin: 0 auto; padding: 1.5em; text-align: left; }
+h1 { font-size: 2em; color: #db2777; margin: 0; }
+h2 { font-size: 1.4em; color: #db2777; margin: 1.4em 0 0.4em; page-break-after: avoid; }
+h3 { font-size: 1.15em; margin: 1em 0 0.3em; page-break-after: avoid; }
+.subtitle { color: #666; margin: 0.2em 0 1.5em; }
+figure { margin: 1em 0; page-break-inside: avoid; }
+figure img { max-width: 100%; height: auto; border-radius: 8px; }
+figcaption { font-size: 0.9em; color: #444; }
+a { color: #2563eb; }
+table.bilingual { width: 100%; border-collapse: collapse; table-layout: fixed; }
+table.bilingual th { font-size: 1.2em; border-bottom: 2px solid #f9a8d4; padding: 0.3em; }
+table.bilingual td { vertical-align: top; padding: 0 0.8em; width: 50%; }
+table.bilingual td + td { border-left: 1px solid #ddd; }
+@page { margin: 2cm; }
+@media print { body { padding: 0; max-width: none; } a { color: inherit; } }
+`.trim();
+}
+
+/** A complete HTML page. Images should already be data URLs so the file works offline. */
+export function renderHtmlPage(doc: ExportDocument, layout: ExportLayout): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8"/>
+<meta name="viewport" content="width=device-width, initial-scale=1"/>
+<title>${escapeXml(doc.title)}</title>
+<style>
+${exportStyles(layout)}
+</style>
+</head>
+<body>
+${renderTitle(doc)}
+${renderBlocks(doc.blocks)}
+</body>
+</html>`;
+}
+
+/**
+ * Opens the browser's print dialog for the document, where it can be saved as a PDF. The page
+ * is printed from a hidden frame so the app stays as it is.
+ */
+export function printDocument(doc: ExportDocument, layout: ExportLayout): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const frame = document.createElement('iframe');
+        frame.style.position = 'fixed';
+        frame.style.width = '0';
+        frame.style.height = '0';
+        frame.style.border = '0';
+        frame.onload = () => {
+            const printWindow = frame.contentWindow;
+            if (!printWindow) {
+                frame.remove();
+                reject(new Error('The print preview could not be opened.'));
+                return;
+            }
+            printWindow.addEventListener('afterprint', () => frame.remove());
+            printWindow.focus();
+            printWindow.print();
+            resolve();
+        };
+        frame.srcdoc = renderHtmlPage(doc, layout);
+        document.body.appendChild(frame);
+    });
+}
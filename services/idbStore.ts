@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Small promise helpers over IndexedDB, shared by the modules that persist large data locally.
+ */
+
+export function isIndexedDBAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+const openDatabases = new Map<string, Promise<IDBDatabase>>();
+
+/**
+ * Opens (and caches) a database. `upgrade` runs when the database is created or its version
+ * increases, and should create any missing object stores.
+ */
+export function openDatabase(name: string, version: number, upgrade: (db: IDBDatabase) => void): Promise<IDBDatabase> {
+    let database = openDatabases.get(name);
+    if (!database) {
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = () => upgrade(request.result);
+        database = requestToPromise(request);
+        // Let a failed open be retried on the next call.
+        database.catch(() => openDatabases.delete(name));
+        openDatabases.set(name, database);
+    }
+    return database;
+}
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ImageDetail } from '../types';
+
+/**
+ * Helpers for keeping teaching pack images with the content, for the library and the exporters.
+ */
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+/**
+ * Copies web images into the content as data URLs so they still show offline. Images the
+ * browser isn't allowed to read (no CORS headers) keep their URL.
+ */
+export async function embedImages(images: ImageDetail[]): Promise<ImageDetail[]> {
+    return Promise.all(images.map(async image => {
+        if (!/^https?:/.test(image.url)) return image;
+        try {
+            const response = await fetch(image.url);
+            if (!response.ok) return image;
+            return { ...image, url: await blobToDataUrl(await response.blob()) };
+        } catch {
+            return image;
+        }
+    }));
+}
+
+export interface RasterImage {
+    mimeType: 'image/png' | 'image/jpeg';
+    bytes: Uint8Array;
+    width: number;
+    height: number;
+}
+
+function decodeDataUrl(url: string): { mimeType: string; bytes: Uint8Array } | null {
+    const match = /^data:([^;,]+)((?:;[^;,]*)*),(.*)$/s.exec(url);
+    if (!match) return null;
+    const [, mimeType, parameters, payload] = match;
+    if (parameters.includes(';base64')) {
+        const binary = atob(payload);
+        return { mimeType, bytes: Uint8Array.from(binary, char => char.charCodeAt(0)) };
+    }
+    return { mimeType, bytes: new TextEncoder().encode(decodeURIComponent(payload)) };
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error(`Image failed to load: ${url.slice(0, 60)}`));
+        image.src = url;
+    });
+}
+
+/**
+ * An embedded image as PNG or JPEG bytes with its size, for formats that can't show other types
+ * (e.g. the SVG fallback illustrations in Word). Returns null for images that aren't data URLs
+ * or can't be decoded.
+ */
+export async function rasterizeImage(url: string): Promise<RasterImage | null> {
+    const decoded = url.startsWith('data:') ? decodeDataUrl(url) : null;
+    if (!decoded) return null;
+    try {
+        const image = await loadImage(url);
+        const width = image.naturalWidth || 800;
+        const height = image.naturalHeight || 600;
+        if (decoded.mimeType === 'image/png' || decoded.mimeType === 'image/jpeg') {
+            return { mimeType: decoded.mimeType, bytes: decoded.bytes, width, height };
+        }
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        canvas.getContext('2d')?.drawImage(image, 0, 0, width, height);
+        const png = decodeDataUrl(canvas.toDataURL('image/png'));
+        return png && { mimeType: 'image/png', bytes: png.bytes, width, height };
+    } catch (error) {
+        console.warn("Image could not be prepared for export:", error);
+        return null;
+    }
+}
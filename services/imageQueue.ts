@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageStatus } from '../types';
+import { AICancelledError } from './aiErrors';
+import { getRetryPolicy, RetryPolicy } from './aiRetry';
+
+/**
+ * Runs a batch of image generation jobs a few at a time, so a teaching pack's ten images don't
+ * hit the image model in one burst. Each job falls back to a substitute image when generation
+ * fails, and progress is reported as jobs start and finish.
+ */
+
+export interface ImageQueueConfig {
+    /** How many images are generated at the same time. */
+    concurrency: number;
+    /** Attempts per image, including the first, before falling back. */
+    maxAttemptsPerImage: number;
+}
+
+let queueConfig: ImageQueueConfig = {
+    concurrency: 2,
+    maxAttemptsPerImage: 2,
+};
+
+export function configureImageQueue(overrides: Partial<ImageQueueConfig>): void {
+    queueConfig = { ...queueConfig, ...overrides };
+}
+
+/** The retry policy for a single image job: the shared policy with the queue's attempt limit. */
+export function getImageRetryPolicy(): RetryPolicy {
+    return { ...getRetryPolicy(), maxAttempts: queueConfig.maxAttemptsPerImage };
+}
+
+export interface ImageJob<T> {
+    /** Generates the image, retrying on its own according to getImageRetryPolicy. */
+    generate: () => Promise<T>;
+    /** Produces a substitute when generation fails. If it is missing or throws, the job fails. */
+    fallback?: () => Promise<T> | T;
+}
+
+export interface ImageJobResult<T> {
+    index: number;
+    status: Exclude<ImageStatus, 'pending'>;
+    value?: T;
+    error?: unknown;
+}
+
+export interface ImageQueueProgress {
+    total: number;
+    /** Jobs finished, whatever their outcome. */
+    completed: number;
+    /** Jobs currently generating. */
+    running: number;
+}
+
+export interface ImageQueueOptions<T> {
+    /** Stops starting new jobs and rejects with an AICancelledError. */
+    signal?: AbortSignal;
+    onJobStart?: (index: number, progress: ImageQueueProgress) => void;
+    onJobDone?: (result: ImageJobResult<T>, progress: ImageQueueProgress) => void;
+}
+
+/**
+ * Runs every job with at most `concurrency` in flight, in order, and resolves with one result per job.
+ * A failed job never fails the batch; only cancellation does.
+ */
+export async function runImageQueue<T>(jobs: ImageJob<T>[], { signal, onJobStart, onJobDone }: ImageQueueOptions<T> = {}): Promise<ImageJobResult<T>[]> {
+    const results: ImageJobResult<T>[] = new Array(jobs.length);
+    let nextIndex = 0;
+    let completed = 0;
+    let running = 0;
+    const progress = (): ImageQueueProgress => ({ total: jobs.length, completed, running });
+
+    const runJob = async (index: number): Promise<ImageJobResult<T>> => {
+        const job = jobs[index];
+        try {
+            return { index, status: 'generated', value: await job.generate() };
+        } catch (error) {
+            if (error instanceof AICancelledError || signal?.aborted) {
+                throw new AICancelledError();
+            }
+            console.warn(`Image ${index + 1} of ${jobs.length} could not be generated, using a fallback.`, error);
+            if (!job.fallback) {
+                return { index, status: 'failed', error };
+            }
+            try {
+                return { index, status: 'fallback', value: await job.fallback(), error };
+            } catch (fallbackError) {
+                console.error(`Fallback for image ${index + 1} failed:`, fallbackError);
+                return { index, status: 'failed', error: fallbackError };
+            }
+        }
+    };
+
+    const worker = async (): Promise<void> => {
+        while (nextIndex < jobs.length) {
+            if (signal?.aborted) {
+                throw new AICancelledError();
+            }
+            const index = nextIndex++;
+            running++;
+            onJobStart?.(index, progress());
+            let result: ImageJobResult<T>;
+            try {
+                result = await runJob(index);
+            } finally {
+                running--;
+            }
+            completed++;
+            results[index] = result;
+            onJobDone?.(result, progress());
+        }
+    };
+
+    const workerCount = Math.max(1, Math.min(queueConfig.concurrency, jobs.length));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+    return results;
+}
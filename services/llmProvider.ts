@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Schema } from "@google/genai";
+import type { PromptRef } from './promptRegistry';
+import type { ModelSafetyLevel } from './contentModeration';
+import type { UploadSource } from './dataAuditLog';
+import { createGeminiProvider } from './geminiProvider';
+import { createFixtureProvider } from './fixtureProvider';
+import { getApiKey, hasApiKey } from './apiKeyStore';
+import { isProxyEnabled } from './proxyClient';
+
+/**
+ * The name of the geminiService operation issuing a model call. Providers can use it to pick
+ * canned responses, and it is the unit the rest of the app reasons about (logging, usage, etc.).
+ */
+export type AIOperation =
+    | 'generateSimplifiedContent'
+    | 'translateContent'
+    | 'generateExpandedContent'
+    | 'generateDiagram'
+    | 'generateComprehensionTest'
+    | 'evaluateComprehensionTest'
+    | 'generateAnalyticsInsights'
+    | 'getThinkBotChallenge'
+    | 'generateCustomThinkBotChallenge'
+    | 'getOddOneOutChallenge'
+    | 'getImagePuzzleChallenge'
+    | 'getListeningPracticeChallenge'
+    | 'evaluateSolution'
+    | 'generateQuiz'
+    | 'getQuizFeedback'
+    | 'getListeningPracticeFeedback';
+
+export type LLMPart =
+    | { text: string }
+    | { inlineData: { mimeType: string; data: string } };
+
+export interface TextGenerationRequest {
+    operation: AIOperation;
+    contents: string | LLMPart[];
+    systemInstruction?: string;
+    /** When set, the provider must answer with JSON conforming to this schema. */
+    responseSchema?: Schema;
+    /** Providers should stop work and reject as soon as this is aborted. */
+    signal?: AbortSignal;
+    /** The prompt template versions the request was rendered from, for the call log. Providers ignore it. */
+    prompts?: PromptRef[];
+    /** The logged call this request re-sends, when replayed from the call inspector. Providers ignore it. */
+    replayOf?: number;
+    /** Where the request's text or file came from, for the data audit log. Providers ignore it. */
+    upload?: UploadSource;
+    /** How strictly the provider's own safety filters should block harmful content, where it has any. */
+    safetyLevel?: ModelSafetyLevel;
+    /** The model to use instead of the provider's default. Providers with a single model ignore it. */
+    model?: string;
+    temperature?: number;
+    maxOutputTokens?: number;
+}
+
+export interface ImageGenerationRequest {
+    operation: AIOperation;
+    prompt: string;
+    signal?: AbortSignal;
+    prompts?: PromptRef[];
+    replayOf?: number;
+    upload?: UploadSource;
+    safetyLevel?: ModelSafetyLevel;
+    model?: string;
+}
+
+export interface TokenUsage {
+    promptTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+}
+
+export interface TextGenerationResult {
+    text: string;
+    usage?: TokenUsage;
+}
+
+export interface ImageGenerationResult {
+    mimeType: string;
+    data: string; // Base64-encoded image bytes
+    usage?: TokenUsage;
+}
+
+/**
+ * A backend capable of serving the model calls made by geminiService.
+ * Every exported service function goes through the active provider, so swapping it
+ * swaps the model vendor for the whole app.
+ */
+export interface LLMProvider {
+    readonly name: string;
+    /** The default text model, used for requests that don't name one. */
+    readonly model: string;
+    /** The image model, when it differs from `model`. Shown in the call log. */
+    readonly imageModel?: string;
+    generateText(request: TextGenerationRequest): Promise<TextGenerationResult>;
+    /**
+     * Streams the response text as it is generated, one delta per chunk. Optional; callers fall
+     * back to generateText. When a chunk carries `usage`, it is cumulative for the whole response.
+     */
+    streamText?(request: TextGenerationRequest): AsyncIterable<TextGenerationResult>;
+    generateImage(request: ImageGenerationRequest): Promise<ImageGenerationResult>;
+}
+
+let activeProvider: LLMProvider | null = null;
+let isProviderOverridden = false;
+
+/**
+ * Builds the provider selected by the `AI_PROVIDER` environment variable.
+ * `fixture` runs fully offline with canned responses; anything else uses Gemini.
+ */
+function createDefaultProvider(): LLMProvider {
+    if (process.env.AI_PROVIDER === 'fixture') {
+        return createFixtureProvider();
+    }
+    return createGeminiProvider({ resolveApiKey: getApiKey });
+}
+
+/**
+ * Returns the active provider, creating the default one on first use.
+ */
+export function getProvider(): LLMProvider {
+    if (!activeProvider) {
+        activeProvider = createDefaultProvider();
+    }
+    return activeProvider;
+}
+
+/**
+ * True when AI calls can be made: a provider was installed explicitly, the fixture provider
+ * is selected, calls go through the proxy server, or an API key is available.
+ * Screens use this to show the "AI not configured" state.
+ */
+export function isAIConfigured(): boolean {
+    return isProviderOverridden || process.env.AI_PROVIDER === 'fixture' || isProxyEnabled() || hasApiKey();
+}
+
+/**
+ * The provider installed with setProvider, or null when the default provider is in use.
+ */
+export function getProviderOverride(): LLMProvider | null {
+    return isProviderOverridden ? activeProvider : null;
+}
+
+/**
+ * Replaces the active provider, e.g. with a fixture provider for demos and tests.
+ * Passing null restores the default provider on the next call.
+ */
+export function setProvider(provider: LLMProvider | null): void {
+    activeProvider = provider;
+    isProviderOverridden = provider !== null;
+}
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { escapeRegExp } from './regexUtils';
+
+/**
+ * Finds personal details in text before it is sent to the AI: student names, email addresses,
+ * phone numbers, ID numbers and roll numbers. Detection runs entirely in the browser, and each
+ * finding can be masked or left in by the user before anything is uploaded.
+ */
+
+export type PiiKind = 'name' | 'email' | 'phone' | 'idNumber' | 'rollNumber';
+
+export const piiKindLabels: Record<PiiKind, string> = {
+    name: 'Name',
+    email: 'Email',
+    phone: 'Phone number',
+    idNumber: 'ID number',
+    rollNumber: 'Roll number',
+};
+
+export interface Redaction {
+    /** Position in the list of findings, stable for a given text. */
+    id: number;
+    kind: PiiKind;
+    /** Where the finding is in the text: `text.slice(start, end) === original`. */
+    start: number;
+    end: number;
+    original: string;
+    /** What the finding is replaced with, e.g. "[NAME 2]". The same value always gets the same placeholder. */
+    replacement: string;
+}
+
+/** How many findings of each kind were masked, and how many the user chose to leave in. */
+export interface RedactionSummary {
+    masked: Partial<Record<PiiKind, number>>;
+    kept: Partial<Record<PiiKind, number>>;
+}
+
+interface Finding {
+    kind: PiiKind;
+    start: number;
+    end: number;
+}
+
+const NAME = "[A-Z][a-z]+(?:[-'][A-Z]?[a-z]+)?";
+/** Words that start the next field of a form rather than continue a name, as in "Name: Asha Class: 5". */
+const FIELD_WORDS = 'class|grade|section|std|div|roll|adm|admission|reg|date|age|subject|school|phone|mobile|email|father|mother|parent|guardian|teacher|marks|score|name|id|no';
+const FULL_NAME = `${NAME}(?:[ \\t]+(?!(?:${FIELD_WORDS})\\b)${NAME}){0,2}`;
+const TITLE = '(?:Mr|Mrs|Ms|Miss|Master|Dr|Shri|Smt|Kumari)\\.?[ \\t]+';
+
+interface PiiPattern {
+    kind: PiiKind;
+    pattern: RegExp;
+    /** Rejects matches the pattern alone can't rule out. */
+    accept?: (value: string) => boolean;
+}
+
+/** Case-insensitive label patterns still only take names written with capitals. */
+const isCapitalized = (value: string) => value.split(/\s+/).every(word => /^[A-Z]/.test(word));
+
+/** Values that follow a label such as "Name:" or "Roll No." Only the value is masked. */
+const labelledPatterns: PiiPattern[] = [
+    {
+        kind: 'name',
+        pattern: new RegExp(`\\b(?:student(?:'s)?\\s+name|name\\s+of\\s+(?:the\\s+)?student|name|student|pupil|parent|guardian|father(?:'s)?\\s+name|mother(?:'s)?\\s+name)[ \\t]*[:\\-][ \\t]*(?:${TITLE})?(${FULL_NAME})`, 'gi'),
+        accept: isCapitalized,
+    },
+    { kind: 'rollNumber', pattern: /\b(?:roll\s*(?:no\.?|number|#)|admission\s*(?:no\.?|number)|adm\.?\s*no\.?|enrol(?:l)?ment\s*(?:no\.?|number)|reg(?:istration)?\.?\s*(?:no\.?|number)|student\s*id)[ \t]*[:#\-.]?[ \t]*([A-Z0-9][A-Z0-9\-/]{0,15})/gi },
+];
+
+/** Values recognised by their shape alone. */
+const shapePatterns: PiiPattern[] = [
+    { kind: 'email', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+    // Aadhaar-style 12-digit numbers written in groups of four.
+    { kind: 'idNumber', pattern: /\b\d{4}[ -]\d{4}[ -]\d{4}\b/g },
+    { kind: 'phone', pattern: /(?:\+\d{1,3}[\s-]?)?\b[6-9]\d{4}[\s-]?\d{5}\b/g },
+    { kind: 'phone', pattern: /\+\d{1,3}[\s-]?\d[\d\s-]{7,13}\d\b/g },
+    { kind: 'phone', pattern: /(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/g },
+    // Names after a title, e.g. "Ms. Priya Sharma".
+    { kind: 'name', pattern: new RegExp(`\\b${TITLE}(${FULL_NAME})`, 'g') },
+];
+
+function findMatches(text: string, { kind, pattern, accept }: PiiPattern, into: Finding[]): void {
+    for (const match of text.matchAll(pattern)) {
+        const value = match[1] ?? match[0];
+        if (accept && !accept(value)) continue;
+        const start = match.index! + match[0].lastIndexOf(value);
+        into.push({ kind, start, end: start + value.length });
+    }
+}
+
+/**
+ * Finds the personal details in `text`, in reading order and without overlaps. Names found next
+ * to a label or title are also found wherever else they appear, in full or as a single part.
+ */
+export function findRedactions(text: string): Redaction[] {
+    const findings: Finding[] = [];
+    for (const pattern of [...labelledPatterns, ...shapePatterns]) {
+        findMatches(text, pattern, findings);
+    }
+
+    const names = new Set<string>();
+    findings.filter(finding => finding.kind === 'name').forEach(finding => {
+        const name = text.slice(finding.start, finding.end);
+        names.add(name);
+        name.split(/\s+/).filter(part => part.length >= 3).forEach(part => names.add(part));
+    });
+    // Longest first, so "Priya Sharma" is found before "Priya" claims the same place.
+    [...names].sort((a, b) => b.length - a.length).forEach(name => {
+        findMatches(text, { kind: 'name', pattern: new RegExp(`\\b${escapeRegExp(name)}\\b`, 'g') }, findings);
+    });
+
+    // Keep the earliest, then longest, finding wherever two overlap.
+    findings.sort((a, b) => a.start - b.start || b.end - a.end);
+    const kept: Finding[] = [];
+    for (const finding of findings) {
+        const previous = kept[kept.length - 1];
+        if (!previous || finding.start >= previous.end) kept.push(finding);
+    }
+
+    const placeholders = new Map<string, string>();
+    const counts: Partial<Record<PiiKind, number>> = {};
+    return kept.map((finding, id) => {
+        const original = text.slice(finding.start, finding.end);
+        const key = `${finding.kind}:${original.toLowerCase()}`;
+        if (!placeholders.has(key)) {
+            counts[finding.kind] = (counts[finding.kind] ?? 0) + 1;
+            placeholders.set(key, `[${piiKindLabels[finding.kind].toUpperCase()} ${counts[finding.kind]}]`);
+        }
+        return { id, ...finding, original, replacement: placeholders.get(key)! };
+    });
+}
+
+/** The text with the given redactions applied. */
+export function applyRedactions(text: string, redactions: Redaction[]): string {
+    let result = '';
+    let position = 0;
+    [...redactions].sort((a, b) => a.start - b.start).forEach(redaction => {
+        result += text.slice(position, redaction.start) + redaction.replacement;
+        position = redaction.end;
+    });
+    return result + text.slice(position);
+}
+
+/** Counts the findings that were masked and the ones left in. */
+export function summarizeRedactions(redactions: Redaction[], masked: (redaction: Redaction) => boolean): RedactionSummary {
+    const summary: RedactionSummary = { masked: {}, kept: {} };
+    redactions.forEach(redaction => {
+        const counts = masked(redaction) ? summary.masked : summary.kept;
+        counts[redaction.kind] = (counts[redaction.kind] ?? 0) + 1;
+    });
+    return summary;
+}
@@ -0,0 +1,198 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { promptTemplates } from './promptTemplates';
+import { isDevToolsEnabled } from './devTools';
+
+/**
+ * Looks up prompt templates by name and renders them with typed variables. Every rendered prompt
+ * carries a reference to the template version that produced it, which is recorded in the AI call log.
+ */
+
+/** Every variable a prompt template can use. Structured values are passed as JSON text. */
+export interface PromptVariables {
+    topic: string;
+    difficulty: string;
+    /** Target language for translations, e.g. "Spanish". */
+    language: string;
+    /** Who the learner is, used to pitch tone and difficulty, e.g. "a high school student". */
+    learnerProfile: string;
+    category: string;
+    text: string;
+    filename: string;
+    /** Title of the document section being simplified. */
+    sectionTitle: string;
+    content: string;
+    questions: string;
+    answers: string;
+    performanceData: string;
+    userPrompt: string;
+    concept: string;
+    challengeTitle: string;
+    challengeTask: string;
+    solution: string;
+    score: number;
+    totalQuestions: number;
+    storyTitle: string;
+    refinementNote: string;
+    issues: string;
+    json: string;
+}
+
+export type PromptVariableName = keyof PromptVariables;
+
+export interface PromptTemplateVersion {
+    version: number;
+    template: string;
+    /** What changed compared to the previous version. */
+    notes?: string;
+}
+
+export interface PromptTemplateDefinition {
+    description: string;
+    variables: readonly PromptVariableName[];
+    versions: PromptTemplateVersion[];
+}
+
+export type PromptId = keyof typeof promptTemplates;
+
+/** Identifies the exact template text a prompt was rendered from. */
+export interface PromptRef {
+    id: PromptId;
+    version: number;
+}
+
+export interface RenderedPrompt {
+    text: string;
+    ref: PromptRef;
+}
+
+type TemplateVariableName<K extends PromptId> = (typeof promptTemplates)[K]['variables'][number];
+
+/** Variables filled in from the prompt defaults unless a caller passes its own value. */
+type DefaultedVariableName = 'learnerProfile';
+
+/** The variables a caller must (or, for defaulted ones, may) pass to render template `K`. */
+export type PromptVariablesFor<K extends PromptId> =
+    Pick<PromptVariables, Exclude<TemplateVariableName<K>, DefaultedVariableName>>
+    & Partial<Pick<PromptVariables, Extract<TemplateVariableName<K>, DefaultedVariableName>>>;
+
+let promptDefaults: Pick<PromptVariables, DefaultedVariableName> = {
+    learnerProfile: 'a high school student',
+};
+
+export function configurePromptDefaults(overrides: Partial<Pick<PromptVariables, DefaultedVariableName>>): void {
+    promptDefaults = { ...promptDefaults, ...overrides };
+}
+
+export function getPromptDefaults(): Pick<PromptVariables, DefaultedVariableName> {
+    return promptDefaults;
+}
+
+/** Example values for every variable, used to preview templates in the prompt editor. */
+export const samplePromptVariables: PromptVariables = {
+    topic: 'Photosynthesis',
+    difficulty: 'Medium',
+    language: 'Spanish',
+    learnerProfile: 'a high school student',
+    category: 'Puzzle',
+    text: 'Photosynthesis is the process by which green plants use sunlight to make food from carbon dioxide and water.',
+    filename: 'biology-notes.pdf',
+    sectionTitle: 'The light-dependent reactions',
+    content: '{"definition":"..."}',
+    questions: '[{"question":"What is photosynthesis?"}]',
+    answers: '["Plants making food from light"]',
+    performanceData: '{"quizzesTaken":4,"averageScore":78}',
+    userPrompt: 'Designing a school garden',
+    concept: 'A knight chess piece made of shining metal. Solution: "Heavy metal".',
+    challengeTitle: 'Which one doesn\'t belong?',
+    challengeTask: 'Find the odd one out and explain why.',
+    solution: 'The whale, because it is the only mammal.',
+    score: 4,
+    totalQuestions: 5,
+    storyTitle: 'The Lost Lighthouse Key',
+    refinementNote: '',
+    issues: '- $.questions: expected exactly 5 items, got 4',
+    json: '{"questions":[]}',
+};
+
+const OVERRIDES_STORAGE_KEY = 'promptVersionOverrides';
+
+/**
+ * Versions pinned in the prompt editor, by template. Only honoured in development builds so that
+ * production always uses the latest version of each template.
+ */
+function readVersionOverrides(): Partial<Record<PromptId, number>> {
+    if (!isDevToolsEnabled() || typeof localStorage === 'undefined') return {};
+    try {
+        return JSON.parse(localStorage.getItem(OVERRIDES_STORAGE_KEY) ?? '{}');
+    } catch {
+        return {};
+    }
+}
+
+export function listPromptTemplates(): PromptId[] {
+    return Object.keys(promptTemplates) as PromptId[];
+}
+
+export function getPromptTemplate(id: PromptId): PromptTemplateDefinition {
+    return promptTemplates[id];
+}
+
+/** The version used when rendering `id`: the pinned version in development, otherwise the latest. */
+export function getActivePromptVersion(id: PromptId): PromptTemplateVersion {
+    const { versions } = promptTemplates[id] as PromptTemplateDefinition;
+    const pinned = readVersionOverrides()[id];
+    const latest = versions.reduce((a, b) => (b.version > a.version ? b : a));
+    return versions.find(v => v.version === pinned) ?? latest;
+}
+
+/** Pins a template to a specific version for this browser, or unpins it with null. Development only. */
+export function setActivePromptVersion(id: PromptId, version: number | null): void {
+    if (!isDevToolsEnabled()) return;
+    const overrides = readVersionOverrides();
+    if (version === null) {
+        delete overrides[id];
+    } else {
+        overrides[id] = version;
+    }
+    localStorage.setItem(OVERRIDES_STORAGE_KEY, JSON.stringify(overrides));
+}
+
+/** The names of the `{{placeholders}}` used in a template, in order of first use. */
+export function findPlaceholders(template: string): string[] {
+    return [...new Set(Array.from(template.matchAll(/\{\{(\w+)\}\}/g), match => match[1]))];
+}
+
+/**
+ * Fills a template's placeholders in a single pass, so values that themselves contain `{{...}}`
+ * are left alone. Placeholders without a value are kept as-is and reported in `missing`.
+ */
+export function fillTemplate(template: string, variables: Partial<Record<string, string | number>>): { text: string; missing: string[] } {
+    const missing: string[] = [];
+    const text = template.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) => {
+        const value = variables[name];
+        if (value === undefined) {
+            missing.push(name);
+            return placeholder;
+        }
+        return String(value);
+    });
+    return { text, missing: [...new Set(missing)] };
+}
+
+/** Renders the active version of a template. */
+export function renderPrompt<K extends PromptId>(id: K, variables: PromptVariablesFor<K>): RenderedPrompt {
+    const active = getActivePromptVersion(id);
+    const { text, missing } = fillTemplate(active.template, { ...promptDefaults, ...variables });
+    if (missing.length > 0) {
+        throw new Error(`Prompt template ${id}@v${active.version} is missing variables: ${missing.join(', ')}`);
+    }
+    return { text, ref: { id, version: active.version } };
+}
+
+export function formatPromptRef(ref: PromptRef): string {
+    return `${ref.id}@v${ref.version}`;
+}
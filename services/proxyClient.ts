@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AIOperation } from './llmProvider';
+import { getSessionUser } from './sessionContext';
+import { createAIError, NetworkError, RateLimitError } from './aiErrors';
+import { withRetry, getRetryPolicy } from './aiRetry';
+
+/** The server already retries model calls and may run several of them per request, so allow it longer. */
+const PROXY_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Returns the base URL of the AI proxy server, or null when the app calls the model directly.
+ * Set `AI_PROXY_URL` at build time to keep the Gemini key on the server.
+ */
+export function getProxyUrl(): string | null {
+    return process.env.AI_PROXY_URL || null;
+}
+
+export function isProxyEnabled(): boolean {
+    return getProxyUrl() !== null;
+}
+
+/**
+ * Runs a geminiService operation on the proxy server and returns its result.
+ * The server answers with `{ result }` on success and `{ error, kind }` on failure;
+ * the kind is turned back into the matching typed error.
+ */
+export function callProxy<T>(operation: AIOperation, args: unknown[], signal?: AbortSignal): Promise<T> {
+    return withRetry(attemptSignal => requestProxy<T>(operation, args, attemptSignal), {
+        signal,
+        policy: { ...getRetryPolicy(), timeoutMs: PROXY_TIMEOUT_MS },
+    });
+}
+
+async function requestProxy<T>(operation: AIOperation, args: unknown[], signal: AbortSignal): Promise<T> {
+    const baseUrl = getProxyUrl()!.replace(/\/+$/, '');
+    const user = getSessionUser();
+
+    const response = await fetch(`${baseUrl}/api/ai/${operation}`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...(user && { 'X-User-Id': user.id }),
+        },
+        body: JSON.stringify({ args }),
+        signal,
+    }).catch(() => {
+        throw new NetworkError("Could not reach the AI server. Please check your internet connection.");
+    });
+
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        if (response.status === 429 && !payload.kind) {
+            const retryAfter = Number(response.headers.get('Retry-After')) || undefined;
+            throw new RateLimitError("You're sending requests a little too quickly. Please wait a moment and try again.", retryAfter);
+        }
+        throw createAIError(payload.kind ?? 'unknown', payload.error || `The AI server returned an error (${response.status}).`);
+    }
+    return payload.result as T;
+}
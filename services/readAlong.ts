@@ -0,0 +1,274 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Reads rendered content aloud while highlighting the current sentence and word. The text is
+ * taken from the page itself, spoken one sentence at a time (long utterances get cut off in some
+ * browsers), and word boundary events from the voice move the highlight. Highlights use the CSS
+ * Custom Highlight API, so the page's DOM is never changed; browsers without it still get
+ * speech and auto-scrolling.
+ */
+
+export type ReadAlongStatus = 'idle' | 'speaking' | 'paused';
+
+export interface ReadAlongOptions {
+    voice?: SpeechSynthesisVoice;
+    /** The language of the text, e.g. "hi-IN", used to split sentences and pick a voice. */
+    lang?: string;
+}
+
+export interface ReadAlong {
+    /**
+     * Reads the text inside `root`, from the start or from the word at a point on screen, e.g.
+     * where the user clicked.
+     */
+    start(root: HTMLElement, options: ReadAlongOptions, from?: { x: number; y: number }): void;
+    pause(): void;
+    resume(): void;
+    stop(): void;
+}
+
+const WORD_HIGHLIGHT = 'read-along-word';
+const SENTENCE_HIGHLIGHT = 'read-along-sentence';
+/** Elements whose text is never read. Mark others with data-read-along="skip". */
+const SKIPPED_ELEMENTS = 'script, style, svg, button, [data-read-along="skip"]';
+const BLOCK_ELEMENTS = 'p, li, h1, h2, h3, h4, h5, h6, div, section, figcaption, td, th, blockquote, pre, dt, dd';
+
+interface TextPiece {
+    node: Text;
+    /** Where the node's text starts in the collected text. */
+    start: number;
+}
+
+interface CollectedText {
+    text: string;
+    pieces: TextPiece[];
+}
+
+/** The readable text under an element, with a line break between blocks so headings stand alone. */
+function collectText(root: HTMLElement): CollectedText {
+    const pieces: TextPiece[] = [];
+    let text = '';
+    let lastBlock: Element | null = null;
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+        acceptNode: node => node.parentElement?.closest(SKIPPED_ELEMENTS) || !node.textContent?.trim()
+            ? NodeFilter.FILTER_REJECT
+            : NodeFilter.FILTER_ACCEPT,
+    });
+    for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+        const block = node.parentElement?.closest(BLOCK_ELEMENTS) ?? null;
+        if (text && block !== lastBlock) text += '\n';
+        lastBlock = block;
+        pieces.push({ node, start: text.length });
+        text += node.data;
+    }
+    return { text, pieces };
+}
+
+interface Span {
+    start: number;
+    end: number;
+}
+
+/** Sentence spans of the text, never crossing a line break. */
+function splitSentences(text: string, lang?: string): Span[] {
+    const sentences: Span[] = [];
+    const segmenter = typeof Intl.Segmenter === 'function' ? new Intl.Segmenter(lang, { granularity: 'sentence' }) : null;
+    let lineStart = 0;
+    for (const line of text.split('\n')) {
+        const parts = segmenter
+            ? [...segmenter.segment(line)].map(({ segment, index }) => ({ segment, index }))
+            : [...line.matchAll(/[^.!?।]+[.!?।]*\s*/g)].map(match => ({ segment: match[0], index: match.index! }));
+        for (const { segment, index } of parts) {
+            const trimmed = segment.trimEnd();
+            const leading = trimmed.length - trimmed.trimStart().length;
+            if (trimmed.trim()) sentences.push({ start: lineStart + index + leading, end: lineStart + index + trimmed.length });
+        }
+        lineStart += line.length + 1;
+    }
+    return sentences;
+}
+
+/** The DOM position of a character offset in the collected text. */
+function toDomPosition(collected: CollectedText, index: number): { node: Text; offset: number } | null {
+    let low = 0;
+    let high = collected.pieces.length - 1;
+    while (low < high) {
+        const middle = Math.ceil((low + high) / 2);
+        if (collected.pieces[middle].start <= index) low = middle; else high = middle - 1;
+    }
+    const piece = collected.pieces[low];
+    if (!piece) return null;
+    return { node: piece.node, offset: Math.min(Math.max(index - piece.start, 0), piece.node.length) };
+}
+
+function toRange(collected: CollectedText, span: Span): Range | null {
+    const start = toDomPosition(collected, span.start);
+    const end = toDomPosition(collected, span.end);
+    if (!start || !end) return null;
+    const range = document.createRange();
+    range.setStart(start.node, start.offset);
+    range.setEnd(end.node, end.offset);
+    return range;
+}
+
+function showHighlight(name: string, range: Range | null): void {
+    if (typeof CSS === 'undefined' || !CSS.highlights) return;
+    if (range) CSS.highlights.set(name, new Highlight(range));
+    else CSS.highlights.delete(name);
+}
+
+function scrollParent(element: HTMLElement | null): HTMLElement | null {
+    for (let current = element; current; current = current.parentElement) {
+        const { overflowY } = getComputedStyle(current);
+        if ((overflowY === 'auto' || overflowY === 'scroll') && current.scrollHeight > current.clientHeight) return current;
+    }
+    return null;
+}
+
+/** Scrolls the range to the middle of its scroll area when it's out of view. */
+function keepInView(range: Range): void {
+    const rect = range.getBoundingClientRect();
+    if (rect.height === 0) return; // Hidden content, e.g. the English behind a translation
+    const element = range.startContainer.parentElement;
+    const container = scrollParent(element);
+    const bounds = container?.getBoundingClientRect() ?? { top: 0, bottom: window.innerHeight };
+    if (rect.top < bounds.top || rect.bottom > bounds.bottom) {
+        element?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+}
+
+/** The character offset under a point on screen, if it's inside the collected text. */
+function indexAtPoint(collected: CollectedText, x: number, y: number): number | null {
+    let node: Node | null = null;
+    let offset = 0;
+    if (document.caretPositionFromPoint) {
+        const position = document.caretPositionFromPoint(x, y);
+        node = position?.offsetNode ?? null;
+        offset = position?.offset ?? 0;
+    } else if (document.caretRangeFromPoint) {
+        const range = document.caretRangeFromPoint(x, y);
+        node = range?.startContainer ?? null;
+        offset = range?.startOffset ?? 0;
+    }
+    const piece = collected.pieces.find(candidate => candidate.node === node);
+    return piece ? piece.start + offset : null;
+}
+
+/** The start of the word containing a character offset. */
+function wordStart(text: string, index: number): number {
+    let start = Math.min(index, text.length);
+    while (start > 0 && !/\s/.test(text[start - 1])) start--;
+    return start;
+}
+
+function wordEnd(text: string, index: number): number {
+    let end = index;
+    while (end < text.length && !/\s/.test(text[end])) end++;
+    return end;
+}
+
+export function createReadAlong(onStatusChange: (status: ReadAlongStatus) => void): ReadAlong {
+    let collected: CollectedText | null = null;
+    let sentences: Span[] = [];
+    let options: ReadAlongOptions = {};
+    /** Where reading has got to, so pause and resume can carry on from the same word. */
+    let position = 0;
+    /** Changes whenever reading stops or restarts, so events from cancelled utterances are ignored. */
+    let run = 0;
+    // Kept so the browser doesn't garbage-collect the utterance and drop its events
+    let utterance: SpeechSynthesisUtterance | null = null;
+
+    const clearHighlights = () => {
+        showHighlight(WORD_HIGHLIGHT, null);
+        showHighlight(SENTENCE_HIGHLIGHT, null);
+    };
+
+    const finish = () => {
+        run++;
+        utterance = null;
+        clearHighlights();
+        onStatusChange('idle');
+    };
+
+    const speakFrom = (index: number) => {
+        if (!collected) return;
+        const sentenceIndex = sentences.findIndex(sentence => sentence.end > index);
+        if (sentenceIndex === -1) {
+            finish();
+            return;
+        }
+        const sentence = sentences[sentenceIndex];
+        const from = Math.max(index, sentence.start);
+        const currentRun = run;
+        const text = collected.text.slice(from, sentence.end);
+
+        utterance = new SpeechSynthesisUtterance(text);
+        if (options.voice) utterance.voice = options.voice;
+        if (options.lang) utterance.lang = options.lang;
+        utterance.onstart = () => {
+            if (currentRun !== run || !collected) return;
+            position = from;
+            const range = toRange(collected, sentence);
+            showHighlight(SENTENCE_HIGHLIGHT, range);
+            if (range) keepInView(range);
+        };
+        utterance.onboundary = event => {
+            if (currentRun !== run || !collected || (event.name && event.name !== 'word')) return;
+            const start = from + event.charIndex;
+            const end = event.charLength ? start + event.charLength : wordEnd(collected.text, start);
+            position = start;
+            const range = toRange(collected, { start, end });
+            showHighlight(WORD_HIGHLIGHT, range);
+            if (range) keepInView(range);
+        };
+        utterance.onend = () => {
+            if (currentRun !== run) return;
+            showHighlight(WORD_HIGHLIGHT, null);
+            speakFrom(sentence.end);
+        };
+        utterance.onerror = event => {
+            // Cancelling speech ourselves (stop, pause, restart) reports as interrupted
+            if (currentRun !== run || event.error === 'interrupted' || event.error === 'canceled') return;
+            console.error("Speech synthesis error:", event.error);
+            finish();
+        };
+        window.speechSynthesis.speak(utterance);
+    };
+
+    const restart = (index: number) => {
+        run++;
+        window.speechSynthesis.cancel();
+        showHighlight(WORD_HIGHLIGHT, null);
+        onStatusChange('speaking');
+        speakFrom(index);
+    };
+
+    return {
+        start(element, readOptions, from) {
+            options = readOptions;
+            collected = collectText(element);
+            sentences = splitSentences(collected.text, readOptions.lang);
+            const index = from ? indexAtPoint(collected, from.x, from.y) : null;
+            position = index === null ? 0 : wordStart(collected.text, index);
+            restart(position);
+        },
+        pause() {
+            if (!collected) return;
+            run++;
+            window.speechSynthesis.cancel();
+            onStatusChange('paused');
+        },
+        resume() {
+            if (!collected) return;
+            restart(wordStart(collected.text, position));
+        },
+        stop() {
+            window.speechSynthesis.cancel();
+            collected = null;
+            finish();
+        },
+    };
+}
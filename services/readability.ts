@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ContentLevel, SimplifiedContent } from '../types';
+
+/**
+ * Local readability metrics, so the level suggested by the model and the difficulty of each
+ * generated level can be checked against the text itself rather than taken on trust.
+ */
+
+export interface ReadabilityMetrics {
+    words: number;
+    sentences: number;
+    syllables: number;
+    averageSentenceLength: number;
+    averageSyllablesPerWord: number;
+    /** Flesch-Kincaid grade level: roughly the US school grade needed to follow the text. */
+    fleschKincaidGrade: number;
+    /** Share of words (0-1) that are long and outside everyday vocabulary; a proxy for jargon. */
+    rareWordDensity: number;
+}
+
+export type SimplifiedLevel = SimplifiedContent['suggestedLevel'];
+
+/** Grades above the input's by more than this count as harder than the input. */
+const HARDER_THAN_INPUT_MARGIN = 0.5;
+
+/**
+ * Everyday words that are never counted as rare, even when they have three or more syllables.
+ * Shorter words are never rare, so only longer common words need listing.
+ */
+const COMMON_WORDS = new Set([
+    'about', 'above', 'according', 'actually', 'afternoon', 'again', 'against', 'already', 'also', 'although', 'always',
+    'animal', 'another', 'anything', 'anyone', 'area', 'around', 'away', 'beautiful', 'because', 'before', 'begin',
+    'believe', 'below', 'between', 'business', 'camera', 'carry', 'certainly', 'company', 'computer', 'continue',
+    'country', 'different', 'difficult', 'during', 'easily', 'energy', 'enemy', 'every', 'everybody', 'everyone',
+    'everything', 'example', 'family', 'favorite', 'favourite', 'finally', 'follow', 'government', 'happy', 'history',
+    'however', 'idea', 'important', 'interest', 'interesting', 'library', 'little', 'many', 'maybe', 'medicine',
+    'memory', 'minute', 'money', 'morning', 'music', 'nobody', 'number', 'often', 'open', 'other', 'over', 'paper',
+    'people', 'perhaps', 'period', 'person', 'picture', 'possible', 'probably', 'problem', 'really', 'remember',
+    'several', 'simple', 'simply', 'something', 'sometimes', 'station', 'story', 'study', 'today', 'together',
+    'tomorrow', 'under', 'understand', 'usually', 'vegetable', 'very', 'video', 'water', 'whatever', 'yesterday',
+]);
+
+/** Removes Markdown syntax and link targets so only the readable words remain. */
+function stripMarkdown(text: string): string {
+    return text
+        .replace(/```[\s\S]*?```/g, ' ')
+        .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/https?:\/\/\S+/g, ' ')
+        .replace(/[#>*_`|~]/g, ' ');
+}
+
+/** Estimates syllables by counting vowel groups, adjusted for silent endings. */
+export function countSyllables(word: string): number {
+    const lower = word.toLowerCase().replace(/[^a-z]/g, '');
+    if (!lower) return 0;
+    if (lower.length <= 3) return 1;
+    const trimmed = lower.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+    const groups = trimmed.match(/[aeiouy]{1,2}/g);
+    return Math.max(1, groups?.length ?? 1);
+}
+
+function isRareWord(word: string, syllables: number): boolean {
+    return syllables >= 3 && !COMMON_WORDS.has(word.toLowerCase());
+}
+
+/** Computes readability metrics for plain or Markdown text. Empty text scores zero throughout. */
+export function analyzeReadability(text: string): ReadabilityMetrics {
+    const plain = stripMarkdown(text);
+    const sentences = plain.split(/[.!?]+(?:\s|$)|\n\s*\n/).filter(sentence => /[a-z]/i.test(sentence)).length;
+    const words = plain.match(/[a-z]+(?:['’-][a-z]+)*/gi) ?? [];
+    if (words.length === 0 || sentences === 0) {
+        return { words: 0, sentences: 0, syllables: 0, averageSentenceLength: 0, averageSyllablesPerWord: 0, fleschKincaidGrade: 0, rareWordDensity: 0 };
+    }
+
+    let syllables = 0;
+    let rareWords = 0;
+    for (const word of words) {
+        const count = countSyllables(word);
+        syllables += count;
+        if (isRareWord(word, count)) rareWords++;
+    }
+    const averageSentenceLength = words.length / sentences;
+    const averageSyllablesPerWord = syllables / words.length;
+    return {
+        words: words.length,
+        sentences,
+        syllables,
+        averageSentenceLength,
+        averageSyllablesPerWord,
+        fleschKincaidGrade: Math.max(0, 0.39 * averageSentenceLength + 11.8 * averageSyllablesPerWord - 15.59),
+        rareWordDensity: rareWords / words.length,
+    };
+}
+
+/** The readable text of a content level: its definition, example, use case and summary. */
+export function contentLevelText(level: ContentLevel): string {
+    return [level.definition, level.example, level.useCase, level.summary].join('\n\n');
+}
+
+/** The level the text's grade suggests starting at: up to grade 8 is beginner, up to 12 intermediate. */
+export function levelForGrade(grade: number): SimplifiedLevel {
+    if (grade <= 8) return 'beginner';
+    if (grade <= 12) return 'intermediate';
+    return 'advancedSimplified';
+}
+
+/** Whether simplified output reads as harder than the text it was simplified from. */
+export function isHarderThan(output: ReadabilityMetrics, input: ReadabilityMetrics): boolean {
+    return input.words > 0 && output.fleschKincaidGrade > input.fleschKincaidGrade + HARDER_THAN_INPUT_MARGIN;
+}
@@ -0,0 +1,223 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AIOperation } from './llmProvider';
+import { isIndexedDBAvailable, openDatabase, requestToPromise, transactionDone } from './idbStore';
+
+/**
+ * A local cache of finished AI results, stored in IndexedDB so it survives reloads.
+ * Entries are keyed by operation, model and normalized input, expire after a per-operation TTL,
+ * and the least recently used entries are evicted once the cache outgrows its limits.
+ * Without IndexedDB (e.g. on the proxy server) every lookup is a miss and nothing is stored.
+ */
+
+const DB_NAME = 'ai-response-cache';
+const DB_VERSION = 1;
+/** Cached results, keyed by cache key. Kept apart from the metadata so eviction never loads them. */
+const ENTRIES_STORE = 'entries';
+/** Size and timestamps per cache key. */
+const META_STORE = 'meta';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface ResponseCacheConfig {
+    enabled: boolean;
+    maxEntries: number;
+    /** Approximate limit on the total size of cached results (JSON length). */
+    maxBytes: number;
+}
+
+interface CacheMeta {
+    key: string;
+    operation: AIOperation;
+    sizeBytes: number;
+    createdAt: number;
+    expiresAt: number;
+    lastAccessedAt: number;
+}
+
+export interface CacheHit<T> {
+    value: T;
+    /** When the cached result was generated. */
+    createdAt: number;
+}
+
+export interface CacheStats {
+    entries: number;
+    sizeBytes: number;
+}
+
+/**
+ * How long each cacheable operation's results stay fresh. Operations without a TTL are never
+ * cached, because their answers are personal (feedback) or meant to differ each time (challenges).
+ */
+const operationTtls: Partial<Record<AIOperation, number>> = {
+    generateSimplifiedContent: 30 * DAY_MS,
+    translateContent: 30 * DAY_MS,
+    generateExpandedContent: 7 * DAY_MS,
+    generateDiagram: 7 * DAY_MS,
+    generateComprehensionTest: DAY_MS,
+    generateQuiz: DAY_MS,
+};
+
+let cacheConfig: ResponseCacheConfig = {
+    enabled: true,
+    maxEntries: 200,
+    maxBytes: 50 * 1024 * 1024,
+};
+
+export function configureResponseCache(overrides: Partial<ResponseCacheConfig>): void {
+    cacheConfig = { ...cacheConfig, ...overrides };
+}
+
+export function isCacheable(operation: AIOperation): boolean {
+    // crypto.subtle is only available in secure contexts (HTTPS or localhost).
+    const canHash = typeof crypto !== 'undefined' && crypto.subtle !== undefined;
+    return cacheConfig.enabled && isIndexedDBAvailable() && canHash && operationTtls[operation] !== undefined;
+}
+
+/**
+ * Normalizes free text typed by users so trivially different inputs ("Photosynthesis " vs
+ * "photosynthesis") share a cache entry.
+ */
+export function normalizeText(text: string): string {
+    return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/** JSON.stringify with sorted object keys, so equal inputs always serialize identically. */
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
+
+async function sha256(text: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Builds the cache key for a call. `input` should already be normalized by the caller,
+ * e.g. free text passed through normalizeText.
+ */
+export async function createCacheKey(operation: AIOperation, model: string, input: unknown): Promise<string> {
+    return `${operation}:${model}:${await sha256(stableStringify(input))}`;
+}
+
+function openCache(): Promise<IDBDatabase> {
+    return openDatabase(DB_NAME, DB_VERSION, db => {
+        if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+            db.createObjectStore(ENTRIES_STORE);
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+            db.createObjectStore(META_STORE, { keyPath: 'key' });
+        }
+    });
+}
+
+/**
+ * Returns the cached result for a key, or null on a miss. Expired entries are removed on read.
+ * Cache failures are logged and treated as misses so they never break an AI feature.
+ */
+export async function readCache<T>(key: string): Promise<CacheHit<T> | null> {
+    try {
+        const db = await openCache();
+        const transaction = db.transaction([ENTRIES_STORE, META_STORE], 'readwrite');
+        const meta = await requestToPromise<CacheMeta | undefined>(transaction.objectStore(META_STORE).get(key));
+        if (!meta) {
+            return null;
+        }
+        if (meta.expiresAt <= Date.now()) {
+            transaction.objectStore(ENTRIES_STORE).delete(key);
+            transaction.objectStore(META_STORE).delete(key);
+            await transactionDone(transaction);
+            return null;
+        }
+        const value = await requestToPromise<T | undefined>(transaction.objectStore(ENTRIES_STORE).get(key));
+        if (value === undefined) {
+            return null;
+        }
+        transaction.objectStore(META_STORE).put({ ...meta, lastAccessedAt: Date.now() });
+        await transactionDone(transaction);
+        return { value, createdAt: meta.createdAt };
+    } catch (error) {
+        console.warn("Response cache read failed:", error);
+        return null;
+    }
+}
+
+export async function writeCache(key: string, operation: AIOperation, value: unknown): Promise<void> {
+    const ttl = operationTtls[operation];
+    if (ttl === undefined) return;
+
+    const sizeBytes = JSON.stringify(value).length;
+    if (sizeBytes > cacheConfig.maxBytes) return;
+
+    try {
+        const db = await openCache();
+        const now = Date.now();
+        const meta: CacheMeta = { key, operation, sizeBytes, createdAt: now, expiresAt: now + ttl, lastAccessedAt: now };
+        const transaction = db.transaction([ENTRIES_STORE, META_STORE], 'readwrite');
+        transaction.objectStore(ENTRIES_STORE).put(value, key);
+        transaction.objectStore(META_STORE).put(meta);
+        await transactionDone(transaction);
+        await evictEntries();
+    } catch (error) {
+        console.warn("Response cache write failed:", error);
+    }
+}
+
+/**
+ * Removes expired entries, then the least recently used ones until the cache is within its limits.
+ */
+async function evictEntries(): Promise<void> {
+    const db = await openCache();
+    const transaction = db.transaction([ENTRIES_STORE, META_STORE], 'readwrite');
+    const metaStore = transaction.objectStore(META_STORE);
+    const allMeta = await requestToPromise<CacheMeta[]>(metaStore.getAll());
+
+    const now = Date.now();
+    const byRecency = [...allMeta].sort((a, b) => b.lastAccessedAt - a.lastAccessedAt);
+    let entries = 0;
+    let sizeBytes = 0;
+    for (const meta of byRecency) {
+        const fits = entries + 1 <= cacheConfig.maxEntries && sizeBytes + meta.sizeBytes <= cacheConfig.maxBytes;
+        if (meta.expiresAt > now && fits) {
+            entries++;
+            sizeBytes += meta.sizeBytes;
+        } else {
+            transaction.objectStore(ENTRIES_STORE).delete(meta.key);
+            metaStore.delete(meta.key);
+        }
+    }
+    await transactionDone(transaction);
+}
+
+export async function getCacheStats(): Promise<CacheStats> {
+    if (!isIndexedDBAvailable()) {
+        return { entries: 0, sizeBytes: 0 };
+    }
+    const db = await openCache();
+    const allMeta = await requestToPromise<CacheMeta[]>(db.transaction(META_STORE).objectStore(META_STORE).getAll());
+    return {
+        entries: allMeta.length,
+        sizeBytes: allMeta.reduce((total, meta) => total + meta.sizeBytes, 0),
+    };
+}
+
+export async function clearCache(): Promise<void> {
+    if (!isIndexedDBAvailable()) return;
+    const db = await openCache();
+    const transaction = db.transaction([ENTRIES_STORE, META_STORE], 'readwrite');
+    transaction.objectStore(ENTRIES_STORE).clear();
+    transaction.objectStore(META_STORE).clear();
+    await transactionDone(transaction);
+}
@@ -0,0 +1,223 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Schema, Type } from "@google/genai";
+
+/**
+ * Runtime validation of AI JSON responses.
+ * The response schemas in geminiService mirror the interfaces in types.ts, so validating
+ * against them guarantees the parsed value has the shape the UI expects before it is cast.
+ */
+
+export interface ValidationIssue {
+    /** JSONPath-style location of the invalid field, e.g. `$.beginner.keyTerms[1].term`. */
+    path: string;
+    message: string;
+}
+
+/**
+ * Extracts the first complete JSON object or array from a model response.
+ * Tolerates markdown fences and chatter before or after the JSON by scanning for the
+ * bracket that balances the opening one, ignoring brackets inside strings.
+ * @param jsonString The raw string response from the AI.
+ * @returns The parsed JSON value.
+ */
+export function robustJsonParse(jsonString: string): unknown {
+    const firstBrace = jsonString.indexOf('{');
+    const firstBracket = jsonString.indexOf('[');
+    if (firstBrace === -1 && firstBracket === -1) {
+        throw new Error('No JSON object or array found in the response.');
+    }
+    const startIndex = firstBrace === -1 ? firstBracket : firstBracket === -1 ? firstBrace : Math.min(firstBrace, firstBracket);
+
+    let depth = 0;
+    let inString = false;
+    let endIndex = -1;
+    for (let i = startIndex; i < jsonString.length; i++) {
+        const char = jsonString[i];
+        if (inString) {
+            if (char === '\\') i++;
+            else if (char === '"') inString = false;
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === '{' || char === '[') {
+            depth++;
+        } else if (char === '}' || char === ']') {
+            depth--;
+            if (depth === 0) {
+                endIndex = i;
+                break;
+            }
+        }
+    }
+
+    if (endIndex === -1) {
+        throw new Error('The JSON content in the response is incomplete.');
+    }
+
+    const jsonSubString = jsonString.substring(startIndex, endIndex + 1);
+    try {
+        return JSON.parse(jsonSubString);
+    } catch (error) {
+        console.error("Failed to parse JSON substring:", error);
+        console.error("Extracted substring:", jsonSubString);
+        throw new Error("The AI returned a response that could not be parsed as JSON.");
+    }
+}
+
+/**
+ * Parses a JSON document that is still being streamed, closing any open strings, arrays and
+ * objects. A trailing key or value that cannot be completed yet is dropped, so the result only
+ * contains fields that have at least started. Returns undefined until the JSON has begun.
+ */
+export function parsePartialJson(jsonString: string): unknown {
+    const firstBrace = jsonString.indexOf('{');
+    const firstBracket = jsonString.indexOf('[');
+    if (firstBrace === -1 && firstBracket === -1) {
+        return undefined;
+    }
+    const startIndex = firstBrace === -1 ? firstBracket : firstBracket === -1 ? firstBrace : Math.min(firstBrace, firstBracket);
+
+    const closers: string[] = [];
+    let inString = false;
+    // The last points where cutting the text and closing every open container gives valid JSON.
+    let checkpoint = { index: startIndex, closers: '' };
+    for (let i = startIndex; i < jsonString.length; i++) {
+        const char = jsonString[i];
+        if (inString) {
+            if (char === '\\') i++;
+            else if (char === '"') inString = false;
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === '{' || char === '[') {
+            closers.push(char === '{' ? '}' : ']');
+            checkpoint = { index: i + 1, closers: [...closers].reverse().join('') };
+        } else if (char === '}' || char === ']') {
+            closers.pop();
+            if (closers.length === 0) {
+                try {
+                    return JSON.parse(jsonString.substring(startIndex, i + 1));
+                } catch {
+                    return undefined;
+                }
+            }
+        } else if (char === ',') {
+            checkpoint = { index: i, closers: [...closers].reverse().join('') };
+        }
+    }
+
+    const pending = jsonString.substring(startIndex) + (inString ? '"' : '') + [...closers].reverse().join('');
+    try {
+        return JSON.parse(pending);
+    } catch {
+        try {
+            return JSON.parse(jsonString.substring(startIndex, checkpoint.index) + checkpoint.closers);
+        } catch {
+            return undefined;
+        }
+    }
+}
+
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'an array';
+    return typeof value === 'object' ? 'an object' : `${typeof value} ${JSON.stringify(value)}`;
+}
+
+/**
+ * Checks a parsed value against a response schema and reports every invalid field.
+ * @returns An empty array when the value is valid.
+ */
+export function validateAgainstSchema(value: unknown, schema: Schema, path = '$'): ValidationIssue[] {
+    if (value === null || value === undefined) {
+        return schema.nullable ? [] : [{ path, message: 'is missing' }];
+    }
+
+    const issues: ValidationIssue[] = [];
+    switch (schema.type) {
+        case Type.OBJECT: {
+            if (typeof value !== 'object' || Array.isArray(value)) {
+                return [{ path, message: `expected an object but got ${describe(value)}` }];
+            }
+            const record = value as Record<string, unknown>;
+            for (const key of schema.required ?? []) {
+                if (record[key] === undefined || record[key] === null) {
+                    issues.push({ path: `${path}.${key}`, message: 'is required but missing' });
+                }
+            }
+            for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+                if (record[key] !== undefined && record[key] !== null) {
+                    issues.push(...validateAgainstSchema(record[key], propertySchema, `${path}.${key}`));
+                }
+            }
+            break;
+        }
+        case Type.ARRAY: {
+            if (!Array.isArray(value)) {
+                return [{ path, message: `expected an array but got ${describe(value)}` }];
+            }
+            if (schema.minItems !== undefined && value.length < Number(schema.minItems)) {
+                issues.push({ path, message: `expected at least ${schema.minItems} items but got ${value.length}` });
+            }
+            if (schema.maxItems !== undefined && value.length > Number(schema.maxItems)) {
+                issues.push({ path, message: `expected at most ${schema.maxItems} items but got ${value.length}` });
+            }
+            if (schema.items) {
+                value.forEach((item, index) => issues.push(...validateAgainstSchema(item, schema.items!, `${path}[${index}]`)));
+            }
+            break;
+        }
+        case Type.STRING: {
+            if (typeof value !== 'string') {
+                return [{ path, message: `expected a string but got ${describe(value)}` }];
+            }
+            if (schema.enum && !schema.enum.includes(value)) {
+                issues.push({ path, message: `must be one of ${schema.enum.map(v => `"${v}"`).join(', ')}` });
+            }
+            break;
+        }
+        case Type.INTEGER:
+        case Type.NUMBER: {
+            if (typeof value !== 'number' || Number.isNaN(value)) {
+                return [{ path, message: `expected a number but got ${describe(value)}` }];
+            }
+            if (schema.type === Type.INTEGER && !Number.isInteger(value)) {
+                issues.push({ path, message: `expected a whole number but got ${value}` });
+            }
+            if (schema.minimum !== undefined && value < schema.minimum) {
+                issues.push({ path, message: `must be at least ${schema.minimum}` });
+            }
+            if (schema.maximum !== undefined && value > schema.maximum) {
+                issues.push({ path, message: `must be at most ${schema.maximum}` });
+            }
+            break;
+        }
+        case Type.BOOLEAN: {
+            if (typeof value !== 'boolean') {
+                return [{ path, message: `expected true or false but got ${describe(value)}` }];
+            }
+            break;
+        }
+    }
+    return issues;
+}
+
+/**
+ * Parses a raw model response and validates it. Unparseable text is reported as a single
+ * issue at the root rather than thrown, so callers can treat it like any other invalid field.
+ */
+export function parseAndValidate(responseText: string, schema: Schema): { value: unknown; issues: ValidationIssue[] } {
+    let value: unknown;
+    try {
+        value = robustJsonParse(responseText);
+    } catch (error: any) {
+        return { value: undefined, issues: [{ path: '$', message: error.message }] };
+    }
+    return { value, issues: validateAgainstSchema(value, schema) };
+}
+
+export function formatIssues(issues: ValidationIssue[]): string {
+    return issues.map(issue => `- ${issue.path} ${issue.message}`).join('\n');
+}
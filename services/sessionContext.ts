@@ -0,0 +1,20 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { User } from '../types';
+
+/**
+ * The signed-in user, mirrored here by App so service modules can attribute AI calls
+ * without every screen having to pass the user through.
+ */
+let sessionUser: User | null = null;
+
+export function setSessionUser(user: User | null): void {
+    sessionUser = user;
+}
+
+export function getSessionUser(): User | null {
+    return sessionUser;
+}
@@ -0,0 +1,260 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type {
+    AIOperation,
+    LLMProvider,
+    TextGenerationRequest,
+    TextGenerationResult,
+    ImageGenerationRequest,
+    ImageGenerationResult,
+} from './llmProvider';
+import { getProvider, setProvider, getProviderOverride } from './llmProvider';
+import { AIServiceError, AIErrorKind, createAIError } from './aiErrors';
+import { summarizeRequest, AICallRequest } from './aiCallLog';
+
+/**
+ * Records the model calls of a session to a portable JSON file and replays them later, so a flow
+ * that went wrong for a student can be reproduced exactly in development or in automated tests.
+ * Both work by wrapping the active provider. Calls made through the proxy server bypass the
+ * provider and are neither recorded nor replayed.
+ */
+
+export interface RecordedError {
+    /** Missing for errors that weren't AI service errors, which are replayed as plain errors. */
+    kind?: AIErrorKind;
+    message: string;
+}
+
+export interface RecordedCall {
+    kind: 'text' | 'stream' | 'image';
+    operation: AIOperation;
+    /** The request, with attached file data replaced by its size. Used to match calls on replay. */
+    request: AICallRequest;
+    /** The response, or for streamed calls each chunk in order. */
+    response?: TextGenerationResult | TextGenerationResult[] | ImageGenerationResult;
+    error?: RecordedError;
+}
+
+export interface SessionRecording {
+    version: 1;
+    /** ISO timestamp of when recording started. */
+    recordedAt: string;
+    /** Provider and model that produced the responses, e.g. "gemini/gemini-2.5-flash". */
+    model: string;
+    calls: RecordedCall[];
+}
+
+export type SessionMode = 'recording' | 'replaying';
+
+/** The key a call is matched on during replay: everything about the request except bookkeeping. */
+function requestKey(request: AICallRequest): string {
+    const { prompts: _prompts, replayOf: _replayOf, ...rest } = summarizeRequest(request);
+    return JSON.stringify(rest);
+}
+
+function toRecordedError(error: unknown): RecordedError {
+    const message = error instanceof Error ? error.message : String(error);
+    return error instanceof AIServiceError ? { kind: error.kind, message } : { message };
+}
+
+function fromRecordedError(error: RecordedError): Error {
+    return error.kind ? createAIError(error.kind, error.message) : new Error(error.message);
+}
+
+/**
+ * Wraps a provider so that every call and its outcome is appended to `calls`, in the order the
+ * calls were made.
+ */
+export function createRecordingProvider(inner: LLMProvider, calls: RecordedCall[]): LLMProvider {
+    const begin = (kind: RecordedCall['kind'], request: TextGenerationRequest | ImageGenerationRequest): RecordedCall => {
+        const { signal: _signal, ...rest } = request;
+        const call: RecordedCall = { kind, operation: request.operation, request: summarizeRequest(rest) };
+        calls.push(call);
+        return call;
+    };
+
+    const provider: LLMProvider = {
+        name: inner.name,
+        model: inner.model,
+        imageModel: inner.imageModel,
+
+        async generateText(request) {
+            const call = begin('text', request);
+            try {
+                const result = await inner.generateText(request);
+                call.response = result;
+                return result;
+            } catch (error) {
+                call.error = toRecordedError(error);
+                throw error;
+            }
+        },
+
+        async generateImage(request) {
+            const call = begin('image', request);
+            try {
+                const result = await inner.generateImage(request);
+                call.response = result;
+                return result;
+            } catch (error) {
+                call.error = toRecordedError(error);
+                throw error;
+            }
+        },
+    };
+
+    if (inner.streamText) {
+        const streamText = inner.streamText.bind(inner);
+        provider.streamText = async function* (request) {
+            const call = begin('stream', request);
+            const chunks: TextGenerationResult[] = [];
+            call.response = chunks;
+            try {
+                for await (const chunk of streamText(request)) {
+                    chunks.push(chunk);
+                    yield chunk;
+                }
+            } catch (error) {
+                call.error = toRecordedError(error);
+                throw error;
+            }
+        };
+    }
+    return provider;
+}
+
+export interface ReplayProvider extends LLMProvider {
+    /** Recorded calls that haven't been replayed yet. */
+    remaining(): number;
+}
+
+/**
+ * Creates a provider that answers from a recording instead of a model. Each request gets the
+ * response of the first unreplayed call with the same request, so calls are replayed in recorded
+ * order, including failures and retries. Requests the recording doesn't contain are rejected.
+ */
+export function createReplayProvider(recording: SessionRecording): ReplayProvider {
+    const pending = [...recording.calls];
+
+    /** Takes the next call of one of `kinds` with the same request out of the recording. */
+    const take = (kinds: RecordedCall['kind'][], request: TextGenerationRequest | ImageGenerationRequest): RecordedCall => {
+        const { signal: _signal, ...rest } = request;
+        const key = requestKey(rest);
+        const index = pending.findIndex(call => kinds.includes(call.kind) && requestKey(call.request) === key);
+        if (index === -1) {
+            throw new AIServiceError('unknown', `The recording has no call to ${request.operation} with this request. The flow has diverged from the recorded session.`);
+        }
+        return pending.splice(index, 1)[0];
+    };
+
+    const provider: ReplayProvider = {
+        name: 'replay',
+        model: recording.model,
+
+        remaining: () => pending.length,
+
+        async generateText(request) {
+            const call = take(['text'], request);
+            if (call.error) throw fromRecordedError(call.error);
+            return call.response as TextGenerationResult;
+        },
+
+        // Recordings made with a provider that can't stream hold whole responses instead of chunks.
+        async *streamText(request) {
+            const call = take(['stream', 'text'], request);
+            if (call.kind === 'text') {
+                if (call.error) throw fromRecordedError(call.error);
+                yield call.response as TextGenerationResult;
+                return;
+            }
+            for (const chunk of call.response as TextGenerationResult[]) {
+                yield chunk;
+            }
+            if (call.error) throw fromRecordedError(call.error);
+        },
+
+        async generateImage(request) {
+            const call = take(['image'], request);
+            if (call.error) throw fromRecordedError(call.error);
+            return call.response as ImageGenerationResult;
+        },
+    };
+    return provider;
+}
+
+/**
+ * Parses a recording file, checking that it is a recording this version of the app can replay.
+ * Throws an Error describing the problem otherwise.
+ */
+export function parseSessionRecording(json: string): SessionRecording {
+    let value: Partial<SessionRecording>;
+    try {
+        value = JSON.parse(json);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    if (value?.version !== 1 || !Array.isArray(value.calls)) {
+        throw new Error('The file is not an AI session recording.');
+    }
+    return value as SessionRecording;
+}
+
+let session: {
+    mode: SessionMode;
+    /** The provider override to restore when the session ends. */
+    previousOverride: LLMProvider | null;
+    recording: SessionRecording;
+    replayProvider?: ReplayProvider;
+} | null = null;
+
+/** Whether a session is being recorded or replayed. While it is, responses are never served from the cache. */
+export function getSessionMode(): SessionMode | null {
+    return session?.mode ?? null;
+}
+
+/** Starts recording every model call made through the active provider. Ends any running session first. */
+export function startRecording(): void {
+    endSession();
+    const inner = getProvider();
+    const recording: SessionRecording = {
+        version: 1,
+        recordedAt: new Date().toISOString(),
+        model: `${inner.name}/${inner.model}`,
+        calls: [],
+    };
+    session = { mode: 'recording', previousOverride: getProviderOverride(), recording };
+    setProvider(createRecordingProvider(inner, recording.calls));
+}
+
+/** Stops recording and returns what was recorded, or null when nothing was being recorded. */
+export function stopRecording(): SessionRecording | null {
+    if (session?.mode !== 'recording') return null;
+    const { recording } = session;
+    endSession();
+    return recording;
+}
+
+/** Answers model calls from `recording` until the replay is stopped. Ends any running session first. */
+export function startReplay(recording: SessionRecording): void {
+    endSession();
+    const replayProvider = createReplayProvider(recording);
+    session = { mode: 'replaying', previousOverride: getProviderOverride(), recording, replayProvider };
+    setProvider(replayProvider);
+}
+
+/** Stops replaying. Returns how many recorded calls were never replayed, or null when no replay was running. */
+export function stopReplay(): number | null {
+    if (session?.mode !== 'replaying') return null;
+    const remaining = session.replayProvider!.remaining();
+    endSession();
+    return remaining;
+}
+
+function endSession(): void {
+    if (!session) return;
+    setProvider(session.previousOverride);
+    session = null;
+}
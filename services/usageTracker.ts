@@ -0,0 +1,235 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AIOperation, TokenUsage } from './llmProvider';
+import { getSessionUser } from './sessionContext';
+
+/**
+ * Per-user accounting of AI usage, kept in localStorage next to the user's activities.
+ * Usage is rolled up per day and operation as it is recorded, so the log stays small however
+ * many calls are made. Calls without a signed-in user are not recorded, and neither are calls made
+ * through the AI proxy, whose usage is the proxy operator's to limit.
+ */
+
+export interface UsageTotals {
+    calls: number;
+    promptTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+    images: number;
+}
+
+/** Usage per local calendar day ("YYYY-MM-DD"), then per operation. */
+export type UsageLog = Record<string, Partial<Record<AIOperation, UsageTotals>>>;
+
+export type UsagePeriod = 'day' | 'month';
+
+export interface UsageBudget {
+    /** Token limits; null means unlimited. */
+    dailyTokens: number | null;
+    monthlyTokens: number | null;
+    /** Generated image limits; null means unlimited. */
+    dailyImages: number | null;
+    monthlyImages: number | null;
+    /**
+     * What happens once a token limit is reached: 'block' stops every AI feature, 'degrade' keeps
+     * the lighter features (feedback, challenges, quizzes) running and stops only the heavy ones.
+     * Either way no more images are generated, so teaching packs fall back to offline illustrations.
+     */
+    whenExceeded: 'block' | 'degrade';
+}
+
+export interface BudgetStatus {
+    /** Text calls for this operation may go ahead. */
+    allowText: boolean;
+    /** New images may be generated. */
+    allowImages: boolean;
+    /** Which limit was hit, for display. */
+    reason?: string;
+}
+
+export const DEFAULT_USAGE_BUDGET: UsageBudget = {
+    dailyTokens: null,
+    monthlyTokens: null,
+    dailyImages: null,
+    monthlyImages: null,
+    whenExceeded: 'degrade',
+};
+
+/** The user-facing feature each operation belongs to. */
+export const operationLabels: Record<AIOperation, string> = {
+    generateSimplifiedContent: 'Simplify',
+    translateContent: 'Translate',
+    generateExpandedContent: 'Expand topic',
+    generateDiagram: 'Diagram',
+    generateComprehensionTest: 'Comprehension test',
+    evaluateComprehensionTest: 'Test marking',
+    generateAnalyticsInsights: 'Dashboard insights',
+    getThinkBotChallenge: 'ThinkBot challenge',
+    generateCustomThinkBotChallenge: 'Custom challenge',
+    getOddOneOutChallenge: 'Odd One Out',
+    getImagePuzzleChallenge: 'Image puzzle',
+    getListeningPracticeChallenge: 'Listening practice',
+    evaluateSolution: 'Solution feedback',
+    generateQuiz: 'Quiz',
+    getQuizFeedback: 'Quiz feedback',
+    getListeningPracticeFeedback: 'Listening feedback',
+};
+
+/** Operations that produce long answers; these are the first to stop in 'degrade' mode. */
+const heavyOperations: AIOperation[] = [
+    'generateSimplifiedContent',
+    'translateContent',
+    'generateExpandedContent',
+    'generateComprehensionTest',
+];
+
+/** Days of usage kept; older days are dropped when new usage is recorded. */
+const RETENTION_DAYS = 400;
+
+/** Approximate Gemini list prices in USD, used only for the estimate in the usage view. */
+const PRICE_PER_MILLION_PROMPT_TOKENS = 0.3;
+const PRICE_PER_MILLION_OUTPUT_TOKENS = 2.5;
+const PRICE_PER_IMAGE = 0.04;
+
+const usageKey = (userId: string) => `aiUsage_${userId}`;
+const budgetKey = (userId: string) => `aiBudget_${userId}`;
+
+export function emptyTotals(): UsageTotals {
+    return { calls: 0, promptTokens: 0, outputTokens: 0, totalTokens: 0, images: 0 };
+}
+
+function addTotals(target: UsageTotals, source: UsageTotals): void {
+    target.calls += source.calls;
+    target.promptTokens += source.promptTokens;
+    target.outputTokens += source.outputTokens;
+    target.totalTokens += source.totalTokens;
+    target.images += source.images;
+}
+
+/** The local calendar day of a date, as "YYYY-MM-DD". */
+export function toDayKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function readJson<T>(key: string): T | null {
+    if (typeof localStorage === 'undefined') return null;
+    try {
+        const stored = localStorage.getItem(key);
+        return stored ? JSON.parse(stored) as T : null;
+    } catch (e) {
+        console.error(`Failed to parse ${key} from localStorage`, e);
+        return null;
+    }
+}
+
+export function getUsageLog(userId: string): UsageLog {
+    return readJson<UsageLog>(usageKey(userId)) ?? {};
+}
+
+/**
+ * Records one model call for the signed-in user. `usage` comes from the provider's response
+ * metadata and may be missing (e.g. some image responses), in which case only the call is counted.
+ */
+export function recordUsage(operation: AIOperation, usage: TokenUsage | undefined, images = 0): void {
+    const user = getSessionUser();
+    if (!user || typeof localStorage === 'undefined') return;
+
+    const log = getUsageLog(user.id);
+    const today = toDayKey(new Date());
+    const day = log[today] ?? {};
+    const totals = day[operation] ?? emptyTotals();
+    addTotals(totals, {
+        calls: 1,
+        promptTokens: usage?.promptTokens ?? 0,
+        outputTokens: usage?.outputTokens ?? 0,
+        totalTokens: usage?.totalTokens ?? 0,
+        images,
+    });
+    day[operation] = totals;
+    log[today] = day;
+
+    const oldestKept = new Date();
+    oldestKept.setDate(oldestKept.getDate() - RETENTION_DAYS);
+    const cutoff = toDayKey(oldestKept);
+    for (const dayKey of Object.keys(log)) {
+        if (dayKey < cutoff) delete log[dayKey];
+    }
+
+    try {
+        localStorage.setItem(usageKey(user.id), JSON.stringify(log));
+    } catch (e) {
+        console.warn("Could not save AI usage:", e);
+    }
+}
+
+/**
+ * Sums the usage for the day or month containing `date`, per operation and overall.
+ */
+export function summarizeUsage(log: UsageLog, period: UsagePeriod, date = new Date()): { total: UsageTotals; byOperation: Partial<Record<AIOperation, UsageTotals>> } {
+    const prefix = period === 'day' ? toDayKey(date) : toDayKey(date).slice(0, 7);
+    const total = emptyTotals();
+    const byOperation: Partial<Record<AIOperation, UsageTotals>> = {};
+    for (const [dayKey, day] of Object.entries(log)) {
+        if (!dayKey.startsWith(prefix)) continue;
+        for (const [operation, totals] of Object.entries(day) as [AIOperation, UsageTotals][]) {
+            const operationTotals = byOperation[operation] ?? emptyTotals();
+            addTotals(operationTotals, totals);
+            byOperation[operation] = operationTotals;
+            addTotals(total, totals);
+        }
+    }
+    return { total, byOperation };
+}
+
+/** Estimated cost in USD of the given usage at list prices. */
+export function estimateCost(totals: UsageTotals): number {
+    return totals.promptTokens / 1_000_000 * PRICE_PER_MILLION_PROMPT_TOKENS
+        + totals.outputTokens / 1_000_000 * PRICE_PER_MILLION_OUTPUT_TOKENS
+        + totals.images * PRICE_PER_IMAGE;
+}
+
+export function getUsageBudget(userId: string): UsageBudget {
+    return { ...DEFAULT_USAGE_BUDGET, ...readJson<Partial<UsageBudget>>(budgetKey(userId)) };
+}
+
+export function saveUsageBudget(userId: string, budget: UsageBudget): void {
+    localStorage.setItem(budgetKey(userId), JSON.stringify(budget));
+}
+
+const isOver = (used: number, limit: number | null) => limit !== null && used >= limit;
+
+/**
+ * Checks the signed-in user's usage against their budget before a call to `operation`.
+ * Without a signed-in user everything is allowed.
+ */
+export function checkBudget(operation: AIOperation): BudgetStatus {
+    const user = getSessionUser();
+    if (!user || typeof localStorage === 'undefined') {
+        return { allowText: true, allowImages: true };
+    }
+
+    const budget = getUsageBudget(user.id);
+    const log = getUsageLog(user.id);
+    const today = summarizeUsage(log, 'day').total;
+    const thisMonth = summarizeUsage(log, 'month').total;
+
+    let tokenReason: string | undefined;
+    if (isOver(today.totalTokens, budget.dailyTokens)) tokenReason = 'daily token budget';
+    else if (isOver(thisMonth.totalTokens, budget.monthlyTokens)) tokenReason = 'monthly token budget';
+
+    let imageReason: string | undefined;
+    if (isOver(today.images, budget.dailyImages)) imageReason = 'daily image budget';
+    else if (isOver(thisMonth.images, budget.monthlyImages)) imageReason = 'monthly image budget';
+
+    const allowText = !tokenReason || (budget.whenExceeded === 'degrade' && !heavyOperations.includes(operation));
+    return {
+        allowText,
+        allowImages: !tokenReason && !imageReason,
+        reason: tokenReason ?? imageReason,
+    };
+}
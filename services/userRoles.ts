@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { User } from '../types';
+import { isDevToolsEnabled } from './devTools';
+
+/**
+ * Whether the user can change safety settings and AI budgets, for themselves or for learners.
+ * Learners can see theirs but not change them.
+ */
+export function canManageLearners(user: User): boolean {
+    return user.role === 'teacher' || user.role === 'admin';
+}
+
+/**
+ * Whether the user can open the AI call inspector, which shows responses before moderation:
+ * teachers and admins, or anyone in a development build.
+ */
+export function canInspectAICalls(user: User | null): boolean {
+    return isDevToolsEnabled() || (user !== null && canManageLearners(user));
+}
@@ -3,6 +3,9 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
+/** Accounts without a role are learners. Roles are assigned by the account database, never at sign-up. */
+export type UserRole = 'learner' | 'teacher' | 'admin';
+
 export interface User {
     id: string;
     username: string;
@@ -12,6 +15,7 @@ export interface User {
     password?: string; // Hashed password, optional for Google users
     googleId?: string;
     bio?: string;
+    role?: UserRole;
 }
 
 export interface Activity {
@@ -38,15 +42,45 @@ export interface SimplifiedContent {
     beginner: ContentLevel;
     intermediate: ContentLevel;
     advancedSimplified: ContentLevel;
+    /** Per-section simplifications, for documents long enough to be simplified section by section. */
+    sections?: SimplifiedSection[];
+}
+
+/** The simplification of one section of a long document. */
+export interface SimplifiedSection extends Omit<SimplifiedContent, 'sections'> {
+    title: string;
 }
 
+/**
+ * Where a teaching pack image stands: still queued or generating, generated by the AI,
+ * replaced by a fallback after generation failed, or unavailable altogether.
+ */
+export type ImageStatus = 'pending' | 'generated' | 'fallback' | 'failed';
+
 export interface ImageDetail {
     prompt: string;
     caption: string;
     explanation: string;
     relevance: string;
     url: string; // The Base64 URL or a web URL
-    source?: string; // e.g., 'Unsplash', 'Placeholder' for fallback images
+    source?: string; // e.g., 'AI Generated', 'Concept diagram' for offline fallbacks
+    status?: ImageStatus; // Missing on packs saved before statuses were tracked
+}
+
+/**
+ * The kinds of Mermaid diagram a teaching pack includes. Each kind is shown beside the section
+ * it illustrates: flowcharts with the workflow, sequence diagrams with the steps, and mind maps
+ * with the introduction.
+ */
+export type DiagramKind = 'flowchart' | 'sequence' | 'mindmap';
+
+export interface DiagramDetail {
+    kind: DiagramKind;
+    title: string;
+    /** A plain-language description, shown instead of the diagram when it can't be drawn. */
+    description: string;
+    /** Mermaid source. */
+    source: string;
 }
 
 export interface ExpandedContent {
@@ -59,6 +93,7 @@ export interface ExpandedContent {
     merits: string[];
     demerits: string[];
     images: ImageDetail[];
+    diagrams?: DiagramDetail[]; // Missing on packs saved before diagrams were added
     youtubeSources: { title: string; link: string; relevance: string; }[];
     webSources: { title: string; link: string; }[];
     summaryOrKeyTakeaways: string;
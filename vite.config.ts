@@ -4,6 +4,8 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // When an AI proxy is configured the Gemini key stays on the server and is never inlined.
+    const apiKey = env.AI_PROXY_URL ? undefined : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
@@ -11,8 +13,12 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.AI_PROXY_URL': JSON.stringify(env.AI_PROXY_URL),
+        'process.env.AI_LEARNER_PROFILE': JSON.stringify(env.AI_LEARNER_PROFILE),
+        'process.env.DEV_TOOLS': JSON.stringify(mode === 'development' ? 'true' : '')
       },
       resolve: {
         alias: {